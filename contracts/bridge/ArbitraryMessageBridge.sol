@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+// Passes contract calls between chains. The same contract is deployed on each chain:
+// requireToPassMessage emits MessageSent on the source, and relayers sign the message
+// and deliver it with executeMessage on the destination once enough of them agree.
+// Targets can check messageSender() and messageSourceChainId() while they are called.
+contract ArbitraryMessageBridge is Ownable, ReentrancyGuard {
+    struct Message {
+        bytes32 messageId;
+        uint256 sourceChainId;
+        uint256 destinationChainId;
+        address sender;
+        address target;
+        uint256 gasLimit;
+        bytes data;
+    }
+
+    // Destination message states
+    uint8 public constant NOT_EXECUTED = 0;
+    uint8 public constant SUCCEEDED = 1;
+    uint8 public constant FAILED = 2;
+
+    // Gas kept back for bookkeeping after the target call
+    uint256 private constant EXECUTION_OVERHEAD = 30000;
+
+    uint256 public maxGasPerMessage;
+    uint256 public requiredSignatures;
+    uint256 public nonce;
+    mapping(address => bool) public isRelayer;
+    uint256 public relayerCount;
+    mapping(bytes32 => uint8) public messageState;
+
+    // Context of the message being executed, cleared afterwards
+    bytes32 private currentMessageId;
+    uint256 private currentSourceChainId;
+    address private currentSender;
+
+    event MessageSent(
+        bytes32 indexed messageId,
+        uint256 indexed destinationChainId,
+        address indexed sender,
+        address target,
+        uint256 gasLimit,
+        bytes data
+    );
+    event MessageExecuted(
+        bytes32 indexed messageId,
+        uint256 indexed sourceChainId,
+        address indexed sender,
+        bool success,
+        bytes returnData
+    );
+    event RelayerAdded(address indexed relayer);
+    event RelayerRemoved(address indexed relayer);
+    event RequiredSignaturesChanged(uint256 requiredSignatures);
+
+    constructor(address[] memory relayers, uint256 _requiredSignatures, uint256 _maxGasPerMessage) {
+        for (uint256 i = 0; i < relayers.length; i++) {
+            _addRelayer(relayers[i]);
+        }
+        _setRequiredSignatures(_requiredSignatures);
+        maxGasPerMessage = _maxGasPerMessage;
+    }
+
+    // Source side
+
+    function requireToPassMessage(
+        uint256 destinationChainId,
+        address target,
+        bytes calldata data,
+        uint256 gasLimit
+    ) external returns (bytes32 id) {
+        require(destinationChainId != block.chainid, "Destination is this chain");
+        require(gasLimit <= maxGasPerMessage, "Gas limit too high");
+
+        nonce++;
+        id = keccak256(abi.encode(block.chainid, address(this), nonce));
+        emit MessageSent(id, destinationChainId, msg.sender, target, gasLimit, data);
+    }
+
+    // Destination side
+
+    // What relayers sign, as an EIP-191 message, for delivery through this bridge
+    function hashMessage(Message calldata message) public view returns (bytes32) {
+        return keccak256(abi.encode(
+            address(this),
+            message.messageId,
+            message.sourceChainId,
+            message.destinationChainId,
+            message.sender,
+            message.target,
+            message.gasLimit,
+            keccak256(message.data)
+        ));
+    }
+
+    // Signatures must come from distinct relayers, ordered by signer address. Targets can't
+    // re-enter to deliver another message while the current one's context is set.
+    function executeMessage(Message calldata message, bytes[] calldata signatures) external nonReentrant {
+        require(message.destinationChainId == block.chainid, "Wrong destination chain");
+        require(messageState[message.messageId] == NOT_EXECUTED, "Message already executed");
+        require(message.target != address(this), "Cannot call the bridge");
+        _verifySignatures(hashMessage(message), signatures);
+
+        // Marked before the call so the message can never run twice
+        messageState[message.messageId] = SUCCEEDED;
+        currentMessageId = message.messageId;
+        currentSourceChainId = message.sourceChainId;
+        currentSender = message.sender;
+
+        // Relayers can't starve the call of the gas the sender asked for. Checked after the
+        // writes above, and again after the call: a call that failed with less than 1/63 of
+        // its gas left over can only have been given less than gasLimit, so the whole
+        // delivery reverts and stays open instead of being marked failed.
+        require(gasleft() * 63 / 64 >= message.gasLimit + EXECUTION_OVERHEAD, "Not enough gas to execute");
+        (bool success, bytes memory returnData) = message.target.call{gas: message.gasLimit}(message.data);
+        require(success || gasleft() >= message.gasLimit / 63, "Not enough gas to execute");
+        delete currentMessageId;
+        delete currentSourceChainId;
+        delete currentSender;
+
+        if (!success) messageState[message.messageId] = FAILED;
+        emit MessageExecuted(message.messageId, message.sourceChainId, message.sender, success, returnData);
+    }
+
+    function messageId() external view returns (bytes32) {
+        return currentMessageId;
+    }
+
+    function messageSourceChainId() external view returns (uint256) {
+        return currentSourceChainId;
+    }
+
+    function messageSender() external view returns (address) {
+        return currentSender;
+    }
+
+    // Administration
+
+    function addRelayer(address relayer) external onlyOwner {
+        _addRelayer(relayer);
+    }
+
+    function removeRelayer(address relayer) external onlyOwner {
+        require(isRelayer[relayer], "Not a relayer");
+        require(relayerCount > requiredSignatures, "Too few relayers left");
+        isRelayer[relayer] = false;
+        relayerCount--;
+        emit RelayerRemoved(relayer);
+    }
+
+    function setRequiredSignatures(uint256 _requiredSignatures) external onlyOwner {
+        _setRequiredSignatures(_requiredSignatures);
+    }
+
+    function setMaxGasPerMessage(uint256 _maxGasPerMessage) external onlyOwner {
+        maxGasPerMessage = _maxGasPerMessage;
+    }
+
+    function _addRelayer(address relayer) internal {
+        require(relayer != address(0), "Invalid relayer");
+        require(!isRelayer[relayer], "Already a relayer");
+        isRelayer[relayer] = true;
+        relayerCount++;
+        emit RelayerAdded(relayer);
+    }
+
+    function _setRequiredSignatures(uint256 _requiredSignatures) internal {
+        require(_requiredSignatures > 0 && _requiredSignatures <= relayerCount, "Invalid signature threshold");
+        requiredSignatures = _requiredSignatures;
+        emit RequiredSignaturesChanged(_requiredSignatures);
+    }
+
+    function _verifySignatures(bytes32 hash, bytes[] calldata signatures) internal view {
+        require(signatures.length >= requiredSignatures, "Not enough signatures");
+        bytes32 signedHash = ECDSA.toEthSignedMessageHash(hash);
+
+        address previous = address(0);
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = ECDSA.recover(signedHash, signatures[i]);
+            require(signer > previous, "Signers not sorted or repeated");
+            require(isRelayer[signer], "Signer is not a relayer");
+            previous = signer;
+        }
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface IArbitraryMessageBridge {
+    function messageId() external view returns (bytes32);
+    function messageSourceChainId() external view returns (uint256);
+    function messageSender() external view returns (address);
+}
+
+// Runs calls on this chain for a controller on another chain, such as the governance
+// timelock on Chain 138. Only messages the bridge delivers from that controller get through.
+contract RemoteExecutor {
+    IArbitraryMessageBridge public immutable bridge;
+    uint256 public immutable controllerChainId;
+    address public immutable controller;
+
+    event CallExecuted(bytes32 indexed messageId, address indexed target, uint256 value, bytes data);
+
+    constructor(address _bridge, uint256 _controllerChainId, address _controller) {
+        require(_bridge != address(0) && _controller != address(0), "Invalid address");
+        bridge = IArbitraryMessageBridge(_bridge);
+        controllerChainId = _controllerChainId;
+        controller = _controller;
+    }
+
+    modifier onlyController() {
+        require(msg.sender == address(bridge), "Caller is not the bridge");
+        require(
+            bridge.messageSourceChainId() == controllerChainId && bridge.messageSender() == controller,
+            "Message is not from the controller"
+        );
+        _;
+    }
+
+    // All calls revert together, so the bridge records the message as failed with the reason
+    function executeBatch(
+        address[] calldata targets,
+        uint256[] calldata values,
+        bytes[] calldata calldatas
+    ) external onlyController returns (bytes[] memory results) {
+        require(targets.length == values.length && targets.length == calldatas.length, "Length mismatch");
+
+        bytes32 messageId = bridge.messageId();
+        results = new bytes[](targets.length);
+        for (uint256 i = 0; i < targets.length; i++) {
+            (bool success, bytes memory result) = targets[i].call{value: values[i]}(calldatas[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
+            emit CallExecuted(messageId, targets[i], values[i], calldatas[i]);
+        }
+    }
+
+    // Funds calls that send value
+    receive() external payable {}
+}
@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Message structs with the same ABI as Chainlink's Client library
+library Client {
+    struct EVMTokenAmount {
+        address token;
+        uint256 amount;
+    }
+
+    struct Any2EVMMessage {
+        bytes32 messageId;
+        uint64 sourceChainSelector;
+        bytes sender;
+        bytes data;
+        EVMTokenAmount[] destTokenAmounts;
+    }
+
+    struct EVM2AnyMessage {
+        bytes receiver;
+        bytes data;
+        EVMTokenAmount[] tokenAmounts;
+        address feeToken;
+        bytes extraArgs;
+    }
+
+    bytes4 public constant EVM_EXTRA_ARGS_V1_TAG = 0x97a657c9;
+}
+
+interface IAny2EVMMessageReceiver {
+    function ccipReceive(Client.Any2EVMMessage calldata message) external;
+}
+
+// Single-chain stand-in for a CCIP router and its on- and off-ramps. Sends are
+// executed on the same chain, straight away unless autoExecute is off, and emit
+// the OnRamp's CCIPSendRequested and the OffRamp's ExecutionStateChanged so
+// clients read them exactly as on a real lane.
+contract MockCCIPRouter {
+    using SafeERC20 for IERC20;
+
+    struct EVM2EVMMessage {
+        uint64 sourceChainSelector;
+        address sender;
+        address receiver;
+        uint64 sequenceNumber;
+        uint256 gasLimit;
+        bool strict;
+        uint64 nonce;
+        address feeToken;
+        uint256 feeTokenAmount;
+        bytes data;
+        Client.EVMTokenAmount[] tokenAmounts;
+        bytes[] sourceTokenData;
+        bytes32 messageId;
+    }
+
+    // Internal.MessageExecutionState
+    uint8 public constant UNTOUCHED = 0;
+    uint8 public constant SUCCESS = 2;
+    uint8 public constant FAILURE = 3;
+
+    uint256 public constant DEFAULT_GAS_LIMIT = 200000;
+
+    uint64 public immutable chainSelector;
+    uint256 public baseFee;
+    uint256 public feePerByte;
+    bool public autoExecute = true;
+
+    uint64 private sequenceNumber;
+    mapping(bytes32 => EVM2EVMMessage) private messages;
+    mapping(bytes32 => uint8) public executionState;
+    mapping(address => uint64) private nonces;
+
+    event CCIPSendRequested(EVM2EVMMessage message);
+    event ExecutionStateChanged(uint64 indexed sequenceNumber, bytes32 indexed messageId, uint8 state, bytes returnData);
+
+    constructor(uint64 _chainSelector, uint256 _baseFee, uint256 _feePerByte) {
+        chainSelector = _chainSelector;
+        baseFee = _baseFee;
+        feePerByte = _feePerByte;
+    }
+
+    function setAutoExecute(bool _autoExecute) external {
+        autoExecute = _autoExecute;
+    }
+
+    function isChainSupported(uint64 destChainSelector) external view returns (bool) {
+        return destChainSelector == chainSelector;
+    }
+
+    function getFee(uint64 destinationChainSelector, Client.EVM2AnyMessage calldata message)
+        public
+        view
+        returns (uint256)
+    {
+        require(destinationChainSelector == chainSelector, "Unsupported destination chain");
+        require(message.feeToken == address(0), "Only native fees are supported");
+        return baseFee + feePerByte * (message.data.length + 64 * message.tokenAmounts.length);
+    }
+
+    function ccipSend(uint64 destinationChainSelector, Client.EVM2AnyMessage calldata message)
+        external
+        payable
+        returns (bytes32 messageId)
+    {
+        uint256 fee = getFee(destinationChainSelector, message);
+        require(msg.value >= fee, "Insufficient fee");
+
+        // Tokens are held by the router until the message executes
+        for (uint256 i = 0; i < message.tokenAmounts.length; i++) {
+            IERC20(message.tokenAmounts[i].token).safeTransferFrom(
+                msg.sender,
+                address(this),
+                message.tokenAmounts[i].amount
+            );
+        }
+
+        sequenceNumber++;
+        messageId = keccak256(abi.encode(chainSelector, msg.sender, sequenceNumber, message.data));
+
+        EVM2EVMMessage storage stored = messages[messageId];
+        stored.sourceChainSelector = chainSelector;
+        stored.sender = msg.sender;
+        stored.receiver = abi.decode(message.receiver, (address));
+        stored.sequenceNumber = sequenceNumber;
+        stored.gasLimit = _gasLimit(message.extraArgs);
+        stored.nonce = ++nonces[msg.sender];
+        stored.feeToken = message.feeToken;
+        stored.feeTokenAmount = msg.value;
+        stored.data = message.data;
+        for (uint256 i = 0; i < message.tokenAmounts.length; i++) {
+            stored.tokenAmounts.push(message.tokenAmounts[i]);
+            stored.sourceTokenData.push("");
+        }
+        stored.messageId = messageId;
+
+        emit CCIPSendRequested(stored);
+
+        if (autoExecute) {
+            _execute(messageId);
+        }
+    }
+
+    // Runs a message sent while autoExecute was off, or retries one that failed
+    function executeMessage(bytes32 messageId) external {
+        require(messages[messageId].messageId != bytes32(0), "Unknown message");
+        require(executionState[messageId] != SUCCESS, "Message already executed");
+        _execute(messageId);
+    }
+
+    // Token release and the receiver call succeed or fail together, as on a real OffRamp
+    function _execute(bytes32 messageId) internal {
+        EVM2EVMMessage storage message = messages[messageId];
+
+        bool success = true;
+        bytes memory returnData;
+        try this.deliver(messageId) {} catch (bytes memory reason) {
+            success = false;
+            returnData = reason;
+        }
+
+        executionState[messageId] = success ? SUCCESS : FAILURE;
+        emit ExecutionStateChanged(message.sequenceNumber, messageId, executionState[messageId], returnData);
+    }
+
+    function deliver(bytes32 messageId) external {
+        require(msg.sender == address(this), "Only the router can deliver");
+        EVM2EVMMessage storage message = messages[messageId];
+
+        for (uint256 i = 0; i < message.tokenAmounts.length; i++) {
+            IERC20(message.tokenAmounts[i].token).safeTransfer(message.receiver, message.tokenAmounts[i].amount);
+        }
+
+        // Like the OffRamp, only contracts are called, and not for plain token transfers
+        if (message.receiver.code.length == 0 || (message.data.length == 0 && message.gasLimit == 0)) return;
+
+        Client.Any2EVMMessage memory delivery = Client.Any2EVMMessage({
+            messageId: messageId,
+            sourceChainSelector: message.sourceChainSelector,
+            sender: abi.encode(message.sender),
+            data: message.data,
+            destTokenAmounts: message.tokenAmounts
+        });
+        IAny2EVMMessageReceiver(message.receiver).ccipReceive{gas: message.gasLimit}(delivery);
+    }
+
+    function _gasLimit(bytes calldata extraArgs) internal pure returns (uint256) {
+        if (extraArgs.length == 0) return DEFAULT_GAS_LIMIT;
+        require(bytes4(extraArgs[:4]) == Client.EVM_EXTRA_ARGS_V1_TAG, "Invalid extra args");
+        return abi.decode(extraArgs[4:], (uint256));
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../bridge/RemoteExecutor.sol";
+
+// Target for bridge messages in local runs: records the last value it was sent and who sent it
+contract MockMessageReceiver {
+    IArbitraryMessageBridge public immutable bridge;
+    uint256 public value;
+    address public lastSender;
+    uint256 public lastSourceChainId;
+
+    event ValueReceived(bytes32 indexed messageId, uint256 value, address sender, uint256 sourceChainId);
+
+    constructor(address _bridge) {
+        bridge = IArbitraryMessageBridge(_bridge);
+    }
+
+    function setValue(uint256 _value) external returns (uint256 previous) {
+        require(msg.sender == address(bridge), "Caller is not the bridge");
+        previous = value;
+        value = _value;
+        lastSender = bridge.messageSender();
+        lastSourceChainId = bridge.messageSourceChainId();
+        emit ValueReceived(bridge.messageId(), _value, lastSender, lastSourceChainId);
+    }
+
+    // Fails unless called with at least `amount` gas, like a call that uses all of its gas limit
+    function requireGas(uint256 amount) external view {
+        require(gasleft() >= amount, "Not enough gas");
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Settable oracle for local keeper runs, with the PriceOracle interface the keeper reads
+contract MockPriceOracle {
+    mapping(address => uint256) private prices;
+
+    event PriceUpdate(address token, uint256 price);
+
+    function setPrice(address token, uint256 price) external {
+        prices[token] = price;
+        emit PriceUpdate(token, price);
+    }
+
+    function getPrice(address token) external view returns (uint256) {
+        require(prices[token] > 0, "No price for token");
+        return prices[token];
+    }
+}
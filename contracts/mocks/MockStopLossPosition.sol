@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./MockPriceOracle.sol";
+
+// Long position with a stop-loss that a keeper closes once the oracle price reaches it
+contract MockStopLossPosition {
+    MockPriceOracle public immutable oracle;
+    address public immutable token;
+    uint256 public immutable stopLoss;
+    bool public closed;
+    uint256 public closePrice;
+    address public closedBy;
+
+    event StopLossExecuted(uint256 price, address keeper);
+
+    constructor(address _oracle, address _token, uint256 _stopLoss) {
+        oracle = MockPriceOracle(_oracle);
+        token = _token;
+        stopLoss = _stopLoss;
+    }
+
+    function executeStopLoss(uint256 price) external returns (bool) {
+        require(!closed, "Position closed");
+        require(price == oracle.getPrice(token), "Price does not match the oracle");
+        require(price <= stopLoss, "Stop-loss not reached");
+        closed = true;
+        closePrice = price;
+        closedBy = msg.sender;
+        emit StopLossExecuted(price, msg.sender);
+        return true;
+    }
+}
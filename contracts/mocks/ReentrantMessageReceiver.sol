@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Target that calls back into the bridge while a message is executed, for testing
+// that the bridge rejects re-entry. Records whether the inner call got through.
+contract ReentrantMessageReceiver {
+    address public immutable bridge;
+    bool public reentered;
+
+    constructor(address _bridge) {
+        bridge = _bridge;
+    }
+
+    function reenter(bytes calldata payload) external {
+        require(msg.sender == bridge, "Caller is not the bridge");
+        (reentered, ) = bridge.call(payload);
+    }
+}
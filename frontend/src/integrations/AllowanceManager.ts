@@ -0,0 +1,235 @@
+import { Contract, ContractTransaction, Signer, utils, BigNumber, BigNumberish, TypedDataDomain, TypedDataField } from 'ethers';
+import { FeeStrategy, TxOptions } from './FeeStrategy';
+import { WalletConnection } from './WalletConnection';
+
+export interface ApprovalOptions {
+    autoApprove?: boolean; // approve or permit missing allowances before sending
+    approvalMode?: 'exact' | 'capped';
+    approvalCap?: BigNumberish; // allowance granted in capped mode, if larger than required
+    usePermit?: boolean; // sign an EIP-2612 permit instead of approving where supported; off by default
+    permitDeadline?: number; // seconds a permit stays valid
+}
+
+export interface AllowanceRequirement {
+    token: string;
+    spender: string;
+    amount: BigNumber;
+}
+
+export interface PendingApproval extends AllowanceRequirement {
+    owner: string;
+    current: BigNumber;
+    supportsPermit: boolean;
+}
+
+export interface TokenApproval {
+    token: string;
+    spender: string;
+    allowance: BigNumber;
+}
+
+interface TypedDataSigner extends Signer {
+    _signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, TypedDataField[]>,
+        value: Record<string, any>
+    ): Promise<string>;
+}
+
+export class InsufficientAllowanceError extends Error {
+    pendingApprovals: PendingApproval[];
+
+    constructor(pendingApprovals: PendingApproval[]) {
+        super(`Missing token approvals: ${pendingApprovals
+            .map(a => `${a.token} for spender ${a.spender}`)
+            .join(', ')}`);
+        this.name = 'InsufficientAllowanceError';
+        this.pendingApprovals = pendingApprovals;
+    }
+}
+
+const ERC20_ABI = [
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function name() view returns (string)'
+];
+
+const PERMIT_ABI = [
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+    'function nonces(address owner) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    'function version() view returns (string)'
+];
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+};
+
+const DEFAULT_PERMIT_DEADLINE = 3600;
+
+export class AllowanceManager {
+    private connection: WalletConnection;
+    private feeStrategy: FeeStrategy;
+    private permitDomains: Map<string, TypedDataDomain | null> = new Map();
+
+    constructor(connection: WalletConnection, feeStrategy: FeeStrategy) {
+        this.connection = connection;
+        this.feeStrategy = feeStrategy;
+    }
+
+    async getAllowance(token: string, owner: string, spender: string): Promise<BigNumber> {
+        const erc20 = new Contract(token, ERC20_ABI, this.connection.requireSigner());
+        return erc20.allowance(owner, spender);
+    }
+
+    async getPendingApprovals(requirements: AllowanceRequirement[]): Promise<PendingApproval[]> {
+        const owner = await this.connection.requireSigner().getAddress();
+
+        const checked = await Promise.all(requirements.map(async requirement => {
+            const current = await this.getAllowance(requirement.token, owner, requirement.spender);
+            if (current.gte(requirement.amount)) return null;
+            return {
+                ...requirement,
+                owner,
+                current,
+                supportsPermit: (await this.getPermitDomain(requirement.token, owner)) !== null
+            };
+        }));
+
+        return checked.filter((a): a is PendingApproval => a !== null);
+    }
+
+    // Returns the approvals that were granted; throws with the pending list when autoApprove is off
+    async ensureApprovals(
+        requirements: AllowanceRequirement[],
+        options: ApprovalOptions & TxOptions = {}
+    ): Promise<PendingApproval[]> {
+        if (requirements.length === 0) return [];
+
+        const pending = await this.getPendingApprovals(requirements);
+        if (pending.length === 0) return [];
+        if (!options.autoApprove) throw new InsufficientAllowanceError(pending);
+
+        for (const approval of pending) {
+            const amount = this.approvalAmount(approval.amount, options);
+            if (approval.supportsPermit && options.usePermit === true) {
+                const deadline = Math.floor(Date.now() / 1000) + (options.permitDeadline || DEFAULT_PERMIT_DEADLINE);
+                await (await this.permit(approval.token, approval.spender, amount, deadline, options)).wait();
+            } else {
+                if (await this.requiresReset(approval, amount)) {
+                    await (await this.revoke(approval.token, approval.spender, options)).wait();
+                }
+                await (await this.approve(approval.token, approval.spender, amount, options)).wait();
+            }
+        }
+
+        return pending;
+    }
+
+    async approve(
+        token: string,
+        spender: string,
+        amount: BigNumberish,
+        txOptions: TxOptions = {}
+    ): Promise<ContractTransaction> {
+        const erc20 = new Contract(token, ERC20_ABI, this.connection.requireSigner());
+        const overrides = await this.feeStrategy.buildOverrides(erc20, 'approve', [spender, amount], txOptions);
+        return erc20.approve(spender, amount, overrides);
+    }
+
+    async permit(
+        token: string,
+        spender: string,
+        amount: BigNumberish,
+        deadline: number,
+        txOptions: TxOptions = {}
+    ): Promise<ContractTransaction> {
+        const signer = this.connection.requireSigner() as TypedDataSigner;
+        const owner = await signer.getAddress();
+        const domain = await this.getPermitDomain(token, owner);
+        if (!domain) throw new Error(`Token ${token} does not support EIP-2612 permit`);
+
+        const erc20 = new Contract(token, PERMIT_ABI, signer);
+        const nonce: BigNumber = await erc20.nonces(owner);
+        const signature = utils.splitSignature(await signer._signTypedData(domain, PERMIT_TYPES, {
+            owner,
+            spender,
+            value: amount,
+            nonce,
+            deadline
+        }));
+
+        const args = [owner, spender, amount, deadline, signature.v, signature.r, signature.s];
+        const overrides = await this.feeStrategy.buildOverrides(erc20, 'permit', args, txOptions);
+        return erc20.permit(...args, overrides);
+    }
+
+    async revoke(token: string, spender: string, txOptions: TxOptions = {}): Promise<ContractTransaction> {
+        return this.approve(token, spender, 0, txOptions);
+    }
+
+    // Non-zero allowances among the given token/spender pairs, e.g. for spenders no longer in use
+    async findStaleApprovals(pairs: { token: string; spender: string }[]): Promise<TokenApproval[]> {
+        const owner = await this.connection.requireSigner().getAddress();
+        const approvals = await Promise.all(pairs.map(async ({ token, spender }) => ({
+            token,
+            spender,
+            allowance: await this.getAllowance(token, owner, spender)
+        })));
+        return approvals.filter(a => !a.allowance.isZero());
+    }
+
+    private approvalAmount(required: BigNumber, options: ApprovalOptions): BigNumber {
+        if (options.approvalMode === 'capped' && options.approvalCap !== undefined) {
+            const cap = BigNumber.from(options.approvalCap);
+            return cap.gt(required) ? cap : required;
+        }
+        return required;
+    }
+
+    // Tokens like USDT revert when one non-zero allowance is changed to another and must
+    // be reset to 0 first. Their approve also returns nothing, which fails the static call too.
+    private async requiresReset(approval: PendingApproval, amount: BigNumber): Promise<boolean> {
+        if (approval.current.isZero() || amount.isZero()) return false;
+        const erc20 = new Contract(approval.token, ERC20_ABI, this.connection.requireSigner());
+        return erc20.callStatic.approve(approval.spender, amount).then(() => false, () => true);
+    }
+
+    // Resolves the token's EIP-712 domain, or null when permit isn't supported. The
+    // version isn't always exposed, so candidates are checked against DOMAIN_SEPARATOR.
+    private async getPermitDomain(token: string, owner: string): Promise<TypedDataDomain | null> {
+        if (this.permitDomains.has(token)) return this.permitDomains.get(token)!;
+
+        const erc20 = new Contract(token, [...ERC20_ABI, ...PERMIT_ABI], this.connection.requireSigner());
+        let domain: TypedDataDomain | null = null;
+
+        try {
+            const [separator, name, chainId] = await Promise.all([
+                erc20.DOMAIN_SEPARATOR(),
+                erc20.name(),
+                this.connection.requireSigner().getChainId(),
+                erc20.nonces(owner)
+            ]);
+            const versions: string[] = await erc20.version().then((v: string) => [v]).catch(() => ['1', '2']);
+
+            for (const version of versions) {
+                const candidate = { name, version, chainId, verifyingContract: token };
+                if (utils._TypedDataEncoder.hashDomain(candidate) === separator) {
+                    domain = candidate;
+                    break;
+                }
+            }
+        } catch {
+            // missing DOMAIN_SEPARATOR or nonces: plain ERC-20
+        }
+
+        this.permitDomains.set(token, domain);
+        return domain;
+    }
+}
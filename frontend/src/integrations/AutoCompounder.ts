@@ -0,0 +1,104 @@
+import { ContractTransaction } from 'ethers';
+import { TypedEmitter } from '../utils/emitter';
+import { CompoundEstimate, CompoundEstimateOptions } from './FarmManager';
+import { FeeSpeed } from './FeeStrategy';
+
+export interface AutoCompoundOptions {
+    interval?: number; // ms between checks
+    minRewardToGasRatio?: number; // rewards must be worth this many times the gas
+    slippageTolerance?: number; // percent, for farms whose rewards are swapped before restaking
+    speed?: FeeSpeed;
+}
+
+// The parts of DeFiService the scheduler drives
+export interface CompoundTarget {
+    estimateFarmCompound(farm: string, options?: CompoundEstimateOptions): Promise<CompoundEstimate>;
+    compoundFarm(farm: string, slippageTolerance?: number, txOptions?: { speed?: FeeSpeed }): Promise<ContractTransaction>;
+}
+
+export interface AutoCompoundEvents {
+    compounded: (farm: string, estimate: CompoundEstimate, tx: ContractTransaction) => void;
+    skipped: (farm: string, estimate: CompoundEstimate) => void;
+    error: (farm: string, error: any) => void;
+}
+
+const DEFAULT_OPTIONS: Required<AutoCompoundOptions> = {
+    interval: 60 * 60 * 1000,
+    minRewardToGasRatio: 1,
+    slippageTolerance: 0.5,
+    speed: 'slow'
+};
+
+// Periodically compounds each farm whose pending rewards are worth more than the gas to claim them
+export class AutoCompounder extends TypedEmitter<AutoCompoundEvents> {
+    private target: CompoundTarget;
+    private farms: Set<string>;
+    private options: Required<AutoCompoundOptions>;
+    private timer?: ReturnType<typeof setInterval>;
+    private checking = false;
+
+    constructor(target: CompoundTarget, farms: string[], options: AutoCompoundOptions = {}) {
+        super();
+        this.target = target;
+        this.farms = new Set(farms);
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    get running(): boolean {
+        return this.timer !== undefined;
+    }
+
+    addFarm(farm: string) {
+        this.farms.add(farm);
+    }
+
+    removeFarm(farm: string) {
+        this.farms.delete(farm);
+    }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.runOnce(), this.options.interval);
+        this.runOnce();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    // Farms are handled one at a time so their transactions don't compete for nonces;
+    // a check still running when the next is due is not doubled up
+    async runOnce() {
+        if (this.checking) return;
+        this.checking = true;
+        try {
+            for (const farm of Array.from(this.farms)) {
+                await this.check(farm);
+            }
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    private async check(farm: string) {
+        try {
+            const estimate = await this.target.estimateFarmCompound(farm, {
+                speed: this.options.speed,
+                minRewardToGasRatio: this.options.minRewardToGasRatio
+            });
+            if (!estimate.profitable) {
+                this.emit('skipped', farm, estimate);
+                return;
+            }
+
+            const tx = await this.target.compoundFarm(farm, this.options.slippageTolerance, {
+                speed: this.options.speed
+            });
+            await tx.wait();
+            this.emit('compounded', farm, estimate, tx);
+        } catch (error) {
+            this.emit('error', farm, error);
+        }
+    }
+}
@@ -0,0 +1,285 @@
+import { utils } from 'ethers';
+import { BridgeService, BridgeTransport } from './BridgeService';
+import { CcipChainConfig } from './CcipTransport';
+import { AmbChainConfig } from './MessageBridge';
+import { BridgeTransferTracker, BridgeTransferTrackerOptions } from './BridgeTransferTracker';
+import { TransactionManagerRegistry } from './TransactionManager';
+import { TokenAmount } from './TokenRegistry';
+import { bridgeConfig, getEnvironmentConfig } from './config';
+import { StorageAdapter, getDefaultStorage } from '../utils/storage';
+
+export interface BridgeChain {
+    chainId: number;
+    name: string;
+    rpcUrl: string;
+    nativeSymbol?: string;
+    multicall3?: string;
+    ensRegistry?: string;
+    maxGasPrice?: string;
+    ccip?: CcipChainConfig; // for routes using the CCIP transport
+    amb?: AmbChainConfig; // for cross-chain contract calls
+}
+
+// One token's addresses on either side of a route
+export interface BridgeToken {
+    symbol: string;
+    source: string;
+    destination: string;
+}
+
+export interface BridgeRoute {
+    id: string;
+    sourceChainId: number;
+    destinationChainId: number;
+    sourceBridge: string;
+    destinationBridge: string;
+    estimatedTime: number; // seconds from source confirmation to claimable
+    transport?: BridgeTransport; // 'ccip' sends through the chains' CCIP routers instead of the bridge contracts
+    tokens: BridgeToken[];
+}
+
+export interface BridgeLeg {
+    route: BridgeRoute;
+    token: BridgeToken;
+}
+
+export interface BridgeLegQuote extends BridgeLeg {
+    // Charged in the leg's source chain native token; absent when the bridge couldn't quote
+    fees?: { bridgeFee: TokenAmount; messageFee: TokenAmount; total: TokenAmount };
+    error?: string;
+}
+
+export interface BridgePath {
+    sourceChainId: number;
+    destinationChainId: number;
+    legs: BridgeLegQuote[];
+    estimatedTime: number; // seconds across all legs
+    quoted: boolean; // every leg has fees
+}
+
+export interface BridgeRegistryConfig {
+    chains: Record<string, Omit<BridgeChain, 'chainId'>>;
+    routes: BridgeRoute[];
+}
+
+const DEFAULT_MAX_HOPS = 2;
+
+export class BridgeRegistry {
+    private chains: Map<number, BridgeChain> = new Map();
+    private routes: BridgeRoute[];
+    private services: Map<string, BridgeService> = new Map();
+    private trackers: Map<string, BridgeTransferTracker> = new Map();
+    private storage: StorageAdapter;
+    private transactions: TransactionManagerRegistry;
+
+    // Routes out of one chain share its transaction manager, and so do services given the same registry
+    constructor(
+        chains: BridgeChain[],
+        routes: BridgeRoute[],
+        storage: StorageAdapter = getDefaultStorage(),
+        transactions: TransactionManagerRegistry = TransactionManagerRegistry.forStorage(storage)
+    ) {
+        for (const chain of chains) this.chains.set(chain.chainId, chain);
+        for (const route of routes) {
+            if (!this.chains.has(route.sourceChainId) || !this.chains.has(route.destinationChainId)) {
+                throw new Error(`Route ${route.id} uses a chain with no configuration`);
+            }
+        }
+        this.routes = routes;
+        this.storage = storage;
+        this.transactions = transactions;
+    }
+
+    // rpcUrls fills in or replaces endpoints that shouldn't live in the repo, such as keyed provider URLs
+    static fromConfig(
+        config: BridgeRegistryConfig = bridgeConfig as BridgeRegistryConfig,
+        rpcUrls: Record<number, string> = {},
+        storage?: StorageAdapter,
+        transactions?: TransactionManagerRegistry
+    ): BridgeRegistry {
+        const environment = getEnvironmentConfig();
+        const chains = Object.entries(config.chains).map(([id, chain]) => {
+            const chainId = Number(id);
+            return {
+                ...chain,
+                chainId,
+                rpcUrl: rpcUrls[chainId] || chain.rpcUrl,
+                // The deployment config is the source of truth for the chain the app runs on
+                ensRegistry: chain.ensRegistry
+                    || (chainId === environment.chainId ? environment.contracts.ensRegistry : undefined)
+                    || undefined
+            };
+        });
+        return new BridgeRegistry(chains, config.routes, storage, transactions);
+    }
+
+    getChain(chainId: number): BridgeChain {
+        const chain = this.chains.get(chainId);
+        if (!chain) throw new Error(`Unknown chain ${chainId}`);
+        return chain;
+    }
+
+    getChains(): BridgeChain[] {
+        return Array.from(this.chains.values());
+    }
+
+    getRoutes(): BridgeRoute[] {
+        return [...this.routes];
+    }
+
+    getRouteById(routeId: string): BridgeRoute {
+        const route = this.routes.find(r => r.id === routeId);
+        if (!route) throw new Error(`Unknown bridge route ${routeId}`);
+        return route;
+    }
+
+    // The first route between the chains; use the route id where a pair has several
+    getRoute(sourceChainId: number, destinationChainId: number): BridgeRoute {
+        const route = this.routes.find(r =>
+            r.sourceChainId === sourceChainId && r.destinationChainId === destinationChainId
+        );
+        if (!route) throw new Error(`No bridge route from chain ${sourceChainId} to chain ${destinationChainId}`);
+        return route;
+    }
+
+    getBridge(sourceChainId: number, destinationChainId: number): BridgeService {
+        return this.getRouteBridge(this.getRoute(sourceChainId, destinationChainId).id);
+    }
+
+    // One service per route, created on first use so unused chains never get a provider
+    getRouteBridge(routeId: string): BridgeService {
+        const route = this.getRouteById(routeId);
+        let service = this.services.get(route.id);
+        if (!service) {
+            const source = this.getChain(route.sourceChainId);
+            const destination = this.getChain(route.destinationChainId);
+            if (!source.rpcUrl || !destination.rpcUrl) {
+                throw new Error(`Route ${route.id} needs RPC URLs for both ${source.name} and ${destination.name}`);
+            }
+            service = new BridgeService({
+                transport: route.transport,
+                sourceChain: {
+                    rpcUrl: source.rpcUrl,
+                    chainId: source.chainId,
+                    bridgeAddress: route.sourceBridge,
+                    maxGasPrice: source.maxGasPrice,
+                    multicall3: source.multicall3 || undefined,
+                    ensRegistry: source.ensRegistry,
+                    ccip: source.ccip,
+                    amb: source.amb
+                },
+                destinationChain: {
+                    rpcUrl: destination.rpcUrl,
+                    chainId: destination.chainId,
+                    bridgeAddress: route.destinationBridge,
+                    maxGasPrice: destination.maxGasPrice,
+                    multicall3: destination.multicall3 || undefined,
+                    ccip: destination.ccip,
+                    amb: destination.amb
+                }
+            }, this.storage, this.transactions);
+            this.services.set(route.id, service);
+        }
+        return service;
+    }
+
+    getTracker(
+        sourceChainId: number,
+        destinationChainId: number,
+        options: Omit<BridgeTransferTrackerOptions, 'storage' | 'storageKey'> = {}
+    ): BridgeTransferTracker {
+        return this.getRouteTracker(this.getRoute(sourceChainId, destinationChainId).id, options);
+    }
+
+    // Transfers on the route, resumed from storage; options only apply on first use
+    getRouteTracker(
+        routeId: string,
+        options: Omit<BridgeTransferTrackerOptions, 'storage' | 'storageKey'> = {}
+    ): BridgeTransferTracker {
+        let tracker = this.trackers.get(routeId);
+        if (!tracker) {
+            // Routes can share a chain pair, so their transfers are stored apart
+            tracker = new BridgeTransferTracker(this.getRouteBridge(routeId), {
+                ...options,
+                storage: this.storage,
+                storageKey: `bridgeTransfers:${routeId}`
+            });
+            this.trackers.set(routeId, tracker);
+            tracker.start();
+        }
+        return tracker;
+    }
+
+    // Token by symbol or by its address on the route's source chain
+    findToken(route: BridgeRoute, token: string): BridgeToken | undefined {
+        return route.tokens.find(t =>
+            t.symbol.toLowerCase() === token.toLowerCase()
+            || (utils.isAddress(token) && utils.isAddress(t.source) && utils.getAddress(t.source) === utils.getAddress(token))
+        );
+    }
+
+    // Every chain of routes carrying the token from source to destination, fewest hops first.
+    // Hops after the first match the token by symbol, since its address changes per chain.
+    findPaths(
+        token: string,
+        sourceChainId: number,
+        destinationChainId: number,
+        maxHops: number = DEFAULT_MAX_HOPS
+    ): BridgeLeg[][] {
+        const paths: BridgeLeg[][] = [];
+        const extend = (chainId: number, legs: BridgeLeg[], visited: Set<number>) => {
+            if (legs.length >= maxHops) return;
+            const symbol = legs.length > 0 ? legs[legs.length - 1].token.symbol : token;
+            for (const route of this.routes) {
+                if (route.sourceChainId !== chainId || visited.has(route.destinationChainId)) continue;
+                const bridged = this.findToken(route, symbol);
+                if (!bridged) continue;
+
+                const next = [...legs, { route, token: bridged }];
+                if (route.destinationChainId === destinationChainId) {
+                    paths.push(next);
+                } else {
+                    extend(route.destinationChainId, next, new Set([...Array.from(visited), route.destinationChainId]));
+                }
+            }
+        };
+        extend(sourceChainId, [], new Set([sourceChainId]));
+        return paths.sort((a, b) => a.length - b.length);
+    }
+
+    // Paths with each leg's fees from its bridge contract, quickest first. The amount
+    // is carried across legs as is, so later legs' fees are estimates.
+    async findRoutes(
+        token: string,
+        amount: string,
+        sourceChainId: number,
+        destinationChainId: number,
+        maxHops: number = DEFAULT_MAX_HOPS
+    ): Promise<BridgePath[]> {
+        const paths = await Promise.all(
+            this.findPaths(token, sourceChainId, destinationChainId, maxHops).map(async legs => {
+                const quoted = await Promise.all(legs.map(leg => this.quoteLeg(leg, amount)));
+                return {
+                    sourceChainId,
+                    destinationChainId,
+                    legs: quoted,
+                    estimatedTime: legs.reduce((sum, leg) => sum + leg.route.estimatedTime, 0),
+                    quoted: quoted.every(leg => leg.fees !== undefined)
+                };
+            })
+        );
+        return paths.sort((a, b) => a.estimatedTime - b.estimatedTime);
+    }
+
+    private async quoteLeg(leg: BridgeLeg, amount: string): Promise<BridgeLegQuote> {
+        try {
+            const bridge = this.getRouteBridge(leg.route.id);
+            return { ...leg, fees: await bridge.estimateBridgeFees(leg.token.source, amount) };
+        } catch (error: any) {
+            // Unconfigured or unreachable bridges still show up as a path, without fees
+            return { ...leg, error: error.reason || error.message };
+        }
+    }
+}
+
+export const bridgeRegistry = BridgeRegistry.fromConfig();
@@ -1,17 +1,43 @@
-import { Contract, providers, Wallet, utils, BigNumber, Log } from 'ethers';
+import { Contract, ContractTransaction, constants, providers, Signer, utils, BigNumber, Log } from 'ethers';
 import { tatumService } from './TatumService';
 import { thirdwebService } from './ThirdwebService';
+import { FeeStrategy } from './FeeStrategy';
+import { TransactionSimulator, TransactionSimulationError, TransactionPreview } from './TransactionSimulator';
+import { AllowanceManager, AllowanceRequirement } from './AllowanceManager';
+import { WriteOptions } from './types';
+import { getEnvironmentConfig } from './config';
+import { WalletConnection, SignerSource } from './WalletConnection';
+import { TokenRegistry, TokenAmount, NATIVE_TOKEN } from './TokenRegistry';
+import { MulticallProvider } from './Multicall';
+import { TransactionManager, TransactionManagerRegistry } from './TransactionManager';
+import { NameService, isName } from './NameService';
+import { CcipTransport, CcipChainConfig, CcipMessage, EXECUTION_STATE } from './CcipTransport';
+import { MessageBridge, AmbChainConfig, CrossChainMessage, MessageExecution, decodeRevertReason } from './MessageBridge';
+import { StorageAdapter, getDefaultStorage } from '../utils/storage';
 
-interface BridgeConfig {
+// bridge: this repo's bridgeTokens/messageStatus/claimTokens contracts; ccip: a Chainlink CCIP router
+export type BridgeTransport = 'bridge' | 'ccip';
+
+export interface BridgeConfig {
+    transport?: BridgeTransport; // defaults to 'bridge'
     sourceChain: {
         rpcUrl: string;
         chainId: number;
         bridgeAddress: string;
+        maxGasPrice?: string;
+        multicall3?: string;
+        ensRegistry?: string; // names in transfers are resolved on the source chain
+        ccip?: CcipChainConfig;
+        amb?: AmbChainConfig; // contract calls go through the message bridge whatever the transport
     };
     destinationChain: {
         rpcUrl: string;
         chainId: number;
         bridgeAddress: string;
+        maxGasPrice?: string;
+        multicall3?: string;
+        ccip?: CcipChainConfig;
+        amb?: AmbChainConfig;
     };
 }
 
@@ -19,45 +45,342 @@ interface BridgeContract extends Contract {
     getMessageFee(): Promise<BigNumber>;
     bridgeTokens(token: string, amount: BigNumber, recipient: string, deadline: number, overrides: any): Promise<any>;
     messageStatus(messageId: string): Promise<number>;
-    claimTokens(messageId: string, overrides: any): Promise<boolean>;
+    claimTokens(messageId: string, overrides: any): Promise<ContractTransaction>;
     getTotalBridged(): Promise<BigNumber>;
     getActiveTransfers(): Promise<BigNumber>;
     getSuccessRate(): Promise<BigNumber>;
     estimateFees(token: string, amount: BigNumber): Promise<[BigNumber, BigNumber]>;
 }
 
-class BridgeService {
-    private sourceProvider: providers.Provider;
-    private destProvider: providers.Provider;
-    private sourceSigner: Wallet | null = null;
-    private destSigner: Wallet | null = null;
+// Destination bridge message states; claimable messages wait for claimTokens
+export const MESSAGE_STATUS = {
+    pending: 0,
+    completed: 1,
+    failed: 2,
+    claimable: 3
+};
+
+export interface BridgeEvent {
+    messageId: string;
+    // Absent for CCIP messages that carry no tokens
+    token?: string;
+    amount?: TokenAmount;
+    recipient: string;
+}
+
+export type BridgeTransferOptions = WriteOptions & {
+    maxFee?: string;
+    deadline?: number;
+};
+
+export type BridgeMessageOptions = BridgeTransferOptions & {
+    executionGasLimit?: number; // for the receiver's ccipReceive; defaults to the destination's configured limit
+    tokens?: { token: string; amount: string }[];
+};
+
+export type BridgeCallOptions = WriteOptions & {
+    executionGasLimit?: number; // for the call on the destination; capped by the bridge's limit
+};
+
+// The destination head from before the send; pass it to status lookups so they stop there
+export interface ContractCallTransaction extends ContractTransaction {
+    destinationBlock: number;
+}
+
+export interface BridgeCallStatus {
+    status: number; // MESSAGE_STATUS; calls are never claimable
+    description: string;
+    execution: MessageExecution | null;
+    // Revert reason when the call failed on the destination
+    error?: string;
+}
+
+interface PreparedSend {
+    contract: Contract;
+    method: string;
+    args: any[];
+    value: BigNumber;
+    approvals: AllowanceRequirement[];
+}
+
+export class BridgeService {
+    private sourceProvider: providers.JsonRpcProvider;
+    private destProvider: providers.JsonRpcProvider;
+    private sourceFees: FeeStrategy;
+    private destFees: FeeStrategy;
+    private sourceSimulator: TransactionSimulator;
+    private sourceAllowances: AllowanceManager;
+    readonly sourceConnection: WalletConnection;
+    readonly destConnection: WalletConnection;
+    readonly sourceTransactions: TransactionManager;
+    readonly destTransactions: TransactionManager;
+    readonly sourceTokens: TokenRegistry;
+    private sourceNames?: NameService;
+    private ccip?: CcipTransport;
+    readonly messages?: MessageBridge;
     private config: BridgeConfig;
 
-    constructor(config: BridgeConfig) {
+    // Pass the registry other services on these chains use, so they share nonces
+    constructor(
+        config: BridgeConfig,
+        storage: StorageAdapter = getDefaultStorage(),
+        transactions: TransactionManagerRegistry = TransactionManagerRegistry.forStorage(storage)
+    ) {
         this.config = config;
-        this.sourceProvider = new providers.JsonRpcProvider(config.sourceChain.rpcUrl);
-        this.destProvider = new providers.JsonRpcProvider(config.destinationChain.rpcUrl);
+        this.sourceProvider = new MulticallProvider(config.sourceChain.rpcUrl, {
+            address: config.sourceChain.multicall3
+        });
+        this.destProvider = new MulticallProvider(config.destinationChain.rpcUrl, {
+            address: config.destinationChain.multicall3
+        });
+        this.sourceTransactions = transactions.get(config.sourceChain.chainId, this.sourceProvider);
+        this.destTransactions = transactions.get(config.destinationChain.chainId, this.destProvider);
+        this.sourceConnection = new WalletConnection(
+            this.sourceProvider,
+            config.sourceChain.chainId,
+            this.sourceTransactions
+        );
+        this.destConnection = new WalletConnection(
+            this.destProvider,
+            config.destinationChain.chainId,
+            this.destTransactions
+        );
+        this.sourceFees = new FeeStrategy(this.sourceProvider, {
+            maxGasPrice: config.sourceChain.maxGasPrice ?? getEnvironmentConfig().security.maxGasPrice
+        });
+        this.destFees = new FeeStrategy(this.destProvider, {
+            maxGasPrice: config.destinationChain.maxGasPrice
+        });
+        this.sourceSimulator = new TransactionSimulator(this.sourceProvider);
+        this.sourceAllowances = new AllowanceManager(this.sourceConnection, this.sourceFees);
+        this.sourceTokens = new TokenRegistry(this.sourceProvider);
+        if (config.sourceChain.ensRegistry) {
+            this.sourceNames = new NameService(this.sourceProvider, config.sourceChain.ensRegistry);
+        }
+        if (config.transport === 'ccip') {
+            if (!config.sourceChain.ccip || !config.destinationChain.ccip) {
+                throw new Error("CCIP transport needs CCIP settings for both chains");
+            }
+            this.ccip = new CcipTransport(
+                this.sourceProvider,
+                this.destProvider,
+                config.sourceChain.ccip,
+                config.destinationChain.ccip
+            );
+        }
+        if (config.sourceChain.amb?.address && config.destinationChain.amb?.address) {
+            this.messages = new MessageBridge(
+                this.sourceProvider,
+                this.destProvider,
+                config.sourceChain.chainId,
+                config.destinationChain.chainId,
+                config.sourceChain.amb,
+                config.destinationChain.amb
+            );
+        }
     }
 
-    async connect(sourcePrivateKey: string, destPrivateKey?: string) {
-        this.sourceSigner = new Wallet(sourcePrivateKey, this.sourceProvider);
-        if (destPrivateKey) {
-            this.destSigner = new Wallet(destPrivateKey, this.destProvider);
+    async connect(sourceSigner: SignerSource, destSigner?: SignerSource) {
+        await this.sourceConnection.connect(sourceSigner);
+        if (destSigner) {
+            await this.destConnection.connect(destSigner);
         }
     }
 
+    get allowanceManager(): AllowanceManager {
+        return this.sourceAllowances;
+    }
+
+    disconnect() {
+        this.sourceConnection.disconnect();
+        this.destConnection.disconnect();
+    }
+
+    // A recipient name gives the address it holds on the source chain, which is
+    // only the same account on the destination for externally owned accounts
+    async resolveAddress(addressOrName: string): Promise<string> {
+        if (!isName(addressOrName)) return addressOrName;
+        if (!this.sourceNames) throw new Error("No ENS registry configured for the source chain");
+        return this.sourceNames.resolveAddress(addressOrName);
+    }
+
+    get sourceChainId(): number {
+        return this.config.sourceChain.chainId;
+    }
+
+    get destinationChainId(): number {
+        return this.config.destinationChain.chainId;
+    }
+
+    get transport(): BridgeTransport {
+        return this.config.transport || 'bridge';
+    }
+
+    // Source blocks a send needs before its message counts as sent
+    get requiredConfirmations(): number {
+        return this.ccip ? this.ccip.confirmations : 1;
+    }
+
+    private get sourceSigner(): Signer | null {
+        return this.sourceConnection.signer;
+    }
+
+    private get destSigner(): Signer | null {
+        return this.destConnection.signer;
+    }
+
     // Bridge Token Transfer
     async bridgeTokens(
         tokenAddress: string,
         amount: string,
         recipient: string,
-        options: {
-            gasLimit?: number;
-            maxFee?: string;
-            deadline?: number;
-        } = {}
-    ) {
+        options: BridgeTransferOptions = {}
+    ): Promise<ContractTransaction> {
+        const prepared = await this.prepareBridgeTransfer(tokenAddress, amount, recipient, options);
+        return this.sendPrepared(prepared, options);
+    }
+
+    // Simulate a transfer without sending, so the UI can explain a failure before signing
+    async previewBridgeTokens(
+        tokenAddress: string,
+        amount: string,
+        recipient: string,
+        options: BridgeTransferOptions = {}
+    ): Promise<TransactionPreview> {
+        const { contract, method, args, value } = await this.prepareBridgeTransfer(tokenAddress, amount, recipient, options);
+        return this.sourceSimulator.simulate(contract, method, args, { value }, options);
+    }
+
+    // Arbitrary data, optionally with tokens, for a receiver contract on the destination.
+    // Only CCIP carries messages; its ccipReceive gets the data and the sender.
+    async sendMessage(
+        receiver: string,
+        data: string,
+        options: BridgeMessageOptions = {}
+    ): Promise<ContractTransaction> {
+        if (!this.ccip) throw new Error("Arbitrary messages need the CCIP transport");
         if (!this.sourceSigner) throw new Error("Not connected");
+        receiver = await this.resolveAddress(receiver);
+        const { tokens = [], executionGasLimit, ...sendOptions } = options;
+
+        const tokenAmounts = await Promise.all(tokens.map(async ({ token, amount }) => {
+            token = await this.resolveAddress(token);
+            return { token, amount: await this.sourceTokens.parseAmount(token, amount) };
+        }));
+        const prepared = await this.prepareCcipSend(
+            { receiver, data, tokenAmounts, gasLimit: executionGasLimit },
+            await this.parseMaxFee(sendOptions)
+        );
+        return this.sendPrepared(prepared, sendOptions);
+    }
+
+    // A contract call on the destination chain through the message bridge. Encode the data with
+    // encodeCall; the target sees the bridge as msg.sender and can ask it for messageSender().
+    async sendContractCall(
+        target: string,
+        data: string,
+        options: BridgeCallOptions = {}
+    ): Promise<ContractCallTransaction> {
+        const messages = this.requireMessages();
+        if (!this.sourceSigner) throw new Error("Not connected");
+        target = await this.resolveAddress(target);
+        const { executionGasLimit, ...sendOptions } = options;
+
+        const destinationBlock = await this.getBlockNumber('destination');
+        const tx = await this.sendPrepared({
+            contract: messages.getSourceBridge(this.sourceSigner),
+            method: 'requireToPassMessage',
+            args: messages.prepareSend(target, data, executionGasLimit),
+            value: BigNumber.from(0),
+            approvals: []
+        }, sendOptions);
+        return Object.assign(tx, { destinationBlock });
+    }
+
+    async parseContractCallReceipt(receipt: providers.TransactionReceipt): Promise<CrossChainMessage> {
+        const [message] = this.requireMessages().parseSendReceipt(receipt);
+        if (!message) throw new Error("No bridge message found");
+        return message;
+    }
+
+    async getContractCallStatus(messageId: string, destinationBlock?: number): Promise<BridgeCallStatus> {
+        const execution = await this.requireMessages().getExecution(messageId, destinationBlock);
+        const status = !execution ? MESSAGE_STATUS.pending
+            : execution.success ? MESSAGE_STATUS.completed
+            : MESSAGE_STATUS.failed;
+        return {
+            status,
+            description: this.getStatusDescription(status),
+            execution,
+            error: execution && !execution.success ? decodeRevertReason(execution.returnData) : undefined
+        };
+    }
+
+    // Waits for the call to run on the destination and returns its raw return data,
+    // throwing with the revert reason if it failed
+    async waitForContractCall(
+        messageId: string,
+        options: { pollInterval?: number; timeout?: number; destinationBlock?: number } = {}
+    ): Promise<string> {
+        const { destinationBlock, ...waitOptions } = options;
+        const execution = await this.requireMessages().waitForExecution(messageId, {
+            ...waitOptions,
+            fromBlock: destinationBlock
+        });
+        if (!execution.success) {
+            throw new Error(`Remote call failed: ${decodeRevertReason(execution.returnData)}`);
+        }
+        return execution.returnData;
+    }
+
+    private requireMessages(): MessageBridge {
+        if (!this.messages) throw new Error("No message bridge configured for this route");
+        return this.messages;
+    }
+
+    private async sendPrepared(prepared: PreparedSend, options: BridgeTransferOptions): Promise<ContractTransaction> {
+        const { contract, method, args, value, approvals } = prepared;
+        const {
+            maxFee, deadline, simulate, fork, errorAbi, onSimulated,
+            autoApprove, approvalMode, approvalCap, usePermit, permitDeadline,
+            ...txOptions
+        } = options;
+
+        await this.sourceConnection.assertChain();
+        await this.sourceAllowances.ensureApprovals(
+            approvals,
+            { ...txOptions, autoApprove, approvalMode, approvalCap, usePermit, permitDeadline }
+        );
+
+        if (simulate) {
+            const preview = await this.sourceSimulator.simulate(contract, method, args, { value }, { fork, errorAbi });
+            if (!preview.success) throw new TransactionSimulationError(preview);
+            if (onSimulated) await onSimulated(preview);
+        }
+
+        const overrides = await this.sourceFees.buildOverrides(contract, method, args, { ...txOptions, value });
+
+        return contract[method](...args, overrides);
+    }
+
+    private async prepareBridgeTransfer(
+        tokenAddress: string,
+        amount: string,
+        recipient: string,
+        options: BridgeTransferOptions
+    ): Promise<PreparedSend> {
+        if (!this.sourceSigner) throw new Error("Not connected");
+        tokenAddress = await this.resolveAddress(tokenAddress);
+        recipient = await this.resolveAddress(recipient);
+        const parsedAmount = await this.sourceTokens.parseAmount(tokenAddress, amount);
+
+        if (this.ccip) {
+            // Tokens for an account need no receiver call, so no execution gas is bought
+            return this.prepareCcipSend(
+                { receiver: recipient, tokenAmounts: [{ token: tokenAddress, amount: parsedAmount }], gasLimit: 0 },
+                await this.parseMaxFee(options)
+            );
+        }
 
         const bridge = new Contract(
             this.config.sourceChain.bridgeAddress,
@@ -70,27 +393,50 @@ class BridgeService {
 
         // Get bridge fee
         const fee = await bridge.getMessageFee();
-        
-        // Prepare transaction
-        const tx = await bridge.bridgeTokens(
-            tokenAddress,
-            utils.parseEther(amount),
-            recipient,
-            options.deadline || Math.floor(Date.now() / 1000) + 3600,
-            {
-                value: options.maxFee ? utils.parseEther(options.maxFee) : fee,
-                gasLimit: options.gasLimit || 300000,
-                gasPrice: await this.sourceProvider.getGasPrice()
-            }
-        );
+        const maxFee = await this.parseMaxFee(options);
 
-        return tx;
+        return {
+            contract: bridge,
+            method: 'bridgeTokens',
+            args: [
+                tokenAddress,
+                parsedAmount,
+                recipient,
+                options.deadline || Math.floor(Date.now() / 1000) + 3600
+            ],
+            value: maxFee || fee,
+            approvals: [{ token: tokenAddress, spender: this.config.sourceChain.bridgeAddress, amount: parsedAmount }]
+        };
+    }
+
+    private async prepareCcipSend(message: CcipMessage, maxFee?: BigNumber): Promise<PreparedSend> {
+        const { router, args, fee } = await this.ccip!.prepareSend(message, this.sourceSigner!);
+        // The router keeps any overpayment, so maxFee caps the quoted fee rather than replacing it
+        if (maxFee && fee.gt(maxFee)) {
+            throw new Error(`CCIP fee of ${utils.formatEther(fee)} exceeds the maximum of ${utils.formatEther(maxFee)}`);
+        }
+        return {
+            contract: router,
+            method: 'ccipSend',
+            args,
+            value: fee,
+            approvals: (message.tokenAmounts || []).map(({ token, amount }) => ({ token, spender: router.address, amount }))
+        };
+    }
+
+    private async parseMaxFee(options: BridgeTransferOptions): Promise<BigNumber | undefined> {
+        return options.maxFee ? this.sourceTokens.parseAmount(NATIVE_TOKEN, options.maxFee) : undefined;
     }
 
     // Monitor Bridge Transaction
-    async monitorBridgeTransaction(txHash: string) {
-        const receipt = await this.sourceProvider.waitForTransaction(txHash);
-        
+    async monitorBridgeTransaction(txHash: string): Promise<BridgeEvent> {
+        const receipt = await this.sourceProvider.waitForTransaction(txHash, this.requiredConfirmations);
+        return this.parseBridgeReceipt(receipt);
+    }
+
+    async parseBridgeReceipt(receipt: providers.TransactionReceipt): Promise<BridgeEvent> {
+        if (this.ccip) return this.parseCcipReceipt(receipt);
+
         // Get bridge event
         const bridge = new Contract(
             this.config.sourceChain.bridgeAddress,
@@ -113,16 +459,54 @@ class BridgeService {
             throw new Error("No bridge event found");
         }
 
+        const { messageId, token, amount, recipient } = events[0]!.args;
+        return {
+            messageId,
+            token,
+            amount: await this.sourceTokens.toTokenAmount(token, amount),
+            recipient
+        };
+    }
+
+    private async parseCcipReceipt(receipt: providers.TransactionReceipt): Promise<BridgeEvent> {
+        const [message] = this.ccip!.parseSendReceipt(receipt);
+        if (!message) throw new Error("No CCIP message found");
+
+        const [transfer] = message.tokenAmounts;
         return {
-            messageId: events[0].args.messageId,
-            token: events[0].args.token,
-            amount: events[0].args.amount,
-            recipient: events[0].args.recipient
+            messageId: message.messageId,
+            token: transfer?.token,
+            amount: transfer ? await this.sourceTokens.toTokenAmount(transfer.token, transfer.amount) : undefined,
+            recipient: message.receiver
         };
     }
 
-    // Check Message Status
-    async checkMessageStatus(messageId: string) {
+    // Receipt of a transfer or claim without waiting; null while it is still pending
+    getReceipt(txHash: string, chain: 'source' | 'destination'): Promise<providers.TransactionReceipt | null> {
+        const provider = chain === 'source' ? this.sourceProvider : this.destProvider;
+        return provider.getTransactionReceipt(txHash);
+    }
+
+    // Recorded before sending so status checks know where to start looking
+    getBlockNumber(chain: 'source' | 'destination'): Promise<number> {
+        return (chain === 'source' ? this.sourceProvider : this.destProvider).getBlockNumber();
+    }
+
+    // Check Message Status. CCIP looks for the execution from destinationBlock on,
+    // the destination's block number from before the message was sent.
+    async checkMessageStatus(messageId: string, destinationBlock?: number) {
+        if (this.ccip) {
+            const execution = await this.ccip.getExecution(messageId, destinationBlock);
+            // Executed CCIP messages are delivered as they run, so there is no claimable state
+            const status = execution?.state === EXECUTION_STATE.success ? MESSAGE_STATUS.completed
+                : execution?.state === EXECUTION_STATE.failure ? MESSAGE_STATUS.failed
+                : MESSAGE_STATUS.pending;
+            return {
+                status,
+                description: this.getStatusDescription(status)
+            };
+        }
+
         const bridge = new Contract(
             this.config.destinationChain.bridgeAddress,
             ['function messageStatus(bytes32) view returns (uint8)'],
@@ -137,7 +521,8 @@ class BridgeService {
     }
 
     // Claim Bridged Tokens
-    async claimTokens(messageId: string) {
+    async claimTokens(messageId: string, txOptions: WriteOptions = {}) {
+        if (this.ccip) throw new Error("CCIP messages are executed by the network and have nothing to claim");
         if (!this.destSigner) throw new Error("Destination chain not connected");
 
         const bridge = new Contract(
@@ -146,16 +531,15 @@ class BridgeService {
             this.destSigner
         ) as BridgeContract;
 
-        const tx = await bridge.claimTokens(messageId, {
-            gasLimit: 200000,
-            gasPrice: await this.destProvider.getGasPrice()
-        });
+        await this.destConnection.assertChain();
+        const overrides = await this.destFees.buildOverrides(bridge, 'claimTokens', [messageId], txOptions);
 
-        return tx;
+        return bridge.claimTokens(messageId, overrides);
     }
 
     // Get Bridge Statistics
     async getBridgeStats() {
+        if (this.ccip) throw new Error("Bridge statistics are only available for the bridge transport");
         const sourceBridge = new Contract(
             this.config.sourceChain.bridgeAddress,
             [
@@ -172,6 +556,7 @@ class BridgeService {
             sourceBridge.getSuccessRate()
         ]);
 
+        // The bridge normalises its running total to 18 decimals across tokens
         return {
             totalBridged: utils.formatEther(totalBridged),
             activeTransfers: activeTransfers.toString(),
@@ -180,10 +565,26 @@ class BridgeService {
     }
 
     // Get Bridge Fees
+    // Fees are charged in the source chain's native token
     async estimateBridgeFees(
         tokenAddress: string,
         amount: string
-    ) {
+    ): Promise<{ bridgeFee: TokenAmount; messageFee: TokenAmount; total: TokenAmount }> {
+        tokenAddress = await this.resolveAddress(tokenAddress);
+        if (this.ccip) {
+            // The router quotes one fee covering execution and the token transfer
+            const fee = await this.ccip.getFee({
+                receiver: constants.AddressZero,
+                tokenAmounts: [{ token: tokenAddress, amount: await this.sourceTokens.parseAmount(tokenAddress, amount) }],
+                gasLimit: 0
+            });
+            return {
+                bridgeFee: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, fee),
+                messageFee: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, 0),
+                total: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, fee)
+            };
+        }
+
         const bridge = new Contract(
             this.config.sourceChain.bridgeAddress,
             [
@@ -194,15 +595,15 @@ class BridgeService {
         ) as BridgeContract;
 
         const [bridgeFee, messageFee] = await Promise.all([
-            bridge.estimateFees(tokenAddress, utils.parseEther(amount)),
+            bridge.estimateFees(tokenAddress, await this.sourceTokens.parseAmount(tokenAddress, amount)),
             bridge.getMessageFee()
         ]);
 
         const [fee1, fee2] = bridgeFee;
         return {
-            bridgeFee: utils.formatEther(fee1),
-            messageFee: utils.formatEther(messageFee),
-            total: utils.formatEther(fee1.add(messageFee))
+            bridgeFee: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, fee1),
+            messageFee: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, messageFee),
+            total: await this.sourceTokens.toTokenAmount(NATIVE_TOKEN, fee1.add(messageFee))
         };
     }
 
@@ -214,22 +615,10 @@ class BridgeService {
                 return "Completed";
             case 2:
                 return "Failed";
+            case 3:
+                return "Claimable";
             default:
                 return "Unknown";
         }
     }
 }
-
-// Create instance for Chain 138 to Ethereum bridge
-export const chain138ToEthBridge = new BridgeService({
-    sourceChain: {
-        rpcUrl: 'https://rpc.chain138.com',
-        chainId: 138,
-        bridgeAddress: '0x...' // Chain 138 bridge address
-    },
-    destinationChain: {
-        rpcUrl: 'https://eth-mainnet.g.alchemy.com/v2/YOUR-API-KEY',
-        chainId: 1,
-        bridgeAddress: '0x...' // Ethereum bridge address
-    }
-}); 
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { ContractTransaction } from 'ethers';
+import { TypedEmitter } from '../utils/emitter';
+import { StorageAdapter, getDefaultStorage, readJson, writeJson } from '../utils/storage';
+import { BridgeService, BridgeTransferOptions, MESSAGE_STATUS } from './BridgeService';
+import { TrackedTransaction } from './TransactionManager';
+import { WriteOptions } from './types';
+
+// submitted: source tx sent; sent: mined with a messageId; claimable: waiting for
+// claimTokens; claiming: claim tx sent; completed and failed are final
+export type BridgeTransferStage = 'submitted' | 'sent' | 'claimable' | 'claiming' | 'completed' | 'failed';
+
+export interface BridgeTransfer {
+    id: string; // hash of the first source transaction; stays the same across speed-ups
+    sourceChainId: number;
+    destinationChainId: number;
+    sourceTxHash: string; // latest submission
+    destinationBlock?: number; // destination head before sending; status lookups start here
+    stage: BridgeTransferStage;
+    createdAt: number;
+    updatedAt: number;
+    // Known once the source transaction is mined
+    messageId?: string;
+    token?: string;
+    amount?: string; // formatted in the token's decimals; absent for messages without tokens
+    recipient?: string;
+    claimTxHash?: string;
+    claimAttempts?: number; // claims sent or tried, including ones that reverted
+    error?: string;
+}
+
+export interface BridgeTransferTrackerOptions {
+    storage?: StorageAdapter;
+    storageKey?: string; // defaults to one key per chain pair
+    pollInterval?: number; // ms between status checks
+    autoClaim?: boolean; // claim on the destination as soon as a message is claimable
+    maxClaimAttempts?: number; // auto-claim stops after this many; claim() can still be called
+    claimOptions?: WriteOptions;
+}
+
+export interface BridgeTransferEvents {
+    updated: (transfer: BridgeTransfer) => void; // after every stage change
+    claimable: (transfer: BridgeTransfer) => void;
+    completed: (transfer: BridgeTransfer) => void;
+    failed: (transfer: BridgeTransfer) => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<BridgeTransferTrackerOptions, 'storage' | 'storageKey'>> = {
+    pollInterval: 15000,
+    autoClaim: false,
+    maxClaimAttempts: 3,
+    claimOptions: {}
+};
+
+const FINAL_STAGES: BridgeTransferStage[] = ['completed', 'failed'];
+
+// Follows transfers from the source transaction to completion on the destination,
+// keeping them in storage so tracking picks up again after a reload
+export class BridgeTransferTracker extends TypedEmitter<BridgeTransferEvents> {
+    private bridge: BridgeService;
+    private storage: StorageAdapter;
+    private storageKey: string;
+    private options: Required<Omit<BridgeTransferTrackerOptions, 'storage' | 'storageKey'>>;
+    private transfers: Map<string, BridgeTransfer>;
+    private claiming: Set<string> = new Set(); // claims between the check and the node accepting them
+    private timer?: ReturnType<typeof setInterval>;
+    private polling = false;
+
+    constructor(bridge: BridgeService, options: BridgeTransferTrackerOptions = {}) {
+        super();
+        this.bridge = bridge;
+        this.storage = options.storage || getDefaultStorage();
+        this.storageKey = options.storageKey || `bridgeTransfers:${bridge.sourceChainId}:${bridge.destinationChainId}`;
+        const { storage, storageKey, ...rest } = options;
+        this.options = { ...DEFAULT_OPTIONS, ...rest };
+
+        const stored = readJson<BridgeTransfer[]>(this.storage, this.storageKey, []);
+        this.transfers = new Map(stored.map(transfer => [transfer.id, transfer]));
+
+        // Speed-ups send the source transaction again under a new hash
+        this.bridge.sourceTransactions.on('replaced', tx => this.followReplacement(tx));
+    }
+
+    getTransfers(stage?: BridgeTransferStage): BridgeTransfer[] {
+        const all = Array.from(this.transfers.values()).sort((a, b) => a.createdAt - b.createdAt);
+        return stage ? all.filter(t => t.stage === stage) : all;
+    }
+
+    getTransfer(idOrHash: string): BridgeTransfer | undefined {
+        return this.transfers.get(idOrHash)
+            || this.getTransfers().find(t => t.messageId === idOrHash || t.sourceTxHash === idOrHash);
+    }
+
+    // Sends a transfer and starts tracking it
+    async bridgeTokens(
+        tokenAddress: string,
+        amount: string,
+        recipient: string,
+        options: BridgeTransferOptions = {}
+    ): Promise<BridgeTransfer> {
+        const destinationBlock = await this.bridge.getBlockNumber('destination');
+        const tx: ContractTransaction = await this.bridge.bridgeTokens(tokenAddress, amount, recipient, options);
+        return this.track(tx.hash, destinationBlock);
+    }
+
+    // Tracks a transfer sent elsewhere, e.g. straight through the BridgeService. Pass the
+    // destination's block number from before it was sent, or status checks search the whole chain.
+    track(sourceTxHash: string, destinationBlock?: number): BridgeTransfer {
+        const existing = this.transfers.get(sourceTxHash);
+        if (existing) return existing;
+
+        const now = Date.now();
+        const transfer: BridgeTransfer = {
+            id: sourceTxHash,
+            sourceChainId: this.bridge.sourceChainId,
+            destinationChainId: this.bridge.destinationChainId,
+            sourceTxHash,
+            destinationBlock,
+            stage: 'submitted',
+            createdAt: now,
+            updatedAt: now
+        };
+        this.transfers.set(transfer.id, transfer);
+        this.save();
+        this.emit('updated', transfer);
+        this.start();
+        return transfer;
+    }
+
+    // Picks up unfinished transfers, e.g. those loaded from storage
+    start() {
+        if (this.timer || !this.hasActiveTransfers()) return;
+        this.timer = setInterval(() => this.poll(), this.options.pollInterval);
+        // Don't hold a Node process open just to watch; browsers return a plain number
+        if (typeof this.timer === 'object') this.timer.unref();
+        this.poll();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    async claim(idOrMessageId: string, txOptions: WriteOptions = this.options.claimOptions): Promise<BridgeTransfer> {
+        const transfer = this.getTransfer(idOrMessageId);
+        if (!transfer) throw new Error(`Unknown transfer ${idOrMessageId}`);
+        if (transfer.stage !== 'claimable') throw new Error(`Transfer is ${transfer.stage}, not claimable`);
+        // Taken before sending, so a manual claim and auto-claim can't both send
+        if (this.claiming.has(transfer.id)) throw new Error("Transfer is already being claimed");
+
+        const claimAttempts = (transfer.claimAttempts ?? 0) + 1;
+        this.claiming.add(transfer.id);
+        try {
+            const tx = await this.bridge.claimTokens(transfer.messageId!, txOptions);
+            this.update(transfer, { stage: 'claiming', claimTxHash: tx.hash, claimAttempts, error: undefined });
+        } catch (error: any) {
+            this.update(transfer, { claimAttempts, error: error.reason || error.message });
+            throw error;
+        } finally {
+            this.claiming.delete(transfer.id);
+        }
+        this.start();
+        return transfer;
+    }
+
+    // Forgets a transfer; finished ones are only removed this way
+    remove(id: string): boolean {
+        const removed = this.transfers.delete(id);
+        if (removed) this.save();
+        return removed;
+    }
+
+    async poll() {
+        if (this.polling) return;
+        const active = this.getTransfers().filter(t => !FINAL_STAGES.includes(t.stage));
+        if (active.length === 0) return this.stop();
+
+        this.polling = true;
+        try {
+            for (const transfer of active) {
+                try {
+                    await this.check(transfer);
+                } catch (error) {
+                    // Most often the RPC is unreachable; the next poll tries again
+                    console.error(`Error checking bridge transfer ${transfer.id}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async check(transfer: BridgeTransfer) {
+        switch (transfer.stage) {
+            case 'submitted': {
+                // Sent through the source TransactionManager, which knows about replacements
+                const sent = this.bridge.sourceTransactions.getTransaction(transfer.sourceTxHash);
+                if (sent && sent.status !== 'pending' && sent.status !== 'mined') {
+                    return this.update(transfer, { stage: 'failed', error: `Source transaction was ${sent.status}` });
+                }
+                if (sent?.minedHash && sent.minedHash !== transfer.sourceTxHash) {
+                    this.update(transfer, { sourceTxHash: sent.minedHash });
+                }
+
+                const receipt = await this.bridge.getReceipt(transfer.sourceTxHash, 'source');
+                if (!receipt) return;
+                if (receipt.status === 0) {
+                    return this.update(transfer, { stage: 'failed', error: "Source transaction reverted" });
+                }
+                // Wait out reorgs the transport guards against before reporting the message
+                if (receipt.confirmations < this.bridge.requiredConfirmations) return;
+                const event = await this.bridge.parseBridgeReceipt(receipt);
+                return this.update(transfer, {
+                    stage: 'sent',
+                    messageId: event.messageId,
+                    token: event.token,
+                    amount: event.amount?.formatted,
+                    recipient: event.recipient
+                });
+            }
+            case 'sent':
+            case 'claimable': {
+                const { status } = await this.bridge.checkMessageStatus(transfer.messageId!, transfer.destinationBlock);
+                if (status === MESSAGE_STATUS.completed) return this.update(transfer, { stage: 'completed' });
+                if (status === MESSAGE_STATUS.failed) {
+                    return this.update(transfer, { stage: 'failed', error: "Bridge message failed" });
+                }
+                if (status === MESSAGE_STATUS.claimable) {
+                    if (transfer.stage !== 'claimable') this.update(transfer, { stage: 'claimable' });
+                    const retriesLeft = (transfer.claimAttempts ?? 0) < this.options.maxClaimAttempts;
+                    if (this.options.autoClaim && retriesLeft && this.bridge.destConnection.signer && !this.claiming.has(transfer.id)) {
+                        // claim() keeps the error on the transfer
+                        await this.claim(transfer.id).catch(() => undefined);
+                    }
+                }
+                return;
+            }
+            case 'claiming': {
+                const receipt = await this.bridge.getReceipt(transfer.claimTxHash!, 'destination');
+                if (!receipt) return;
+                // A reverted claim leaves the message claimable for another attempt
+                return receipt.status === 1
+                    ? this.update(transfer, { stage: 'completed' })
+                    : this.update(transfer, { stage: 'claimable', error: "Claim transaction reverted" });
+            }
+        }
+    }
+
+    // Moves a transfer to its source transaction's new hash. Cancellations keep the last
+    // real submission, which may still be mined first; check() settles which one was.
+    private followReplacement(tx: TrackedTransaction) {
+        const transfer = this.getTransfers('submitted').find(t => tx.hashes.includes(t.sourceTxHash));
+        if (!transfer || tx.cancelHash || tx.hash === transfer.sourceTxHash) return;
+        this.update(transfer, { sourceTxHash: tx.hash });
+    }
+
+    private update(transfer: BridgeTransfer, changes: Partial<BridgeTransfer>) {
+        const previousStage = transfer.stage;
+        Object.assign(transfer, changes, { updatedAt: Date.now() });
+        this.save();
+
+        this.emit('updated', transfer);
+        if (transfer.stage === previousStage) return;
+        if (transfer.stage === 'claimable') this.emit('claimable', transfer);
+        if (transfer.stage === 'completed') this.emit('completed', transfer);
+        if (transfer.stage === 'failed') this.emit('failed', transfer);
+    }
+
+    private hasActiveTransfers(): boolean {
+        return this.getTransfers().some(t => !FINAL_STAGES.includes(t.stage));
+    }
+
+    private save() {
+        writeJson(this.storage, this.storageKey, this.getTransfers());
+    }
+}
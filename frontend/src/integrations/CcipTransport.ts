@@ -0,0 +1,172 @@
+import { BigNumber, Contract, constants, providers, Signer, utils } from 'ethers';
+
+const EVM2ANY_MESSAGE = '(bytes receiver, bytes data, (address token, uint256 amount)[] tokenAmounts, address feeToken, bytes extraArgs)';
+
+export const CCIP_ROUTER_ABI = [
+    `function getFee(uint64 destinationChainSelector, ${EVM2ANY_MESSAGE} message) view returns (uint256)`,
+    `function ccipSend(uint64 destinationChainSelector, ${EVM2ANY_MESSAGE} message) payable returns (bytes32)`,
+    'function isChainSupported(uint64 chainSelector) view returns (bool)'
+];
+
+// Emitted by the lane's OnRamp on the source chain and its OffRamp on the destination
+export const CCIP_LANE_ABI = [
+    'event CCIPSendRequested((uint64 sourceChainSelector, address sender, address receiver, uint64 sequenceNumber, uint256 gasLimit, bool strict, uint64 nonce, address feeToken, uint256 feeTokenAmount, bytes data, (address token, uint256 amount)[] tokenAmounts, bytes[] sourceTokenData, bytes32 messageId) message)',
+    'event ExecutionStateChanged(uint64 indexed sequenceNumber, bytes32 indexed messageId, uint8 state, bytes returnData)'
+];
+
+// OffRamp execution states; failed messages can be executed again manually
+export const EXECUTION_STATE = {
+    untouched: 0,
+    inProgress: 1,
+    success: 2,
+    failure: 3
+};
+
+const EVM_EXTRA_ARGS_V1_TAG = '0x97a657c9';
+const DEFAULT_GAS_LIMIT = 200000;
+const DEFAULT_LOG_BLOCK_RANGE = 5000;
+
+const laneInterface = new utils.Interface(CCIP_LANE_ABI);
+
+export interface CcipChainConfig {
+    router: string;
+    chainSelector: string; // uint64, too large for a JS number
+    confirmations?: number; // blocks before a send on this chain counts as sent
+    gasLimit?: number; // default gas for ccipReceive on this chain
+    offRamp?: string; // narrows execution lookups to one lane
+    logBlockRange?: number; // most blocks per getLogs request when looking for executions
+}
+
+export interface CcipTokenAmount {
+    token: string;
+    amount: BigNumber;
+}
+
+export interface CcipMessage {
+    receiver: string;
+    data?: string;
+    tokenAmounts?: CcipTokenAmount[];
+    gasLimit?: number; // 0 skips the receiver call, for tokens sent to accounts
+}
+
+export interface CcipSentMessage {
+    messageId: string;
+    sequenceNumber: number;
+    sender: string;
+    receiver: string;
+    data: string;
+    tokenAmounts: CcipTokenAmount[];
+    fee: BigNumber;
+}
+
+export interface CcipExecution {
+    state: number;
+    returnData: string;
+    transactionHash: string;
+    blockNumber: number;
+}
+
+export function encodeExtraArgs(gasLimit: number): string {
+    return utils.hexConcat([EVM_EXTRA_ARGS_V1_TAG, utils.defaultAbiCoder.encode(['uint256'], [gasLimit])]);
+}
+
+// Sends through a CCIP router on the source chain and follows messages to the
+// destination OffRamp. Fees are paid in the source chain's native token.
+export class CcipTransport {
+    readonly source: CcipChainConfig;
+    readonly destination: CcipChainConfig;
+    private sourceProvider: providers.Provider;
+    private destProvider: providers.Provider;
+
+    constructor(
+        sourceProvider: providers.Provider,
+        destProvider: providers.Provider,
+        source: CcipChainConfig,
+        destination: CcipChainConfig
+    ) {
+        if (!source.router || !destination.chainSelector) {
+            throw new Error("CCIP needs a router on the source chain and a selector for the destination");
+        }
+        this.sourceProvider = sourceProvider;
+        this.destProvider = destProvider;
+        this.source = source;
+        this.destination = destination;
+    }
+
+    get confirmations(): number {
+        return this.source.confirmations ?? 1;
+    }
+
+    getRouter(signerOrProvider: Signer | providers.Provider = this.sourceProvider): Contract {
+        return new Contract(this.source.router, CCIP_ROUTER_ABI, signerOrProvider);
+    }
+
+    // The router's message struct. Receivers are ABI encoded since CCIP also reaches non-EVM chains.
+    buildMessage(message: CcipMessage) {
+        return {
+            receiver: utils.defaultAbiCoder.encode(['address'], [message.receiver]),
+            data: message.data || '0x',
+            tokenAmounts: (message.tokenAmounts || []).map(({ token, amount }) => ({ token, amount })),
+            feeToken: constants.AddressZero,
+            extraArgs: encodeExtraArgs(message.gasLimit ?? this.destination.gasLimit ?? DEFAULT_GAS_LIMIT)
+        };
+    }
+
+    isDestinationSupported(): Promise<boolean> {
+        return this.getRouter().isChainSupported(this.destination.chainSelector);
+    }
+
+    getFee(message: CcipMessage): Promise<BigNumber> {
+        return this.getRouter().getFee(this.destination.chainSelector, this.buildMessage(message));
+    }
+
+    // ccipSend arguments with the fee the router currently asks for them
+    async prepareSend(message: CcipMessage, signer: Signer) {
+        const args = [this.destination.chainSelector, this.buildMessage(message)];
+        const router = this.getRouter(signer);
+        const fee: BigNumber = await router.getFee(...args);
+        return { router, args, fee };
+    }
+
+    // Messages sent in a source transaction; the OnRamp, not the router, emits them
+    parseSendReceipt(receipt: providers.TransactionReceipt): CcipSentMessage[] {
+        const topic = laneInterface.getEventTopic('CCIPSendRequested');
+        return receipt.logs
+            .filter(log => log.topics[0] === topic)
+            .map(log => {
+                const { message } = laneInterface.parseLog(log).args;
+                return {
+                    messageId: message.messageId,
+                    sequenceNumber: message.sequenceNumber.toNumber(),
+                    sender: message.sender,
+                    receiver: message.receiver,
+                    data: message.data,
+                    tokenAmounts: message.tokenAmounts.map((t: any) => ({ token: t.token, amount: t.amount })),
+                    fee: message.feeTokenAmount
+                };
+            });
+    }
+
+    // Latest execution of a message on the destination, or null before the OffRamp picks it up.
+    // Scans back from the head in bounded ranges, stopping at fromBlock: pass the destination
+    // block from before the message was sent, since RPCs cap and throttle long log queries.
+    async getExecution(messageId: string, fromBlock = 0): Promise<CcipExecution | null> {
+        const range = this.destination.logBlockRange ?? DEFAULT_LOG_BLOCK_RANGE;
+        const head = await this.destProvider.getBlockNumber();
+        for (let toBlock = head; toBlock >= fromBlock; toBlock -= range) {
+            const logs = await this.destProvider.getLogs({
+                address: this.destination.offRamp || undefined,
+                topics: [laneInterface.getEventTopic('ExecutionStateChanged'), null, messageId],
+                fromBlock: Math.max(fromBlock, toBlock - range + 1),
+                toBlock
+            });
+            if (logs.length === 0) continue;
+
+            // A manual retry after a failure logs a second state change
+            const log = logs[logs.length - 1];
+            const { state, returnData } = laneInterface.parseLog(log).args;
+            return { state, returnData, transactionHash: log.transactionHash, blockNumber: log.blockNumber };
+        }
+        return null;
+    }
+}
@@ -1,17 +1,477 @@
-import { providers, Contract, utils, Wallet } from 'ethers';
+import { providers, Contract, ContractTransaction, Signer, utils, BigNumber } from 'ethers';
 import { tatumService } from './TatumService';
 import { thirdwebService } from './ThirdwebService';
+import {
+    PortfolioAnalytics,
+    AnalyticsConfig,
+    PortfolioPosition,
+    PositionKind
+} from './PortfolioAnalytics';
+import { FeeStrategy } from './FeeStrategy';
+import { TransactionSimulator, TransactionSimulationError } from './TransactionSimulator';
+import { AllowanceManager, AllowanceRequirement } from './AllowanceManager';
+import { WriteOptions } from './types';
+import { getEnvironmentConfig, defiConfig } from './config';
+import { WalletConnection, SignerSource } from './WalletConnection';
+import { TokenRegistry, TokenAmount, NATIVE_TOKEN } from './TokenRegistry';
+import { MulticallProvider } from './Multicall';
+import { FarmManager, FarmPosition, CompoundEstimate, CompoundEstimateOptions, FarmLockedError, FARM_ABI } from './FarmManager';
+import { AutoCompounder, AutoCompoundOptions } from './AutoCompounder';
+import { NameService, isName, shortenAddress } from './NameService';
+import { SwapRouter, SwapQuote, TradeType, UNISWAP_V2_ROUTER_ABI, WETH_ABI } from './SwapRouter';
+import { TransactionManager, TransactionManagerRegistry } from './TransactionManager';
+import { StorageAdapter, getDefaultStorage } from '../utils/storage';
+import {
+    StrategyType,
+    StrategyParams,
+    StrategyParamsMap,
+    encodeStrategyParams,
+    decodeStrategyParams,
+    isStrategyType
+} from './StrategyParams';
+import {
+    FlashLoanBuilder,
+    FlashLoanPlan,
+    FlashLoanUnprofitableError,
+    FLASH_LENDER_ABI,
+    assertProfitable,
+    simulatedProfit
+} from './FlashLoanBuilder';
+import { OptionsAnalytics, OptionQuote, OptionPosition, OPTION_ABI } from './OptionsAnalytics';
+import {
+    RebalancePlanner,
+    RebalancePlan,
+    RebalanceOptions,
+    Allocation,
+    PORTFOLIO_ABI,
+    validateAllocations
+} from './RebalancePlanner';
+import {
+    applySlippage,
+    liquidityToAmounts,
+    optimalLiquidityAmounts,
+    priceDeviationBps,
+    toleranceToBps
+} from '../utils/ammMath';
+import {
+    PerpPositionState,
+    InterestRateModel,
+    accruedInterest,
+    borrowCapacity,
+    borrowRate,
+    effectiveLeverage,
+    healthFactor,
+    perpLiquidationPrice,
+    supplyRate,
+    unrealizedPnl,
+    utilizationRate
+} from '../utils/riskMath';
+import { toBasisPoints } from '../utils/rebalance';
+
+export interface PortfolioMetricsSummary {
+    totalValue: number;
+    pnl: number;
+    apy: number;
+    risk: number;
+}
+
+export interface AdvancedPortfolioMetrics extends PortfolioMetricsSummary {
+    sharpeRatio: number;
+    volatility: number;
+    drawdown: number;
+    positions: PortfolioPosition[];
+}
+
+export interface LiquidityOptions extends WriteOptions {
+    deadline?: number; // unix timestamp after which the pool rejects the call
+    expectedPrice?: string; // token1 per token0 the caller saw when quoting
+}
+
+export interface SwapOptions extends WriteOptions {
+    deadline?: number; // unix timestamp after which the router rejects the swap
+    recipient?: string; // defaults to the connected account
+    maxPriceImpact?: number; // percent; quotes that move the pools further are refused
+}
+
+export interface FlashLoanOptions extends WriteOptions {
+    minProfit?: string; // in the borrowed asset; defaults to breaking even
+}
+
+export interface LiquidityPosition {
+    pool: string;
+    liquidity: TokenAmount;
+    share: number; // fraction of the pool's LP supply
+    token0: TokenAmount;
+    token1: TokenAmount;
+}
+
+export interface PerpetualPosition {
+    market: string;
+    trader: string;
+    isLong: boolean;
+    size: number;
+    entryPrice: number;
+    markPrice: number;
+    margin: TokenAmount;
+    leverage: number; // effective, at the mark price
+    unrealizedPnl: number;
+    fundingOwed: number; // negative when the position receives funding
+    closingFee: number; // taker fee to close at the mark price
+    liquidationPrice: number;
+}
+
+export interface CollateralBalance {
+    amount: TokenAmount;
+    value: number;
+    maxLTV: number;
+    liquidationThreshold: number;
+}
+
+export interface DebtBalance {
+    amount: TokenAmount;
+    value: number;
+    borrowRate: number; // annual
+}
+
+export interface LendingPosition {
+    market: string;
+    account: string;
+    collateral: CollateralBalance[];
+    debt: DebtBalance[];
+    collateralValue: number;
+    debtValue: number;
+    borrowCapacity: number;
+    availableToBorrow: number;
+    healthFactor: number; // liquidatable below 1
+}
+
+export interface MarginPosition {
+    pool: string;
+    trader: string;
+    borrow: DebtBalance;
+    collateral: CollateralBalance;
+    healthFactor: number;
+}
+
+export interface InterestProjection {
+    asset: string;
+    principal: number;
+    days: number;
+    utilization: number;
+    borrowRate: number;
+    supplyRate: number;
+    borrowInterest: number;
+    supplyInterest: number;
+}
+
+export interface SyntheticOptions extends WriteOptions {
+    targetCollateralRatio?: number; // e.g. 4 = 400%; defaults to the configured target
+    enforceTarget?: boolean; // throw CollateralRatioError instead of minting under target
+}
+
+export interface SynthMintPreview {
+    projectedRatio: number;
+    targetRatio: number;
+    warning?: string; // set when the mint would drop the ratio under target
+}
+
+export interface SynthDebtSnapshot {
+    account: string;
+    collateral: TokenAmount;
+    collateralValue: number;
+    debt: number; // in the debt currency
+    debtShare: number; // fraction of all issued debt
+    collateralRatio: number;
+    targetRatio: number;
+    issuable: number; // further debt that keeps the ratio at target
+    claimableFees: number;
+    claimableRewards: TokenAmount;
+}
+
+export interface DeployedStrategy {
+    address: string;
+    strategyType: StrategyType;
+    params: StrategyParams;
+}
+
+interface PoolState {
+    token0: string;
+    token1: string;
+    reserve0: BigNumber;
+    reserve1: BigNumber;
+    totalSupply: BigNumber;
+}
+
+export class PriceImpactTooHighError extends Error {
+    quote: SwapQuote;
+    maxPriceImpact: number;
+
+    constructor(quote: SwapQuote, maxPriceImpact: number) {
+        super(`Swap would move the price ${(quote.priceImpact * 100).toFixed(2)}%, `
+            + `beyond the ${maxPriceImpact}% limit`);
+        this.name = 'PriceImpactTooHighError';
+        this.quote = quote;
+        this.maxPriceImpact = maxPriceImpact;
+    }
+}
+
+function collateralRatioWarning(projectedRatio: number, targetRatio: number): string {
+    return `Minting would drop the collateralization ratio to ${(projectedRatio * 100).toFixed(0)}%, `
+        + `below the ${(targetRatio * 100).toFixed(0)}% target`;
+}
+
+export class CollateralRatioError extends Error {
+    projectedRatio: number;
+    targetRatio: number;
+
+    constructor(projectedRatio: number, targetRatio: number) {
+        super(collateralRatioWarning(projectedRatio, targetRatio));
+        this.name = 'CollateralRatioError';
+        this.projectedRatio = projectedRatio;
+        this.targetRatio = targetRatio;
+    }
+}
+
+export class SlippageExceededError extends Error {
+    priceMove: number;
+    tolerance: number;
+
+    constructor(priceMove: number, tolerance: number) {
+        super(`Pool price moved ${priceMove}%, beyond the ${tolerance}% slippage tolerance`);
+        this.name = 'SlippageExceededError';
+        this.priceMove = priceMove;
+        this.tolerance = tolerance;
+    }
+}
+
+const PERPETUAL_MARKET_ABI = [
+    'function openPosition(bool,uint256,uint256,uint256,uint256) returns (uint256)',
+    'function closePosition(uint256 size) returns (int256)',
+    'function addMargin(uint256 amount)',
+    'function removeMargin(uint256 amount)',
+    'function getPosition(address trader) view returns (bool isLong, uint256 size, uint256 margin, uint256 entryPrice, int256 entryFundingRate)',
+    'function getMarkPrice() view returns (uint256)',
+    'function cumulativeFundingRate() view returns (int256)',
+    'function collateralToken() view returns (address)'
+];
+
+const MARGIN_POOL_ABI = [
+    'function openMarginPosition(address,uint256,address,uint256) returns (uint256)',
+    'function closeMarginPosition() returns (bool)',
+    'function getPosition(address trader) view returns (address borrowToken, uint256 borrowAmount, address collateralToken, uint256 collateralAmount)'
+];
+
+const LENDING_MARKET_ABI = [
+    'function supply(address,uint256) returns (bool)',
+    'function withdraw(address asset, uint256 amount) returns (bool)',
+    'function borrow(address asset, uint256 amount) returns (bool)',
+    'function repay(address asset, uint256 amount) returns (bool)',
+    'function getAccountBalances(address account) view returns (address[] assets, uint256[] supplied, uint256[] borrowed)',
+    'function totalSupplied(address asset) view returns (uint256)',
+    'function totalBorrowed(address asset) view returns (uint256)'
+];
+
+const SYNTHETIX_ABI = [
+    'function issueSynths(bytes32,uint256) returns (bool)',
+    'function burnSynths(bytes32 currencyKey, uint256 amount) returns (bool)',
+    'function collateralToken() view returns (address)',
+    'function collateralOf(address account) view returns (uint256)',
+    'function debtBalanceOf(address account, bytes32 currencyKey) view returns (uint256)',
+    'function totalIssuedSynths(bytes32 currencyKey) view returns (uint256)',
+    'function synths(bytes32 currencyKey) view returns (address)',
+    'function feePool() view returns (address)'
+];
+
+const FEE_POOL_ABI = [
+    'function feesAvailable(address account) view returns (uint256 fees, uint256 rewards)',
+    'function claimFees() returns (bool)'
+];
+
+const SYNTHS: string[] = defiConfig.synthetics.synths;
+
+const toCurrencyKey = (currencyKey: string): string => {
+    if (!SYNTHS.includes(currencyKey)) {
+        throw new Error(`Unknown synth ${currencyKey}; expected one of ${SYNTHS.join(', ')}`);
+    }
+    return utils.formatBytes32String(currencyKey);
+};
+
+const LIQUIDITY_POOL_ABI = [
+    'function addLiquidity(uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, uint256 deadline) returns (uint256)',
+    'function removeLiquidity(uint256 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) returns (uint256, uint256)',
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address) view returns (uint256)',
+    'function token0() view returns (address)',
+    'function token1() view returns (address)'
+];
+
+const DEFAULT_LIQUIDITY_DEADLINE = 1200; // seconds
+const DEFAULT_SWAP_DEADLINE = 1200; // seconds
+const PRECISION = 1e6;
 
 export class DeFiService {
-    private provider: providers.Provider;
-    private signer: Wallet | null = null;
+    private provider: providers.JsonRpcProvider;
+    readonly connection: WalletConnection;
+    readonly transactions: TransactionManager;
+    private analytics: PortfolioAnalytics;
+    private feeStrategy: FeeStrategy;
+    private simulator: TransactionSimulator;
+    private allowances: AllowanceManager;
+    private options: OptionsAnalytics;
+    private rebalancer: RebalancePlanner;
+    private swaps?: SwapRouter;
+    private farms: FarmManager;
+    private names?: NameService;
+    readonly tokens: TokenRegistry;
     
-    constructor(rpcUrl: string) {
-        this.provider = new providers.JsonRpcProvider(rpcUrl);
+    // Pass the registry bridge services use too, so sends on a shared chain share nonces
+    constructor(
+        rpcUrl: string,
+        analyticsConfig: Partial<AnalyticsConfig> = {},
+        storage: StorageAdapter = getDefaultStorage(),
+        transactions: TransactionManagerRegistry = TransactionManagerRegistry.forStorage(storage)
+    ) {
+        const environment = getEnvironmentConfig();
+        this.provider = new MulticallProvider(rpcUrl, {
+            address: environment.contracts.multicall3,
+            batchSize: environment.performance?.rpcBatchSize
+        });
+        this.transactions = transactions.get(environment.chainId, this.provider);
+        this.connection = new WalletConnection(this.provider, undefined, this.transactions);
+        this.tokens = new TokenRegistry(this.provider);
+        this.analytics = new PortfolioAnalytics(
+            this.provider,
+            { priceOracle: environment.contracts.priceOracle || '', ...analyticsConfig },
+            this.tokens,
+            storage,
+            `portfolioSources:${environment.chainId}`
+        );
+        this.feeStrategy = new FeeStrategy(this.provider, {
+            maxGasPrice: environment.security.maxGasPrice
+        });
+        this.simulator = new TransactionSimulator(this.provider);
+        this.allowances = new AllowanceManager(this.connection, this.feeStrategy);
+        this.options = new OptionsAnalytics(this.provider, this.analytics);
+        this.farms = new FarmManager(this.provider, this.tokens, this.analytics, this.feeStrategy);
+        if (environment.contracts.uniswapRouter) {
+            this.swaps = new SwapRouter(this.provider, this.tokens, environment.contracts.uniswapRouter, {
+                weth: environment.contracts.weth9 || undefined,
+                intermediates: defiConfig.marginPools.supportedCollateral
+                    .map(c => c.token)
+                    .filter(token => utils.isAddress(token))
+            });
+        }
+        if (environment.contracts.ensRegistry) {
+            this.names = new NameService(this.provider, environment.contracts.ensRegistry, {
+                resolver: environment.contracts.publicResolver || undefined
+            });
+        }
+        this.rebalancer = new RebalancePlanner(
+            this.provider,
+            this.tokens,
+            this.analytics,
+            this.feeStrategy,
+            this.swaps
+        );
+    }
+
+    async connect(signer: SignerSource) {
+        await this.connection.connect(signer);
+    }
+
+    disconnect() {
+        this.connection.disconnect();
     }
 
-    async connect(privateKey: string) {
-        this.signer = new Wallet(privateKey, this.provider);
+    private get signer(): Signer | null {
+        return this.connection.signer;
+    }
+
+    get allowanceManager(): AllowanceManager {
+        return this.allowances;
+    }
+
+    // Names
+    // Every method taking an address also accepts a name registered on the chain's ENSRegistry
+    async resolveAddress(addressOrName: string): Promise<string> {
+        if (!isName(addressOrName)) return addressOrName;
+        return this.requireNames().resolveAddress(addressOrName);
+    }
+
+    async lookupName(address: string): Promise<string | null> {
+        return this.names ? this.names.lookupAddress(address) : null;
+    }
+
+    // Verified primary name, or the shortened address
+    async getDisplayName(address: string): Promise<string> {
+        return (await this.lookupName(address)) || shortenAddress(address);
+    }
+
+    // Registers a subname of one the connected account owns, pointing at address or the account
+    async registerName(name: string, address?: string) {
+        if (!this.signer) throw new Error("Not connected");
+        await this.connection.assertChain();
+        return this.requireNames().register(this.signer, name, address && await this.resolveAddress(address));
+    }
+
+    async setReverseName(name: string) {
+        if (!this.signer) throw new Error("Not connected");
+        await this.connection.assertChain();
+        return this.requireNames().setReverseName(this.signer, name);
+    }
+
+    private requireNames(): NameService {
+        if (!this.names) throw new Error("No ENS registry configured for this environment");
+        return this.names;
+    }
+
+    private async resolveAddresses(...values: string[]): Promise<string[]> {
+        return Promise.all(values.map(value => this.resolveAddress(value)));
+    }
+
+    private async resolveAllocations(allocations: Allocation[]): Promise<Allocation[]> {
+        return Promise.all(allocations.map(async a => ({ ...a, token: await this.resolveAddress(a.token) })));
+    }
+
+    private async sendTransaction(
+        contract: Contract,
+        method: string,
+        args: any[],
+        txOptions: WriteOptions = {},
+        approvals: AllowanceRequirement[] = []
+    ): Promise<ContractTransaction> {
+        await this.connection.assertChain();
+        const {
+            simulate, fork, errorAbi, onSimulated,
+            autoApprove, approvalMode, approvalCap, usePermit, permitDeadline,
+            ...feeOptions
+        } = txOptions;
+
+        await this.allowances.ensureApprovals(approvals, {
+            ...feeOptions,
+            autoApprove,
+            approvalMode,
+            approvalCap,
+            usePermit,
+            permitDeadline
+        });
+
+        if (simulate) {
+            const preview = await this.simulator.simulate(
+                contract,
+                method,
+                args,
+                feeOptions.value !== undefined ? { value: feeOptions.value } : {},
+                { fork, errorAbi }
+            );
+            if (!preview.success) throw new TransactionSimulationError(preview);
+            // Callers can inspect the preview and throw to abort before signing
+            if (onSimulated) await onSimulated(preview);
+        }
+
+        const overrides = await this.feeStrategy.buildOverrides(contract, method, args, feeOptions);
+        return contract[method](...args, overrides);
     }
 
     // Perpetual Trading
@@ -21,29 +481,141 @@ export class DeFiService {
         size: string,
         leverage: number,
         stopLoss?: string,
-        takeProfit?: string
+        takeProfit?: string,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        marketAddress = await this.resolveAddress(marketAddress);
+        this.validateLeverage(leverage);
+        this.analytics.trackSource('perpetual', marketAddress);
 
-        const market = new Contract(
-            marketAddress,
-            ['function openPosition(bool,uint256,uint256,uint256,uint256) returns (uint256)'],
-            this.signer
-        );
+        const market = new Contract(marketAddress, PERPETUAL_MARKET_ABI, this.signer);
 
-        const tx = await market.openPosition(
+        // Sizes and prices are 1e18 fixed-point regardless of the index token
+        return this.sendTransaction(market, 'openPosition', [
             isLong,
             utils.parseEther(size),
             leverage * 10000, // 1x = 10000
             stopLoss ? utils.parseEther(stopLoss) : 0,
-            takeProfit ? utils.parseEther(takeProfit) : 0,
-            {
-                gasLimit: 500000,
-                gasPrice: await this.provider.getGasPrice()
-            }
+            takeProfit ? utils.parseEther(takeProfit) : 0
+        ], txOptions);
+    }
+
+    async getPerpetualPosition(marketAddress: string, trader: string): Promise<PerpetualPosition> {
+        [marketAddress, trader] = await this.resolveAddresses(marketAddress, trader);
+        const market = new Contract(marketAddress, PERPETUAL_MARKET_ABI, this.provider);
+        const [raw, markPrice, cumulativeFunding, collateralToken] = await Promise.all([
+            market.getPosition(trader),
+            market.getMarkPrice(),
+            market.cumulativeFundingRate(),
+            market.collateralToken()
+        ]);
+
+        const margin = await this.tokens.toTokenAmount(collateralToken, raw.margin);
+        const size = Number(utils.formatEther(raw.size));
+        const mark = Number(utils.formatEther(markPrice));
+        // Funding rates accumulate per unit of size; longs pay when the rate rises
+        const fundingDelta = Number(utils.formatEther(cumulativeFunding.sub(raw.entryFundingRate)));
+
+        // Margin is held in the market's quote collateral, so its units are quote currency
+        const state: PerpPositionState = {
+            isLong: raw.isLong,
+            size,
+            entryPrice: Number(utils.formatEther(raw.entryPrice)),
+            margin: Number(margin.formatted),
+            fundingOwed: (raw.isLong ? 1 : -1) * size * fundingDelta
+        };
+        const { maintenanceMargin, feeStructure } = defiConfig.perpetualMarkets;
+
+        return {
+            market: marketAddress,
+            trader,
+            isLong: state.isLong,
+            size,
+            entryPrice: state.entryPrice,
+            markPrice: mark,
+            margin,
+            leverage: size === 0 ? 0 : effectiveLeverage(state, mark),
+            unrealizedPnl: unrealizedPnl(state, mark),
+            fundingOwed: state.fundingOwed,
+            closingFee: size * mark * feeStructure.takerFee,
+            liquidationPrice: perpLiquidationPrice(state, maintenanceMargin, feeStructure.liquidationFee)
+        };
+    }
+
+    // Closes the whole position unless a partial size is given
+    async closePerpetualPosition(
+        marketAddress: string,
+        size?: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        marketAddress = await this.resolveAddress(marketAddress);
+
+        const market = new Contract(marketAddress, PERPETUAL_MARKET_ABI, this.signer);
+        const position = await market.getPosition(await this.signer.getAddress());
+        if (position.size.isZero()) throw new Error("No open position");
+
+        const closeSize = size ? utils.parseEther(size) : position.size;
+        if (closeSize.isZero() || closeSize.gt(position.size)) {
+            throw new Error(`Close size must be between 0 and the position size of ${utils.formatEther(position.size)}`);
+        }
+
+        return this.sendTransaction(market, 'closePosition', [closeSize], txOptions);
+    }
+
+    async addPerpetualMargin(
+        marketAddress: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        marketAddress = await this.resolveAddress(marketAddress);
+
+        const market = new Contract(marketAddress, PERPETUAL_MARKET_ABI, this.signer);
+        const collateralToken: string = await market.collateralToken();
+        const marginAmount = await this.tokens.parseAmount(collateralToken, amount);
+
+        return this.sendTransaction(market, 'addMargin', [marginAmount], txOptions, [
+            { token: collateralToken, spender: marketAddress, amount: marginAmount }
+        ]);
+    }
+
+    async removePerpetualMargin(
+        marketAddress: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        marketAddress = await this.resolveAddress(marketAddress);
+
+        const market = new Contract(marketAddress, PERPETUAL_MARKET_ABI, this.signer);
+        const position = await this.getPerpetualPosition(marketAddress, await this.signer.getAddress());
+        const marginAmount = await this.tokens.parseAmount(position.margin.token, amount);
+        if (marginAmount.gt(position.margin.raw)) throw new Error("Amount exceeds position margin");
+
+        // The position must stay within the leverage limits once the margin is gone
+        const remaining: PerpPositionState = {
+            ...position,
+            margin: Number(utils.formatUnits(position.margin.raw.sub(marginAmount), position.margin.decimals))
+        };
+        this.validateLeverage(effectiveLeverage(remaining, position.markPrice));
+
+        return this.sendTransaction(market, 'removeMargin', [marginAmount], txOptions);
+    }
+
+    getMaxLeverage(): number {
+        return Math.min(
+            defiConfig.perpetualMarkets.maxLeverage,
+            getEnvironmentConfig().security.maxLeverage
         );
+    }
 
-        return tx;
+    private validateLeverage(leverage: number) {
+        const maxLeverage = this.getMaxLeverage();
+        if (!(leverage > 0) || leverage > maxLeverage) {
+            throw new Error(`Leverage ${leverage}x is outside the allowed range of up to ${maxLeverage}x`);
+        }
     }
 
     // Margin Trading
@@ -52,37 +624,76 @@ export class DeFiService {
         borrowToken: string,
         borrowAmount: string,
         collateralToken: string,
-        collateralAmount: string
+        collateralAmount: string,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
-
-        const pool = new Contract(
+        [poolAddress, borrowToken, collateralToken] = await this.resolveAddresses(
             poolAddress,
-            ['function openMarginPosition(address,uint256,address,uint256) returns (uint256)'],
-            this.signer
+            borrowToken,
+            collateralToken
         );
+        this.analytics.trackSource('margin', poolAddress);
 
-        const tx = await pool.openMarginPosition(
+        const pool = new Contract(poolAddress, MARGIN_POOL_ABI, this.signer);
+
+        const [borrow, collateral] = await Promise.all([
+            this.tokens.parseAmount(borrowToken, borrowAmount),
+            this.tokens.parseAmount(collateralToken, collateralAmount)
+        ]);
+
+        return this.sendTransaction(pool, 'openMarginPosition', [
             borrowToken,
-            utils.parseEther(borrowAmount),
+            borrow,
             collateralToken,
-            utils.parseEther(collateralAmount),
-            {
-                gasLimit: 400000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
+            collateral
+        ], txOptions, [
+            { token: collateralToken, spender: poolAddress, amount: collateral }
+        ]);
+    }
+
+    // The pool repays the loan from the position and returns the remaining collateral
+    async closeMarginPosition(poolAddress: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        poolAddress = await this.resolveAddress(poolAddress);
+
+        const pool = new Contract(poolAddress, MARGIN_POOL_ABI, this.signer);
+        const position = await pool.getPosition(await this.signer.getAddress());
+        if (position.borrowAmount.isZero() && position.collateralAmount.isZero()) {
+            throw new Error("No open margin position");
+        }
 
-        return tx;
+        return this.sendTransaction(pool, 'closeMarginPosition', [], txOptions);
+    }
+
+    async getMarginPosition(poolAddress: string, trader: string): Promise<MarginPosition> {
+        [poolAddress, trader] = await this.resolveAddresses(poolAddress, trader);
+        const pool = new Contract(poolAddress, MARGIN_POOL_ABI, this.provider);
+        const raw = await pool.getPosition(trader);
+
+        const [borrow, collateral] = await Promise.all([
+            this.getDebtBalance(raw.borrowToken, raw.borrowAmount, 0),
+            this.getCollateralBalance(raw.collateralToken, raw.collateralAmount)
+        ]);
+
+        return {
+            pool: poolAddress,
+            trader,
+            borrow,
+            collateral,
+            healthFactor: healthFactor([collateral], borrow.value)
+        };
     }
 
     // Automated Trading Strategies
-    async deployTradingStrategy(
+    async deployTradingStrategy<T extends StrategyType>(
         factoryAddress: string,
-        strategyType: string,
-        params: any
+        strategyType: T,
+        params: StrategyParamsMap[T],
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        factoryAddress = await this.resolveAddress(factoryAddress);
 
         const factory = new Contract(
             factoryAddress,
@@ -90,51 +701,70 @@ export class DeFiService {
             this.signer
         );
 
-        const tx = await factory.deployStrategy(
+        return this.sendTransaction(factory, 'deployStrategy', [
             strategyType,
-            utils.defaultAbiCoder.encode(['bytes'], [params]),
-            {
-                gasLimit: 1000000,
-                gasPrice: await this.provider.getGasPrice()
-            }
+            encodeStrategyParams(strategyType, params)
+        ], txOptions);
+    }
+
+    async getStrategyParameters(strategyAddress: string): Promise<DeployedStrategy> {
+        strategyAddress = await this.resolveAddress(strategyAddress);
+        const strategy = new Contract(
+            strategyAddress,
+            [
+                'function strategyType() view returns (string)',
+                'function parameters() view returns (bytes)'
+            ],
+            this.provider
         );
 
-        return tx;
+        const [strategyType, data] = await Promise.all([strategy.strategyType(), strategy.parameters()]);
+        if (!isStrategyType(strategyType)) throw new Error(`Unknown strategy type ${strategyType}`);
+
+        return {
+            address: strategyAddress,
+            strategyType,
+            params: decodeStrategyParams(strategyType, data)
+        };
     }
 
     // Advanced Portfolio Analytics
-    async getAdvancedPortfolioMetrics(address: string) {
-        const metrics = {
-            totalValue: '0',
-            pnl: '0',
-            apy: '0',
-            risk: '0',
-            sharpeRatio: '0',
-            volatility: '0',
-            drawdown: '0',
+    trackPositionSource(kind: PositionKind, address: string) {
+        this.analytics.trackSource(kind, address);
+    }
+
+    configureAnalytics(config: Partial<AnalyticsConfig>) {
+        this.analytics.configure(config);
+    }
+
+    async getAdvancedPortfolioMetrics(
+        address: string,
+        lookbackDays?: number
+    ): Promise<AdvancedPortfolioMetrics> {
+        address = await this.resolveAddress(address);
+        const metrics: AdvancedPortfolioMetrics = {
+            totalValue: 0,
+            pnl: 0,
+            apy: 0,
+            risk: 0,
+            sharpeRatio: 0,
+            volatility: 0,
+            drawdown: 0,
             positions: []
         };
 
         try {
-            const [
-                basicMetrics,
-                sharpeRatio,
-                volatility,
-                drawdown,
-                positions
-            ] = await Promise.all([
-                this.getPortfolioMetrics(address),
-                this.calculateSharpeRatio(address),
-                this.calculateVolatility(address),
-                this.calculateDrawdown(address),
-                this.getOpenPositions(address)
-            ]);
-
-            Object.assign(metrics, basicMetrics, {
-                sharpeRatio,
-                volatility,
-                drawdown,
-                positions
+            const performance = await this.analytics.getPerformance(address, lookbackDays);
+
+            Object.assign(metrics, {
+                totalValue: performance.totalValue,
+                pnl: performance.pnl,
+                apy: performance.apy,
+                risk: performance.valueAtRisk,
+                sharpeRatio: performance.sharpeRatio,
+                volatility: performance.volatility,
+                drawdown: performance.maxDrawdown,
+                positions: performance.positions
             });
         } catch (error) {
             console.error('Error fetching advanced portfolio metrics:', error);
@@ -143,105 +773,401 @@ export class DeFiService {
         return metrics;
     }
 
-    private async calculateSharpeRatio(address: string): Promise<string> {
-        // Implementation
-        return '0';
+    // Liquidity Pool Management
+    async addLiquidity(
+        poolAddress: string,
+        token0Amount: string,
+        token1Amount: string,
+        slippageTolerance: number = 0.5,
+        txOptions: LiquidityOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        poolAddress = await this.resolveAddress(poolAddress);
+        this.analytics.trackSource('liquidity', poolAddress);
+
+        const { deadline, expectedPrice, ...writeOptions } = txOptions;
+        const pool = new Contract(poolAddress, LIQUIDITY_POOL_ABI, this.signer);
+        const state = await this.getPoolState(pool);
+        const [desired0, desired1] = await Promise.all([
+            this.tokens.parseAmount(state.token0, token0Amount),
+            this.tokens.parseAmount(state.token1, token1Amount)
+        ]);
+
+        // The desired amounts imply the price the caller expects unless one is given
+        const hasLiquidity = !state.reserve0.isZero() && !state.reserve1.isZero();
+        if (hasLiquidity) {
+            const [price0, price1] = expectedPrice
+                ? await this.expectedPriceAmounts(state, expectedPrice)
+                : [desired0, desired1];
+            this.assertPriceWithinTolerance(price0, price1, state, slippageTolerance);
+        }
+
+        const [amount0, amount1] = optimalLiquidityAmounts(desired0, desired1, state.reserve0, state.reserve1);
+
+        return this.sendTransaction(pool, 'addLiquidity', [
+            desired0,
+            desired1,
+            hasLiquidity ? applySlippage(amount0, slippageTolerance) : desired0,
+            hasLiquidity ? applySlippage(amount1, slippageTolerance) : desired1,
+            deadline || Math.floor(Date.now() / 1000) + DEFAULT_LIQUIDITY_DEADLINE
+        ], writeOptions, [
+            { token: state.token0, spender: poolAddress, amount: desired0 },
+            { token: state.token1, spender: poolAddress, amount: desired1 }
+        ]);
     }
 
-    private async calculateVolatility(address: string): Promise<string> {
-        // Implementation
-        return '0';
+    async removeLiquidity(
+        poolAddress: string,
+        liquidityAmount: string,
+        slippageTolerance: number = 0.5,
+        txOptions: LiquidityOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        poolAddress = await this.resolveAddress(poolAddress);
+
+        const { deadline, expectedPrice, ...writeOptions } = txOptions;
+        const pool = new Contract(poolAddress, LIQUIDITY_POOL_ABI, this.signer);
+        const state = await this.getPoolState(pool);
+        const liquidity = await this.tokens.parseAmount(poolAddress, liquidityAmount);
+
+        if (expectedPrice) {
+            const [price0, price1] = await this.expectedPriceAmounts(state, expectedPrice);
+            this.assertPriceWithinTolerance(price0, price1, state, slippageTolerance);
+        }
+
+        const [amount0, amount1] = liquidityToAmounts(
+            liquidity,
+            state.totalSupply,
+            state.reserve0,
+            state.reserve1
+        );
+
+        return this.sendTransaction(pool, 'removeLiquidity', [
+            liquidity,
+            applySlippage(amount0, slippageTolerance),
+            applySlippage(amount1, slippageTolerance),
+            deadline || Math.floor(Date.now() / 1000) + DEFAULT_LIQUIDITY_DEADLINE
+        ], writeOptions);
     }
 
-    private async calculateDrawdown(address: string): Promise<string> {
-        // Implementation
-        return '0';
+    async getLiquidityPosition(poolAddress: string, account: string): Promise<LiquidityPosition> {
+        [poolAddress, account] = await this.resolveAddresses(poolAddress, account);
+        const pool = new Contract(poolAddress, LIQUIDITY_POOL_ABI, this.provider);
+        const [state, balance] = await Promise.all([
+            this.getPoolState(pool),
+            pool.balanceOf(account)
+        ]);
+        const [amount0, amount1] = liquidityToAmounts(
+            balance,
+            state.totalSupply,
+            state.reserve0,
+            state.reserve1
+        );
+
+        const [liquidity, token0, token1] = await Promise.all([
+            this.tokens.toTokenAmount(poolAddress, balance),
+            this.tokens.toTokenAmount(state.token0, amount0),
+            this.tokens.toTokenAmount(state.token1, amount1)
+        ]);
+
+        return {
+            pool: poolAddress,
+            liquidity,
+            share: state.totalSupply.isZero()
+                ? 0
+                : balance.mul(PRECISION).div(state.totalSupply).toNumber() / PRECISION,
+            token0,
+            token1
+        };
     }
 
-    private async getOpenPositions(address: string): Promise<any[]> {
-        // Implementation
-        return [];
+    private async getPoolState(pool: Contract): Promise<PoolState> {
+        const [token0, token1, reserves, totalSupply] = await Promise.all([
+            pool.token0(),
+            pool.token1(),
+            pool.getReserves(),
+            pool.totalSupply()
+        ]);
+        return { token0, token1, reserve0: reserves[0], reserve1: reserves[1], totalSupply };
     }
 
-    // Liquidity Pool Management
-    async addLiquidity(
-        poolAddress: string,
-        token0Amount: string,
-        token1Amount: string,
+    // Raw amounts of token0 and token1 worth the same at a human-unit price of token1 per token0
+    private async expectedPriceAmounts(state: PoolState, price: string): Promise<[BigNumber, BigNumber]> {
+        return Promise.all([
+            this.tokens.parseAmount(state.token0, '1'),
+            this.tokens.parseAmount(state.token1, price)
+        ]);
+    }
+
+    private assertPriceWithinTolerance(
+        amount0: BigNumber,
+        amount1: BigNumber,
+        state: PoolState,
+        slippageTolerance: number
+    ) {
+        const deviation = priceDeviationBps(amount0, amount1, state.reserve0, state.reserve1);
+        if (deviation > toleranceToBps(slippageTolerance)) {
+            throw new SlippageExceededError(deviation / 100, slippageTolerance);
+        }
+    }
+
+    // Token Swaps
+    // Tokens are addresses, or NATIVE_TOKEN for the chain's native coin
+    async getSwapRoutes(tokenIn: string, tokenOut: string): Promise<string[][]> {
+        [tokenIn, tokenOut] = await this.resolveAddresses(tokenIn, tokenOut);
+        return this.requireSwaps().findRoutes(tokenIn, tokenOut);
+    }
+
+    // Amount is the input for exactIn trades and the output for exactOut ones
+    async getSwapQuote(
+        tokenIn: string,
+        tokenOut: string,
+        amount: string,
+        tradeType: TradeType = 'exactIn',
         slippageTolerance: number = 0.5
+    ): Promise<SwapQuote> {
+        [tokenIn, tokenOut] = await this.resolveAddresses(tokenIn, tokenOut);
+        toleranceToBps(slippageTolerance);
+        const swaps = this.requireSwaps();
+        return tradeType === 'exactIn'
+            ? swaps.quoteExactIn(tokenIn, tokenOut, amount, slippageTolerance)
+            : swaps.quoteExactOut(tokenIn, tokenOut, amount, slippageTolerance);
+    }
+
+    async swap(
+        tokenIn: string,
+        tokenOut: string,
+        amount: string,
+        tradeType: TradeType = 'exactIn',
+        slippageTolerance: number = 0.5,
+        txOptions: SwapOptions = {}
     ) {
+        const quote = await this.getSwapQuote(tokenIn, tokenOut, amount, tradeType, slippageTolerance);
+        return this.executeSwap(quote, txOptions);
+    }
+
+    // Sends a quote the user has reviewed; its slippage bounds protect against reserves moving since
+    async executeSwap(quote: SwapQuote, txOptions: SwapOptions = {}) {
         if (!this.signer) throw new Error("Not connected");
 
-        const pool = new Contract(
-            poolAddress,
-            ['function addLiquidity(uint256,uint256) returns (uint256)'],
-            this.signer
-        );
+        const { deadline, recipient, maxPriceImpact, ...writeOptions } = txOptions;
+        if (maxPriceImpact !== undefined && quote.priceImpact * 100 > maxPriceImpact) {
+            throw new PriceImpactTooHighError(quote, maxPriceImpact);
+        }
 
-        const tx = await pool.addLiquidity(
-            utils.parseEther(token0Amount),
-            utils.parseEther(token1Amount),
-            {
-                gasLimit: 300000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
+        const router = new Contract(this.requireSwaps().address, UNISWAP_V2_ROUTER_ABI, this.signer);
+        const to = recipient ? await this.resolveAddress(recipient) : await this.signer.getAddress();
+        const expiry = deadline || Math.floor(Date.now() / 1000) + DEFAULT_SWAP_DEADLINE;
+        const exactIn = quote.tradeType === 'exactIn';
+        const amountIn = quote.amountIn.raw;
+        const amountOut = quote.amountOut.raw;
+        const amountInMax = quote.amountInMax.raw;
+        const amountOutMin = quote.amountOutMin.raw;
+
+        if (quote.tokenIn === NATIVE_TOKEN) {
+            // The router refunds whatever native coin an exact-output swap doesn't use
+            return this.sendTransaction(
+                router,
+                exactIn ? 'swapExactETHForTokens' : 'swapETHForExactTokens',
+                [exactIn ? amountOutMin : amountOut, quote.path, to, expiry],
+                { ...writeOptions, value: exactIn ? amountIn : amountInMax }
+            );
+        }
+
+        const approvals = [{ token: quote.tokenIn, spender: router.address, amount: exactIn ? amountIn : amountInMax }];
+        const args = exactIn
+            ? [amountIn, amountOutMin, quote.path, to, expiry]
+            : [amountOut, amountInMax, quote.path, to, expiry];
+        const method = quote.tokenOut === NATIVE_TOKEN
+            ? (exactIn ? 'swapExactTokensForETH' : 'swapTokensForExactETH')
+            : (exactIn ? 'swapExactTokensForTokens' : 'swapTokensForExactTokens');
+
+        return this.sendTransaction(router, method, args, writeOptions, approvals);
+    }
+
+    async wrapNative(amount: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+
+        const weth = new Contract(await this.requireSwaps().getWeth(), WETH_ABI, this.signer);
+        const value = await this.tokens.parseAmount(NATIVE_TOKEN, amount);
+        return this.sendTransaction(weth, 'deposit', [], { ...txOptions, value });
+    }
+
+    async unwrapNative(amount: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+
+        const weth = new Contract(await this.requireSwaps().getWeth(), WETH_ABI, this.signer);
+        const wad = await this.tokens.parseAmount(weth.address, amount);
+        if (wad.gt(await weth.balanceOf(await this.signer.getAddress()))) {
+            throw new Error(`Cannot unwrap more than the wrapped balance`);
+        }
+        return this.sendTransaction(weth, 'withdraw', [wad], txOptions);
+    }
 
-        return tx;
+    private requireSwaps(): SwapRouter {
+        if (!this.swaps) throw new Error("No Uniswap router configured for this environment");
+        return this.swaps;
     }
 
     // Yield Farming
     async stakeInFarm(
         farmAddress: string,
         amount: string,
-        lockPeriod: number = 0
+        lockPeriod: number = 0,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        farmAddress = await this.resolveAddress(farmAddress);
+        this.analytics.trackSource('farm', farmAddress);
 
-        const farm = new Contract(
-            farmAddress,
-            ['function stake(uint256,uint256) returns (bool)'],
-            this.signer
-        );
+        const farm = new Contract(farmAddress, FARM_ABI, this.signer);
+        const stakingToken: string = await farm.stakingToken();
+        const stakeAmount = await this.tokens.parseAmount(stakingToken, amount);
 
-        const tx = await farm.stake(
-            utils.parseEther(amount),
-            lockPeriod,
-            {
-                gasLimit: 200000,
-                gasPrice: await this.provider.getGasPrice()
-            }
+        return this.sendTransaction(farm, 'stake', [stakeAmount, lockPeriod], txOptions, [
+            { token: stakingToken, spender: farmAddress, amount: stakeAmount }
+        ]);
+    }
+
+    // Withdraws the whole stake when amount is omitted; rewards stay claimable
+    async unstakeFromFarm(farmAddress: string, amount?: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        farmAddress = await this.resolveAddress(farmAddress);
+
+        const position = await this.farms.getPosition(farmAddress, await this.signer.getAddress());
+        if (position.lockRemaining > 0) throw new FarmLockedError(farmAddress, position.lockedUntil);
+
+        const unstakeAmount = amount
+            ? await this.tokens.parseAmount(position.stakingToken, amount)
+            : position.staked.raw;
+        if (unstakeAmount.isZero()) throw new Error("Nothing staked");
+        if (unstakeAmount.gt(position.staked.raw)) {
+            throw new Error(`Cannot unstake more than the ${position.staked.formatted} staked`);
+        }
+
+        const farm = new Contract(farmAddress, FARM_ABI, this.signer);
+        return this.sendTransaction(farm, 'unstake', [unstakeAmount], txOptions);
+    }
+
+    async harvestFarm(farmAddress: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        farmAddress = await this.resolveAddress(farmAddress);
+
+        const farm = new Contract(farmAddress, FARM_ABI, this.signer);
+        const pending: BigNumber = await farm.earned(await this.signer.getAddress());
+        if (pending.isZero()) throw new Error("No rewards to harvest");
+
+        return this.sendTransaction(farm, 'harvest', [], txOptions);
+    }
+
+    // Restakes pending rewards. Farms paying rewards in their staking token do it in
+    // one call; otherwise the rewards are harvested, swapped and staked in turn, and
+    // the stake transaction is returned.
+    async compoundFarm(farmAddress: string, slippageTolerance: number = 0.5, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        farmAddress = await this.resolveAddress(farmAddress);
+
+        const farm = new Contract(farmAddress, FARM_ABI, this.signer);
+        const position = await this.farms.getPosition(farmAddress, await this.signer.getAddress());
+        if (position.pendingRewards.raw.isZero()) throw new Error("No rewards to compound");
+
+        if (position.rewardToken === position.stakingToken) {
+            return this.sendTransaction(farm, 'compound', [], txOptions);
+        }
+
+        // Quote first so a missing route fails before anything is sent
+        const quote = await this.getSwapQuote(
+            position.rewardToken,
+            position.stakingToken,
+            position.pendingRewards.formatted,
+            'exactIn',
+            slippageTolerance
         );
+        // A gas limit or value is for one call, not all three
+        const { gasLimit, value, ...stepOptions } = txOptions;
+        const account = await this.signer.getAddress();
+        const stakingToken = new Contract(position.stakingToken, ['function balanceOf(address) view returns (uint256)'], this.provider);
+
+        const harvested = await (await this.sendTransaction(farm, 'harvest', [], stepOptions)).wait();
+        const balanceBefore: BigNumber = await stakingToken.balanceOf(account, { blockTag: harvested.blockNumber });
+        const swap = await (await this.executeSwap(quote, stepOptions)).wait();
+        // Stake what the swap actually returned, usually more than its minimum
+        const balanceAfter: BigNumber = await stakingToken.balanceOf(account, { blockTag: swap.blockNumber });
+        const swapped = balanceAfter.sub(balanceBefore);
+        return this.sendTransaction(farm, 'stake', [swapped, 0], stepOptions, [
+            { token: position.stakingToken, spender: farmAddress, amount: swapped }
+        ]);
+    }
 
-        return tx;
+    async getFarmPosition(farmAddress: string, account: string): Promise<FarmPosition> {
+        [farmAddress, account] = await this.resolveAddresses(farmAddress, account);
+        return this.farms.getPosition(farmAddress, account);
     }
 
-    // Flash Loans
-    async executeFlashLoan(
-        lendingPoolAddress: string,
-        asset: string,
-        amount: string,
-        params: any
-    ) {
+    async getFarmPositions(farmAddresses: string[], account: string): Promise<FarmPosition[]> {
+        return Promise.all(farmAddresses.map(farm => this.getFarmPosition(farm, account)));
+    }
+
+    async estimateFarmCompound(
+        farmAddress: string,
+        options: CompoundEstimateOptions = {}
+    ): Promise<CompoundEstimate> {
         if (!this.signer) throw new Error("Not connected");
+        farmAddress = await this.resolveAddress(farmAddress);
+
+        const position = await this.farms.getPosition(farmAddress, await this.signer.getAddress());
+        return this.farms.estimateCompound(position, options);
+    }
 
-        const lendingPool = new Contract(
+    // Not started; call start() on the result, and stop() before disconnecting
+    createAutoCompounder(farmAddresses: string[], options: AutoCompoundOptions = {}): AutoCompounder {
+        return new AutoCompounder(this, farmAddresses, options);
+    }
+
+    // Flash Loans
+    createFlashLoan(lendingPoolAddress: string, receiverAddress: string): FlashLoanBuilder {
+        return new FlashLoanBuilder(
+            this.provider,
+            this.tokens,
             lendingPoolAddress,
-            ['function flashLoan(address,uint256,bytes) returns (bool)'],
-            this.signer
+            receiverAddress,
+            getEnvironmentConfig().contracts.uniswapRouter
         );
+    }
 
-        const tx = await lendingPool.flashLoan(
-            asset,
-            utils.parseEther(amount),
-            utils.defaultAbiCoder.encode(['bytes'], [params]),
-            {
-                gasLimit: 500000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
+    async previewFlashLoan(builder: FlashLoanBuilder): Promise<FlashLoanPlan> {
+        if (!this.signer) throw new Error("Not connected");
+        return builder.build(await this.signer.getAddress());
+    }
+
+    async executeFlashLoan(builder: FlashLoanBuilder, txOptions: FlashLoanOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
 
-        return tx;
+        const { minProfit, ...writeOptions } = txOptions;
+        const plan = await builder.build(await this.signer.getAddress());
+        const minimum = minProfit ? await this.tokens.parseAmount(plan.asset, minProfit) : BigNumber.from(0);
+        assertProfitable(plan, minimum);
+
+        const lender = new Contract(plan.lendingPool, FLASH_LENDER_ABI, this.signer);
+
+        // The whole sequence is always dry-run first; on a fork the receiver's
+        // actual takings are checked as well as the quoted ones
+        return this.sendTransaction(lender, 'flashLoan', [plan.receiver, plan.asset, plan.amount, plan.data], {
+            ...writeOptions,
+            simulate: true,
+            onSimulated: async preview => {
+                if (preview.events) {
+                    const profit = simulatedProfit(plan, preview.events);
+                    if (profit.lt(minimum)) {
+                        throw new FlashLoanUnprofitableError(
+                            plan,
+                            `simulated profit ${await this.tokens.formatAmount(plan.asset, profit)} is below the minimum`
+                        );
+                    }
+                }
+                if (writeOptions.onSimulated) await writeOptions.onSimulated(preview);
+            }
+        });
     }
 
     // Options Trading
@@ -249,9 +1175,11 @@ export class DeFiService {
         optionsFactoryAddress: string,
         strikePrice: string,
         expiryTime: number,
-        isCall: boolean
+        isCall: boolean,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        optionsFactoryAddress = await this.resolveAddress(optionsFactoryAddress);
 
         const optionsFactory = new Contract(
             optionsFactoryAddress,
@@ -259,106 +1187,452 @@ export class DeFiService {
             this.signer
         );
 
-        const tx = await optionsFactory.createOption(
+        // Strike is a 1e18 fixed-point price
+        return this.sendTransaction(optionsFactory, 'createOption', [
             utils.parseEther(strikePrice),
             expiryTime,
-            isCall,
-            {
-                gasLimit: 400000,
-                gasPrice: await this.provider.getGasPrice()
-            }
+            isCall
+        ], txOptions);
+    }
+
+    // Fair value and greeks for prospective terms; volatility defaults to the
+    // underlying's realised oracle volatility
+    async quoteOption(
+        underlying: string,
+        strikePrice: string,
+        expiryTime: number,
+        isCall: boolean,
+        volatility?: number
+    ): Promise<OptionQuote> {
+        underlying = await this.resolveAddress(underlying);
+        return this.options.quote(
+            { underlying, strike: Number(strikePrice), expiry: expiryTime, isCall },
+            volatility
         );
+    }
+
+    async getOptionQuote(optionAddress: string, volatility?: number): Promise<OptionQuote> {
+        optionAddress = await this.resolveAddress(optionAddress);
+        return this.options.quote(await this.options.getTerms(optionAddress), volatility);
+    }
 
-        return tx;
+    async getOptionPosition(optionAddress: string, account: string): Promise<OptionPosition> {
+        [optionAddress, account] = await this.resolveAddresses(optionAddress, account);
+        return this.options.getPosition(optionAddress, account);
+    }
+
+    async exerciseOption(
+        optionAddress: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        optionAddress = await this.resolveAddress(optionAddress);
+
+        const position = await this.options.getPosition(optionAddress, await this.signer.getAddress());
+        if (position.expired) throw new Error("Option has expired; settle it instead");
+        if (Number(amount) > position.held) throw new Error("Amount exceeds options held");
+        if (position.quote.intrinsicValue === 0) throw new Error("Option is out of the money");
+
+        const option = new Contract(optionAddress, OPTION_ABI, this.signer);
+        return this.sendTransaction(option, 'exercise', [utils.parseEther(amount)], txOptions);
+    }
+
+    // Fixes the settlement price once expired so holders and writers can claim
+    async settleOption(optionAddress: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        optionAddress = await this.resolveAddress(optionAddress);
+
+        const position = await this.options.getPosition(optionAddress, await this.signer.getAddress());
+        if (!position.expired) throw new Error("Option has not expired");
+        if (position.settled) throw new Error("Option is already settled");
+
+        const option = new Contract(optionAddress, OPTION_ABI, this.signer);
+        return this.sendTransaction(option, 'settle', [], txOptions);
     }
 
     // Synthetic Assets
     async mintSynthetic(
         synthetixAddress: string,
         currencyKey: string,
-        amount: string
+        amount: string,
+        txOptions: SyntheticOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        synthetixAddress = await this.resolveAddress(synthetixAddress);
+
+        const { targetCollateralRatio, enforceTarget, ...writeOptions } = txOptions;
+        const key = toCurrencyKey(currencyKey);
+        const synthetix = new Contract(synthetixAddress, SYNTHETIX_ABI, this.signer);
+
+        if (enforceTarget) {
+            const preview = await this.previewMintSynthetic(
+                synthetixAddress,
+                await this.signer.getAddress(),
+                currencyKey,
+                amount,
+                targetCollateralRatio
+            );
+            if (preview.warning) throw new CollateralRatioError(preview.projectedRatio, preview.targetRatio);
+        }
 
-        const synthetix = new Contract(
-            synthetixAddress,
-            ['function issueSynths(bytes32,uint256) returns (bool)'],
-            this.signer
-        );
+        // Synths are always 18-decimal tokens
+        return this.sendTransaction(synthetix, 'issueSynths', [
+            key,
+            utils.parseEther(amount)
+        ], writeOptions);
+    }
 
-        const tx = await synthetix.issueSynths(
-            utils.formatBytes32String(currencyKey),
-            utils.parseEther(amount),
-            {
-                gasLimit: 300000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
+    // Collateralization ratio after a mint, with a warning to show before minting under target
+    async previewMintSynthetic(
+        synthetixAddress: string,
+        account: string,
+        currencyKey: string,
+        amount: string,
+        targetCollateralRatio?: number
+    ): Promise<SynthMintPreview> {
+        [synthetixAddress, account] = await this.resolveAddresses(synthetixAddress, account);
+        const synthetix = new Contract(synthetixAddress, SYNTHETIX_ABI, this.provider);
+
+        const [snapshot, mintValue] = await Promise.all([
+            this.getSynthDebtSnapshot(synthetixAddress, account, targetCollateralRatio),
+            this.getSynthValue(synthetix, currencyKey, Number(amount))
+        ]);
+        const projectedRatio = snapshot.collateralValue / (snapshot.debt + mintValue);
+        return {
+            projectedRatio,
+            targetRatio: snapshot.targetRatio,
+            warning: projectedRatio < snapshot.targetRatio
+                ? collateralRatioWarning(projectedRatio, snapshot.targetRatio)
+                : undefined
+        };
+    }
+
+    async burnSynthetic(
+        synthetixAddress: string,
+        currencyKey: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        synthetixAddress = await this.resolveAddress(synthetixAddress);
+
+        const key = toCurrencyKey(currencyKey);
+        const synthetix = new Contract(synthetixAddress, SYNTHETIX_ABI, this.signer);
+        const synth = new Contract(await synthetix.synths(key), ['function balanceOf(address) view returns (uint256)'], this.provider);
+        const burnAmount = utils.parseEther(amount);
+        if (burnAmount.gt(await synth.balanceOf(await this.signer.getAddress()))) {
+            throw new Error(`Amount exceeds ${currencyKey} balance`);
+        }
+
+        return this.sendTransaction(synthetix, 'burnSynths', [key, burnAmount], txOptions);
+    }
+
+    async claimSynthFees(synthetixAddress: string, txOptions: WriteOptions = {}) {
+        if (!this.signer) throw new Error("Not connected");
+        synthetixAddress = await this.resolveAddress(synthetixAddress);
+
+        const synthetix = new Contract(synthetixAddress, SYNTHETIX_ABI, this.provider);
+        const feePool = new Contract(await synthetix.feePool(), FEE_POOL_ABI, this.signer);
+        return this.sendTransaction(feePool, 'claimFees', [], txOptions);
+    }
+
+    async getSynthDebtSnapshot(
+        synthetixAddress: string,
+        account: string,
+        targetCollateralRatio: number = defiConfig.synthetics.targetCollateralRatio
+    ): Promise<SynthDebtSnapshot> {
+        [synthetixAddress, account] = await this.resolveAddresses(synthetixAddress, account);
+        const synthetix = new Contract(synthetixAddress, SYNTHETIX_ABI, this.provider);
+        const debtKey = toCurrencyKey(defiConfig.synthetics.debtCurrency);
+
+        const [collateralToken, collateralRaw, debt, totalDebt, feePoolAddress] = await Promise.all([
+            synthetix.collateralToken(),
+            synthetix.collateralOf(account),
+            synthetix.debtBalanceOf(account, debtKey),
+            synthetix.totalIssuedSynths(debtKey),
+            synthetix.feePool()
+        ]);
+        const feePool = new Contract(feePoolAddress, FEE_POOL_ABI, this.provider);
+
+        const [collateral, price, [fees, rewards]] = await Promise.all([
+            this.tokens.toTokenAmount(collateralToken, collateralRaw),
+            this.analytics.getCurrentPrice(collateralToken),
+            feePool.feesAvailable(account)
+        ]);
+
+        const collateralValue = Number(collateral.formatted) * price;
+        const debtValue = Number(utils.formatEther(debt));
+
+        return {
+            account,
+            collateral,
+            collateralValue,
+            debt: debtValue,
+            debtShare: totalDebt.isZero() ? 0 : debtValue / Number(utils.formatEther(totalDebt)),
+            collateralRatio: debtValue > 0 ? collateralValue / debtValue : Infinity,
+            targetRatio: targetCollateralRatio,
+            issuable: Math.max(collateralValue / targetCollateralRatio - debtValue, 0),
+            claimableFees: Number(utils.formatEther(fees)),
+            claimableRewards: await this.tokens.toTokenAmount(collateralToken, rewards)
+        };
+    }
 
-        return tx;
+    // Value in the debt currency, priced by the oracle against the synth's token
+    private async getSynthValue(synthetix: Contract, currencyKey: string, amount: number): Promise<number> {
+        if (currencyKey === defiConfig.synthetics.debtCurrency) return amount;
+        const synth: string = await synthetix.synths(toCurrencyKey(currencyKey));
+        return amount * await this.analytics.getCurrentPrice(synth);
     }
 
     // Lending & Borrowing
     async supplyCollateral(
         marketAddress: string,
         asset: string,
-        amount: string
+        amount: string,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        [marketAddress, asset] = await this.resolveAddresses(marketAddress, asset);
 
-        const market = new Contract(
-            marketAddress,
-            ['function supply(address,uint256) returns (bool)'],
-            this.signer
-        );
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.signer);
+        const supplyAmount = await this.tokens.parseAmount(asset, amount);
+
+        return this.sendTransaction(market, 'supply', [asset, supplyAmount], txOptions, [
+            { token: asset, spender: marketAddress, amount: supplyAmount }
+        ]);
+    }
+
+    async borrow(
+        marketAddress: string,
+        asset: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        [marketAddress, asset] = await this.resolveAddresses(marketAddress, asset);
+
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.signer);
+        const [position, borrowAmount, price] = await Promise.all([
+            this.getLendingPosition(marketAddress, await this.signer.getAddress()),
+            this.tokens.parseAmount(asset, amount),
+            this.analytics.getCurrentPrice(asset)
+        ]);
+
+        if (position.debtValue + Number(amount) * price > position.borrowCapacity) {
+            throw new Error("Borrow would exceed the collateral's borrowing capacity");
+        }
+
+        return this.sendTransaction(market, 'borrow', [asset, borrowAmount], txOptions);
+    }
+
+    // Repays the full outstanding debt in the asset unless an amount is given
+    async repay(
+        marketAddress: string,
+        asset: string,
+        amount?: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        [marketAddress, asset] = await this.resolveAddresses(marketAddress, asset);
+
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.signer);
+        let repayAmount: BigNumber;
+        if (amount) {
+            repayAmount = await this.tokens.parseAmount(asset, amount);
+        } else {
+            const position = await this.getLendingPosition(marketAddress, await this.signer.getAddress());
+            const debt = position.debt.find(d => d.amount.token === utils.getAddress(asset));
+            if (!debt || debt.amount.raw.isZero()) throw new Error("No outstanding debt");
+            repayAmount = debt.amount.raw;
+        }
+
+        return this.sendTransaction(market, 'repay', [asset, repayAmount], txOptions, [
+            { token: asset, spender: marketAddress, amount: repayAmount }
+        ]);
+    }
+
+    async withdrawCollateral(
+        marketAddress: string,
+        asset: string,
+        amount: string,
+        txOptions: WriteOptions = {}
+    ) {
+        if (!this.signer) throw new Error("Not connected");
+        [marketAddress, asset] = await this.resolveAddresses(marketAddress, asset);
+
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.signer);
+        const position = await this.getLendingPosition(marketAddress, await this.signer.getAddress());
+        const withdrawAmount = await this.tokens.parseAmount(asset, amount);
+        const supplied = position.collateral.find(c => c.amount.token === utils.getAddress(asset));
+        if (!supplied || withdrawAmount.gt(supplied.amount.raw)) {
+            throw new Error("Amount exceeds supplied balance");
+        }
+
+        // Remaining collateral must still cover the debt at its max LTV
+        const withdrawnValue = supplied.value * Number(amount) / Number(supplied.amount.formatted);
+        if (position.borrowCapacity - withdrawnValue * supplied.maxLTV < position.debtValue) {
+            throw new Error("Withdrawal would leave the position undercollateralised");
+        }
 
-        const tx = await market.supply(
+        return this.sendTransaction(market, 'withdraw', [asset, withdrawAmount], txOptions);
+    }
+
+    async getLendingPosition(marketAddress: string, account: string): Promise<LendingPosition> {
+        [marketAddress, account] = await this.resolveAddresses(marketAddress, account);
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.provider);
+        const [assets, supplied, borrowed] = await market.getAccountBalances(account);
+
+        const rates = await Promise.all((assets as string[]).map((asset, i) =>
+            borrowed[i].isZero() ? 0 : this.getMarketRates(market, asset).then(r => r.borrowRate)
+        ));
+        const [collateral, debt] = await Promise.all([
+            Promise.all((assets as string[]).map((asset, i) => this.getCollateralBalance(asset, supplied[i]))),
+            Promise.all((assets as string[]).map((asset, i) => this.getDebtBalance(asset, borrowed[i], rates[i])))
+        ]);
+
+        const held = collateral.filter(c => !c.amount.raw.isZero());
+        const owed = debt.filter(d => !d.amount.raw.isZero());
+        const debtValue = owed.reduce((sum, d) => sum + d.value, 0);
+        const capacity = borrowCapacity(held);
+
+        return {
+            market: marketAddress,
+            account,
+            collateral: held,
+            debt: owed,
+            collateralValue: held.reduce((sum, c) => sum + c.value, 0),
+            debtValue,
+            borrowCapacity: capacity,
+            availableToBorrow: Math.max(capacity - debtValue, 0),
+            healthFactor: healthFactor(held, debtValue)
+        };
+    }
+
+    // Interest on an amount of the asset over the period, at the market's current utilization
+    async projectInterest(
+        marketAddress: string,
+        asset: string,
+        amount: string,
+        days: number
+    ): Promise<InterestProjection> {
+        [marketAddress, asset] = await this.resolveAddresses(marketAddress, asset);
+        const market = new Contract(marketAddress, LENDING_MARKET_ABI, this.provider);
+        const rates = await this.getMarketRates(market, asset);
+        const principal = Number(amount);
+        const seconds = days * 24 * 3600;
+
+        return {
             asset,
-            utils.parseEther(amount),
-            {
-                gasLimit: 250000,
-                gasPrice: await this.provider.getGasPrice()
-            }
+            principal,
+            days,
+            ...rates,
+            borrowInterest: accruedInterest(principal, rates.borrowRate, seconds),
+            supplyInterest: accruedInterest(principal, rates.supplyRate, seconds)
+        };
+    }
+
+    private async getMarketRates(market: Contract, asset: string) {
+        const [totalSupplied, totalBorrowed] = await Promise.all([
+            market.totalSupplied(asset),
+            market.totalBorrowed(asset)
+        ]);
+        const model: InterestRateModel = defiConfig.marginPools.interestRateModel;
+        const utilization = utilizationRate(
+            Number(await this.tokens.formatAmount(asset, totalBorrowed)),
+            Number(await this.tokens.formatAmount(asset, totalSupplied))
         );
 
-        return tx;
+        return {
+            utilization,
+            borrowRate: borrowRate(model, utilization),
+            supplyRate: supplyRate(model, utilization)
+        };
+    }
+
+    private async getCollateralBalance(token: string, raw: BigNumber): Promise<CollateralBalance> {
+        const [amount, price] = await Promise.all([
+            this.tokens.toTokenAmount(token, raw),
+            raw.isZero() ? 0 : this.analytics.getCurrentPrice(token)
+        ]);
+        const params = this.getCollateralParams(token, amount.symbol);
+
+        return {
+            amount,
+            value: Number(amount.formatted) * price,
+            maxLTV: params.maxLTV,
+            liquidationThreshold: params.liquidationThreshold
+        };
+    }
+
+    private async getDebtBalance(token: string, raw: BigNumber, rate: number): Promise<DebtBalance> {
+        const [amount, price] = await Promise.all([
+            this.tokens.toTokenAmount(token, raw),
+            raw.isZero() ? 0 : this.analytics.getCurrentPrice(token)
+        ]);
+        return { amount, value: Number(amount.formatted) * price, borrowRate: rate };
+    }
+
+    // Matched by address, or by symbol while the config still holds placeholder addresses.
+    // Assets that aren't listed count for nothing towards borrowing power.
+    private getCollateralParams(token: string, symbol: string): { maxLTV: number; liquidationThreshold: number } {
+        const entry = defiConfig.marginPools.supportedCollateral.find(c =>
+            utils.isAddress(c.token) ? utils.getAddress(c.token) === utils.getAddress(token) : c.name === symbol
+        );
+        return entry
+            ? { maxLTV: entry.maxLTV, liquidationThreshold: entry.liquidationThreshold }
+            : { maxLTV: 0, liquidationThreshold: 0 };
     }
 
     // Portfolio Management
     async rebalancePortfolio(
         portfolioAddress: string,
-        allocations: { token: string; percentage: number }[]
+        allocations: Allocation[],
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        validateAllocations(allocations);
+        portfolioAddress = await this.resolveAddress(portfolioAddress);
+        allocations = await this.resolveAllocations(allocations);
 
-        const portfolio = new Contract(
-            portfolioAddress,
-            ['function rebalance(address[],uint256[]) returns (bool)'],
-            this.signer
-        );
+        const portfolio = new Contract(portfolioAddress, PORTFOLIO_ABI, this.signer);
 
         const tokens = allocations.map(a => a.token);
-        const percentages = allocations.map(a => a.percentage * 100);
+        const percentages = toBasisPoints(allocations.map(a => a.percentage / 100));
 
-        const tx = await portfolio.rebalance(
+        return this.sendTransaction(portfolio, 'rebalance', [
             tokens,
-            percentages,
-            {
-                gasLimit: 1000000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
+            percentages
+        ], txOptions);
+    }
+
+    // Reads the portfolio's holdings and works out the swaps needed to reach the
+    // target allocation, without sending anything
+    async planRebalance(
+        portfolioAddress: string,
+        allocations: Allocation[],
+        options: RebalanceOptions = {}
+    ): Promise<RebalancePlan> {
+        portfolioAddress = await this.resolveAddress(portfolioAddress);
+        allocations = await this.resolveAllocations(allocations);
+        const account = this.signer ? await this.signer.getAddress() : undefined;
+        return this.rebalancer.plan(portfolioAddress, allocations, account, options);
+    }
 
-        return tx;
+    async executeRebalancePlan(plan: RebalancePlan, txOptions: WriteOptions = {}) {
+        if (!plan.needsRebalance) throw new Error("Portfolio is already within its drift threshold");
+        return this.rebalancePortfolio(plan.portfolio, plan.allocations, txOptions);
     }
 
     // Risk Management
     async setStopLoss(
         positionAddress: string,
         stopPrice: string,
-        limitPrice: string
+        limitPrice: string,
+        txOptions: WriteOptions = {}
     ) {
         if (!this.signer) throw new Error("Not connected");
+        positionAddress = await this.resolveAddress(positionAddress);
 
         const position = new Contract(
             positionAddress,
@@ -366,69 +1640,18 @@ export class DeFiService {
             this.signer
         );
 
-        const tx = await position.setStopLoss(
+        // Trigger prices are 1e18 fixed-point
+        return this.sendTransaction(position, 'setStopLoss', [
             utils.parseEther(stopPrice),
-            utils.parseEther(limitPrice),
-            {
-                gasLimit: 200000,
-                gasPrice: await this.provider.getGasPrice()
-            }
-        );
-
-        return tx;
+            utils.parseEther(limitPrice)
+        ], txOptions);
     }
 
     // Analytics
-    async getPortfolioMetrics(address: string) {
-        const metrics = {
-            totalValue: '0',
-            pnl: '0',
-            apy: '0',
-            risk: '0'
-        };
-
-        try {
-            const [
-                totalValue,
-                pnl,
-                apy,
-                risk
-            ] = await Promise.all([
-                this.getTotalValue(address),
-                this.getPnL(address),
-                this.getAPY(address),
-                this.getRiskMetrics(address)
-            ]);
-
-            metrics.totalValue = totalValue;
-            metrics.pnl = pnl;
-            metrics.apy = apy;
-            metrics.risk = risk;
-        } catch (error) {
-            console.error('Error fetching portfolio metrics:', error);
-        }
-
-        return metrics;
-    }
-
-    private async getTotalValue(address: string): Promise<string> {
-        // Implementation
-        return '0';
-    }
-
-    private async getPnL(address: string): Promise<string> {
-        // Implementation
-        return '0';
-    }
-
-    private async getAPY(address: string): Promise<string> {
-        // Implementation
-        return '0';
-    }
-
-    private async getRiskMetrics(address: string): Promise<string> {
-        // Implementation
-        return '0';
+    async getPortfolioMetrics(address: string, lookbackDays?: number): Promise<PortfolioMetricsSummary> {
+        address = await this.resolveAddress(address);
+        const { totalValue, pnl, apy, risk } = await this.getAdvancedPortfolioMetrics(address, lookbackDays);
+        return { totalValue, pnl, apy, risk };
     }
 }
 
@@ -0,0 +1,199 @@
+import { providers, Contract, utils, BigNumber, BigNumberish } from 'ethers';
+import { TokenRegistry, TokenAmount, NATIVE_TOKEN } from './TokenRegistry';
+import { PortfolioAnalytics } from './PortfolioAnalytics';
+import { FeeStrategy, FeeSpeed } from './FeeStrategy';
+import {
+    rewardApr,
+    lockRemaining,
+    isCompoundProfitable,
+    optimalCompoundInterval
+} from '../utils/farmMath';
+
+export interface FarmPosition {
+    farm: string;
+    account: string;
+    stakingToken: string;
+    rewardToken: string;
+    staked: TokenAmount;
+    pendingRewards: TokenAmount;
+    totalStaked: TokenAmount;
+    rewardRate: TokenAmount; // emitted per second to the whole farm
+    emissionsEnd: number; // unix seconds, 0 when open-ended
+    lockedUntil: number; // unix seconds, 0 when never locked
+    lockRemaining: number; // seconds
+    // Oracle-priced figures; absent when either token has no price
+    stakedValue?: number;
+    pendingValue?: number;
+    rewardApr?: number; // fraction per year, before compounding
+}
+
+export interface CompoundEstimate {
+    farm: string;
+    method: 'compound' | 'harvest'; // harvest when rewards must be swapped before restaking
+    pendingValue?: number;
+    gasEstimate: BigNumber; // every transaction of the compound, not just the first
+    gasCost: TokenAmount;
+    gasCostValue?: number;
+    profitable: boolean;
+    suggestedInterval?: number; // seconds between compounds that maximises net yield
+}
+
+export interface CompoundEstimateOptions {
+    speed?: FeeSpeed;
+    minRewardToGasRatio?: number; // rewards must be worth this many times the gas
+    swapAndStakeGas?: BigNumberish; // replaces SWAP_AND_STAKE_GAS for the steps after a harvest
+}
+
+export class FarmLockedError extends Error {
+    farm: string;
+    lockedUntil: number;
+
+    constructor(farm: string, lockedUntil: number) {
+        super(`Stake in ${farm} is locked until ${new Date(lockedUntil * 1000).toISOString()}`);
+        this.name = 'FarmLockedError';
+        this.farm = farm;
+        this.lockedUntil = lockedUntil;
+    }
+}
+
+export const FARM_ABI = [
+    'function stake(uint256 amount, uint256 lockPeriod) returns (bool)',
+    'function unstake(uint256 amount) returns (bool)',
+    'function harvest() returns (uint256)',
+    'function compound() returns (uint256)',
+    'function stakingToken() view returns (address)',
+    'function rewardToken() view returns (address)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function earned(address account) view returns (uint256)',
+    'function lockedUntil(address account) view returns (uint256)',
+    'function totalSupply() view returns (uint256)',
+    'function rewardRate() view returns (uint256)',
+    'function periodFinish() view returns (uint256)'
+];
+
+// Gas for what follows a harvest when rewards are swapped before restaking: approving
+// the router, the swap, approving the farm and the stake. None of it can be estimated
+// before the harvest has paid out, so typical costs are assumed.
+export const SWAP_AND_STAKE_GAS = 50000 + 180000 + 50000 + 120000;
+
+export class FarmManager {
+    private provider: providers.Provider;
+    private tokens: TokenRegistry;
+    private analytics: PortfolioAnalytics;
+    private feeStrategy: FeeStrategy;
+
+    constructor(
+        provider: providers.Provider,
+        tokens: TokenRegistry,
+        analytics: PortfolioAnalytics,
+        feeStrategy: FeeStrategy
+    ) {
+        this.provider = provider;
+        this.tokens = tokens;
+        this.analytics = analytics;
+        this.feeStrategy = feeStrategy;
+    }
+
+    getContract(farmAddress: string): Contract {
+        return new Contract(farmAddress, FARM_ABI, this.provider);
+    }
+
+    async getPosition(farmAddress: string, account: string): Promise<FarmPosition> {
+        const farm = this.getContract(farmAddress);
+        const [stakingToken, rewardToken, staked, pending, totalStaked, rewardRate, emissionsEnd, lockedUntil] =
+            await Promise.all([
+                farm.stakingToken().then(utils.getAddress),
+                farm.rewardToken().then(utils.getAddress),
+                farm.balanceOf(account),
+                farm.earned(account),
+                farm.totalSupply(),
+                farm.rewardRate(),
+                // Farms without a fixed emission period don't have periodFinish
+                farm.periodFinish().catch(() => BigNumber.from(0)),
+                farm.lockedUntil(account)
+            ]);
+
+        const position: FarmPosition = {
+            farm: farmAddress,
+            account,
+            stakingToken,
+            rewardToken,
+            staked: await this.tokens.toTokenAmount(stakingToken, staked),
+            pendingRewards: await this.tokens.toTokenAmount(rewardToken, pending),
+            totalStaked: await this.tokens.toTokenAmount(stakingToken, totalStaked),
+            rewardRate: await this.tokens.toTokenAmount(rewardToken, rewardRate),
+            emissionsEnd: emissionsEnd.toNumber(),
+            lockedUntil: lockedUntil.toNumber(),
+            lockRemaining: lockRemaining(lockedUntil.toNumber())
+        };
+
+        try {
+            const [stakingPrice, rewardPrice] = await Promise.all([
+                this.analytics.getCurrentPrice(stakingToken),
+                this.analytics.getCurrentPrice(rewardToken)
+            ]);
+            position.stakedValue = Number(position.staked.formatted) * stakingPrice;
+            position.pendingValue = Number(position.pendingRewards.formatted) * rewardPrice;
+            position.rewardApr = rewardApr({
+                rewardRate: Number(position.rewardRate.formatted),
+                rewardPrice,
+                totalStaked: Number(position.totalStaked.formatted),
+                stakingPrice,
+                periodFinish: position.emissionsEnd
+            });
+        } catch {
+            // LP and other staking tokens often have no oracle price; amounts are still useful
+        }
+        return position;
+    }
+
+    // Gas for restaking the account's rewards against what they are worth
+    async estimateCompound(
+        position: FarmPosition,
+        options: CompoundEstimateOptions = {}
+    ): Promise<CompoundEstimate> {
+        const farm = this.getContract(position.farm);
+        const method = position.rewardToken === position.stakingToken ? 'compound' : 'harvest';
+        const [methodGas, feeData] = await Promise.all([
+            this.feeStrategy.estimateGasLimit(farm, method, [], { from: position.account }),
+            this.feeStrategy.getFeeData(options.speed)
+        ]);
+        const gasEstimate = method === 'harvest'
+            ? methodGas.add(options.swapAndStakeGas ?? SWAP_AND_STAKE_GAS)
+            : methodGas;
+        const gasCost = await this.tokens.toTokenAmount(
+            NATIVE_TOKEN,
+            gasEstimate.mul(feeData.maxFeePerGas || feeData.gasPrice!)
+        );
+
+        const estimate: CompoundEstimate = {
+            farm: position.farm,
+            method,
+            pendingValue: position.pendingValue,
+            gasEstimate,
+            gasCost,
+            profitable: false
+        };
+
+        try {
+            estimate.gasCostValue = Number(gasCost.formatted) * await this.analytics.getCurrentPrice(NATIVE_TOKEN);
+        } catch {
+            return estimate; // without a gas price in quote currency there is nothing to compare
+        }
+        if (position.pendingValue !== undefined) {
+            estimate.profitable = isCompoundProfitable(
+                position.pendingValue,
+                estimate.gasCostValue,
+                options.minRewardToGasRatio
+            );
+        }
+        if (position.stakedValue !== undefined && position.rewardApr !== undefined) {
+            estimate.suggestedInterval = optimalCompoundInterval(
+                position.stakedValue,
+                position.rewardApr,
+                estimate.gasCostValue
+            );
+        }
+        return estimate;
+    }
+}
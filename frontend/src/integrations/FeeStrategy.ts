@@ -0,0 +1,183 @@
+import { providers, Contract, utils, BigNumber, BigNumberish } from 'ethers';
+
+export type FeeSpeed = 'slow' | 'standard' | 'fast';
+
+export interface TxOptions {
+    speed?: FeeSpeed;
+    gasLimit?: BigNumberish;
+    gasMargin?: number; // percent added on top of the estimate
+    maxFeePerGas?: BigNumberish;
+    maxPriorityFeePerGas?: BigNumberish;
+    maxGasPrice?: BigNumberish; // per-call replacement for the configured cap
+    value?: BigNumberish;
+}
+
+export interface FeeStrategyConfig {
+    maxGasPrice?: BigNumberish;
+    gasMargin: number;
+    historyBlocks: number;
+    minPriorityFeePerGas: BigNumberish;
+}
+
+export interface FeeData {
+    type: 0 | 2;
+    gasPrice?: BigNumber;
+    maxFeePerGas?: BigNumber;
+    maxPriorityFeePerGas?: BigNumber;
+}
+
+export interface TransactionOverrides extends FeeData {
+    gasLimit: BigNumber;
+    value?: BigNumber;
+}
+
+const DEFAULT_CONFIG: FeeStrategyConfig = {
+    gasMargin: 20,
+    historyBlocks: 10,
+    minPriorityFeePerGas: utils.parseUnits('1', 'gwei')
+};
+
+// Reward percentile requested from eth_feeHistory for each tier
+const SPEED_PERCENTILES: Record<FeeSpeed, number> = {
+    slow: 10,
+    standard: 50,
+    fast: 90
+};
+
+// Headroom over the next block's base fee, in percent. The base fee can rise
+// 12.5% per full block, so fast leaves room for roughly six full blocks.
+const BASE_FEE_HEADROOM: Record<FeeSpeed, number> = {
+    slow: 113,
+    standard: 150,
+    fast: 200
+};
+
+export class FeeStrategy {
+    private provider: providers.JsonRpcProvider;
+    private config: FeeStrategyConfig;
+
+    constructor(provider: providers.JsonRpcProvider, config: Partial<FeeStrategyConfig> = {}) {
+        this.provider = provider;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    async getFeeData(speed: FeeSpeed = 'standard', maxGasPrice = this.config.maxGasPrice): Promise<FeeData> {
+        const percentiles = Object.values(SPEED_PERCENTILES);
+        let history: { baseFeePerGas?: string[]; reward?: string[][] };
+        try {
+            history = await this.provider.send('eth_feeHistory', [
+                utils.hexValue(this.config.historyBlocks),
+                'latest',
+                percentiles
+            ]);
+        } catch {
+            // Some nodes don't serve eth_feeHistory at all
+            return this.legacyFeeData(maxGasPrice);
+        }
+
+        const baseFees: string[] = history.baseFeePerGas || [];
+        if (baseFees.length === 0) {
+            // Pre-London chain
+            return this.legacyFeeData(maxGasPrice);
+        }
+
+        // The last entry is the base fee of the block after the newest one
+        const nextBaseFee = BigNumber.from(baseFees[baseFees.length - 1]);
+        const column = percentiles.indexOf(SPEED_PERCENTILES[speed]);
+        const rewards: BigNumber[] = (history.reward || [])
+            .map((row: string[]) => BigNumber.from(row[column]))
+            .sort((a: BigNumber, b: BigNumber) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+
+        let maxPriorityFeePerGas = rewards.length > 0
+            ? rewards[Math.floor(rewards.length / 2)]
+            : BigNumber.from(this.config.minPriorityFeePerGas);
+        if (maxPriorityFeePerGas.lt(this.config.minPriorityFeePerGas)) {
+            maxPriorityFeePerGas = BigNumber.from(this.config.minPriorityFeePerGas);
+        }
+
+        const maxFeePerGas = this.cap(
+            nextBaseFee.mul(BASE_FEE_HEADROOM[speed]).div(100).add(maxPriorityFeePerGas),
+            maxGasPrice,
+            nextBaseFee,
+            'base fee'
+        );
+
+        return {
+            type: 2,
+            maxFeePerGas,
+            maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas) ? maxFeePerGas : maxPriorityFeePerGas
+        };
+    }
+
+    async estimateGasLimit(
+        contract: Contract,
+        method: string,
+        args: any[],
+        overrides: { value?: BigNumberish; from?: string } = {},
+        gasMargin: number = this.config.gasMargin
+    ): Promise<BigNumber> {
+        const estimate: BigNumber = await contract.estimateGas[method](...args, overrides);
+        return estimate.mul(100 + gasMargin).div(100);
+    }
+
+    async buildOverrides(
+        contract: Contract,
+        method: string,
+        args: any[],
+        options: TxOptions = {}
+    ): Promise<TransactionOverrides> {
+        const maxGasPrice = options.maxGasPrice ?? this.config.maxGasPrice;
+        const value = options.value !== undefined ? BigNumber.from(options.value) : undefined;
+
+        const [gasLimit, feeData] = await Promise.all([
+            options.gasLimit !== undefined
+                ? BigNumber.from(options.gasLimit)
+                : this.estimateGasLimit(contract, method, args, value ? { value } : {}, options.gasMargin),
+            this.getFeeData(options.speed, maxGasPrice)
+        ]);
+
+        if (feeData.type === 0 && options.maxFeePerGas !== undefined) {
+            // No EIP-1559 on this chain: the fee cap is sent as a plain gas price
+            const gasPrice = BigNumber.from(options.maxFeePerGas);
+            if (maxGasPrice !== undefined && gasPrice.gt(maxGasPrice)) {
+                throw new Error(`maxFeePerGas ${gasPrice.toString()} exceeds configured maximum ${maxGasPrice.toString()}`);
+            }
+            return { type: 0, gasLimit, gasPrice, ...(value ? { value } : {}) };
+        }
+
+        if (feeData.type === 2 && (options.maxFeePerGas !== undefined || options.maxPriorityFeePerGas !== undefined)) {
+            const maxFeePerGas = BigNumber.from(options.maxFeePerGas ?? feeData.maxFeePerGas!);
+            if (maxGasPrice !== undefined && maxFeePerGas.gt(maxGasPrice)) {
+                throw new Error(`maxFeePerGas ${maxFeePerGas.toString()} exceeds configured maximum ${maxGasPrice.toString()}`);
+            }
+            const maxPriorityFeePerGas = BigNumber.from(
+                options.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas ?? maxFeePerGas
+            );
+            return {
+                type: 2,
+                gasLimit,
+                maxFeePerGas,
+                maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas) ? maxFeePerGas : maxPriorityFeePerGas,
+                ...(value ? { value } : {})
+            };
+        }
+
+        return { ...feeData, gasLimit, ...(value ? { value } : {}) };
+    }
+
+    // The legacy gas price, within the cap
+    private async legacyFeeData(maxGasPrice?: BigNumberish): Promise<FeeData> {
+        const gasPrice = await this.provider.getGasPrice();
+        return { type: 0, gasPrice: this.cap(gasPrice, maxGasPrice, gasPrice, 'gas price') };
+    }
+
+    // Clips the fee to the cap, but refuses a cap under the lowest fee that can still be
+    // included, since that transaction would never mine
+    private cap(fee: BigNumber, maxGasPrice: BigNumberish | undefined, minimum: BigNumber, label: string): BigNumber {
+        if (maxGasPrice === undefined) return fee;
+        if (minimum.gt(maxGasPrice)) {
+            throw new Error(`Current ${label} ${minimum.toString()} exceeds configured maximum ${maxGasPrice.toString()}`);
+        }
+        return fee.gt(maxGasPrice) ? BigNumber.from(maxGasPrice) : fee;
+    }
+}
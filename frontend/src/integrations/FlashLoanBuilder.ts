@@ -0,0 +1,343 @@
+import { providers, Contract, constants, utils, BigNumber } from 'ethers';
+import { TokenRegistry, TokenAmount } from './TokenRegistry';
+import { SimulatedEvent } from './TransactionSimulator';
+import { applySlippage, getAmountOut } from '../utils/ammMath';
+
+export interface SwapAction {
+    type: 'swap';
+    path: string[];
+    amountIn?: string; // defaults to the minimum output of the previous step
+    amountOutMin?: string; // defaults to the quote less the builder's slippage tolerance
+    router?: string;
+}
+
+export interface RepayDebtAction {
+    type: 'repayDebt';
+    market: string;
+    asset: string;
+    amount?: string; // defaults to the minimum output of the previous step
+}
+
+export interface SwapCollateralAction {
+    type: 'swapCollateral';
+    market: string;
+    fromAsset: string;
+    toAsset: string;
+    amount: string;
+    amountOutMin?: string;
+    router?: string;
+}
+
+export type FlashLoanAction = SwapAction | RepayDebtAction | SwapCollateralAction;
+
+// One step executed by the receiver contract, in order, before it repays the loan
+export interface ReceiverCall {
+    target: string;
+    value: BigNumber;
+    data: string;
+}
+
+export interface FlashLoanPlan {
+    lendingPool: string;
+    receiver: string;
+    asset: string;
+    amount: BigNumber;
+    fee: TokenAmount;
+    repayment: BigNumber;
+    calls: ReceiverCall[];
+    data: string; // encoded calls, passed to the lending pool for the receiver
+    balances: TokenAmount[]; // expected receiver balances once the loan is repaid
+    profit: TokenAmount;
+}
+
+export class FlashLoanUnprofitableError extends Error {
+    plan: FlashLoanPlan;
+
+    constructor(plan: FlashLoanPlan, reason: string) {
+        super(`Flash loan is not profitable: ${reason}`);
+        this.name = 'FlashLoanUnprofitableError';
+        this.plan = plan;
+    }
+}
+
+// Lending pools are ERC-3156 flash lenders: the pool calls onFlashLoan on the receiver named
+// in the loan, with the encoded calls as data. Pools with the older flashLoan(asset, amount,
+// params), which lent to the caller and quoted no fee, can't run a receiver's calls.
+export const FLASH_LENDER_ABI = [
+    'function flashLoan(address receiver, address token, uint256 amount, bytes data) returns (bool)',
+    'function flashFee(address token, uint256 amount) view returns (uint256)',
+    'function maxFlashLoan(address token) view returns (uint256)'
+];
+
+const RECEIVER_CALLS_TYPE = ['tuple(address target, uint256 value, bytes data)[]'];
+
+const erc20 = new utils.Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+
+const router = new utils.Interface([
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+    'function factory() view returns (address)'
+]);
+
+const factory = new utils.Interface(['function getPair(address tokenA, address tokenB) view returns (address pair)']);
+
+const pair = new utils.Interface([
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'function token0() view returns (address)'
+]);
+
+interface PairReserves {
+    token0: string;
+    reserve0: BigNumber;
+    reserve1: BigNumber;
+}
+
+// The receiver acts for the account, which must have authorised it with the market
+const market = new utils.Interface([
+    'function repayOnBehalf(address asset, uint256 amount, address account) returns (bool)',
+    'function withdrawOnBehalf(address asset, uint256 amount, address account) returns (bool)',
+    'function supplyOnBehalf(address asset, uint256 amount, address account) returns (bool)'
+]);
+
+const DEFAULT_SWAP_DEADLINE = 1200; // seconds
+
+export const encodeReceiverCalls = (calls: ReceiverCall[]): string =>
+    utils.defaultAbiCoder.encode(RECEIVER_CALLS_TYPE, [calls.map(c => [c.target, c.value, c.data])]);
+
+export const decodeReceiverCalls = (data: string): ReceiverCall[] =>
+    utils.defaultAbiCoder.decode(RECEIVER_CALLS_TYPE, data)[0].map((c: utils.Result) => ({
+        target: c.target,
+        value: c.value,
+        data: c.data
+    }));
+
+export class FlashLoanBuilder {
+    private provider: providers.Provider;
+    private tokens: TokenRegistry;
+    private lendingPool: string;
+    private receiver: string;
+    private defaultRouter?: string;
+    private slippageTolerance: number = 0.5;
+    private loan?: { asset: string; amount: string };
+    private actions: FlashLoanAction[] = [];
+
+    constructor(
+        provider: providers.Provider,
+        tokens: TokenRegistry,
+        lendingPool: string,
+        receiver: string,
+        defaultRouter?: string
+    ) {
+        this.provider = provider;
+        this.tokens = tokens;
+        this.lendingPool = lendingPool;
+        this.receiver = receiver;
+        this.defaultRouter = defaultRouter || undefined;
+    }
+
+    borrow(asset: string, amount: string): this {
+        this.loan = { asset, amount };
+        return this;
+    }
+
+    swap(action: Omit<SwapAction, 'type'>): this {
+        if (action.path.length < 2) throw new Error("Swap path needs at least two tokens");
+        this.actions.push({ type: 'swap', ...action });
+        return this;
+    }
+
+    repayDebt(action: Omit<RepayDebtAction, 'type'>): this {
+        this.actions.push({ type: 'repayDebt', ...action });
+        return this;
+    }
+
+    swapCollateral(action: Omit<SwapCollateralAction, 'type'>): this {
+        this.actions.push({ type: 'swapCollateral', ...action });
+        return this;
+    }
+
+    withSlippage(tolerance: number): this {
+        this.slippageTolerance = tolerance;
+        return this;
+    }
+
+    getActions(): FlashLoanAction[] {
+        return [...this.actions];
+    }
+
+    // Quotes every step, encodes the receiver calls and tallies what the receiver
+    // should be left holding, on behalf of the account that owns any positions
+    async build(account: string): Promise<FlashLoanPlan> {
+        if (!this.loan) throw new Error("No flash loan amount set");
+        if (this.actions.length === 0) throw new Error("Flash loan has no actions");
+
+        const asset = utils.getAddress(this.loan.asset);
+        const amount = await this.tokens.parseAmount(asset, this.loan.amount);
+        const lender = new Contract(this.lendingPool, FLASH_LENDER_ABI, this.provider);
+        const available: BigNumber = await lender.maxFlashLoan(asset).catch(() => {
+            throw new Error(`Lending pool ${this.lendingPool} is not an ERC-3156 flash lender`);
+        });
+        if (amount.gt(available)) {
+            const max = await this.tokens.toTokenAmount(asset, available);
+            throw new Error(`Lending pool can lend at most ${max.formatted} ${max.symbol}`);
+        }
+        const fee: BigNumber = await lender.flashFee(asset, amount);
+        const deadline = Math.floor(Date.now() / 1000) + DEFAULT_SWAP_DEADLINE;
+
+        const ledger = new Map<string, BigNumber>([[asset, amount]]);
+        const credit = (token: string, delta: BigNumber) => {
+            const key = utils.getAddress(token);
+            ledger.set(key, (ledger.get(key) || BigNumber.from(0)).add(delta));
+        };
+        const calls: ReceiverCall[] = [];
+        const call = (target: string, iface: utils.Interface, method: string, args: any[]) =>
+            calls.push({ target, value: BigNumber.from(0), data: iface.encodeFunctionData(method, args) });
+
+        // Output of the previous step that the next one may consume
+        let carried: { token: string; amount: BigNumber } = { token: asset, amount };
+        const amountOrCarried = async (token: string, value?: string): Promise<BigNumber> => {
+            if (value) return this.tokens.parseAmount(token, value);
+            if (utils.getAddress(carried.token) !== utils.getAddress(token)) {
+                throw new Error(`No amount given and the previous step does not produce ${token}`);
+            }
+            return carried.amount;
+        };
+
+        // Reserves as the steps so far leave them, so a pair used twice is quoted on what the
+        // first swap left behind, as it will be when the receiver runs the calls in turn
+        const reserves = new Map<string, PairReserves>();
+        const quoteSwap = async (routerAddress: string, path: string[], amountIn: BigNumber): Promise<BigNumber> => {
+            const factoryAddress: string = await new Contract(routerAddress, router, this.provider).factory();
+            const pairs = new Contract(factoryAddress, factory, this.provider);
+            let amount = amountIn;
+            for (let i = 0; i < path.length - 1; i++) {
+                const pairAddress: string = await pairs.getPair(path[i], path[i + 1]);
+                if (pairAddress === constants.AddressZero) throw new Error(`No pair for ${path[i]} and ${path[i + 1]}`);
+
+                let state = reserves.get(pairAddress);
+                if (!state) {
+                    const contract = new Contract(pairAddress, pair, this.provider);
+                    const [[reserve0, reserve1], token0] = await Promise.all([contract.getReserves(), contract.token0()]);
+                    state = { token0: utils.getAddress(token0), reserve0, reserve1 };
+                    reserves.set(pairAddress, state);
+                }
+                const zeroForOne = state.token0 === utils.getAddress(path[i]);
+                const [reserveIn, reserveOut] = zeroForOne ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0];
+                const amountOut = getAmountOut(amount, reserveIn, reserveOut);
+                if (zeroForOne) {
+                    state.reserve0 = reserveIn.add(amount);
+                    state.reserve1 = reserveOut.sub(amountOut);
+                } else {
+                    state.reserve1 = reserveIn.add(amount);
+                    state.reserve0 = reserveOut.sub(amountOut);
+                }
+                amount = amountOut;
+            }
+            return amount;
+        };
+
+        const addSwap = async (
+            routerAddress: string | undefined,
+            path: string[],
+            amountIn: BigNumber,
+            amountOutMin?: string
+        ): Promise<BigNumber> => {
+            const target = routerAddress || this.defaultRouter;
+            if (!target) throw new Error("No router configured for swap");
+
+            const tokenOut = path[path.length - 1];
+            const quoted = await quoteSwap(target, path, amountIn);
+            const minOut = amountOutMin
+                ? await this.tokens.parseAmount(tokenOut, amountOutMin)
+                : applySlippage(quoted, this.slippageTolerance);
+
+            call(path[0], erc20, 'approve', [target, amountIn]);
+            call(target, router, 'swapExactTokensForTokens', [amountIn, minOut, path, this.receiver, deadline]);
+            credit(path[0], amountIn.mul(-1));
+            credit(tokenOut, quoted);
+            return minOut;
+        };
+
+        for (const action of this.actions) {
+            switch (action.type) {
+                case 'swap': {
+                    const amountIn = await amountOrCarried(action.path[0], action.amountIn);
+                    const minOut = await addSwap(action.router, action.path, amountIn, action.amountOutMin);
+                    carried = { token: action.path[action.path.length - 1], amount: minOut };
+                    break;
+                }
+                case 'repayDebt': {
+                    const repayAmount = await amountOrCarried(action.asset, action.amount);
+                    call(action.asset, erc20, 'approve', [action.market, repayAmount]);
+                    call(action.market, market, 'repayOnBehalf', [action.asset, repayAmount, account]);
+                    credit(action.asset, repayAmount.mul(-1));
+                    carried = { token: action.asset, amount: BigNumber.from(0) };
+                    break;
+                }
+                case 'swapCollateral': {
+                    const withdrawn = await this.tokens.parseAmount(action.fromAsset, action.amount);
+                    call(action.market, market, 'withdrawOnBehalf', [action.fromAsset, withdrawn, account]);
+                    credit(action.fromAsset, withdrawn);
+
+                    const minOut = await addSwap(
+                        action.router,
+                        [action.fromAsset, action.toAsset],
+                        withdrawn,
+                        action.amountOutMin
+                    );
+                    call(action.toAsset, erc20, 'approve', [action.market, minOut]);
+                    call(action.market, market, 'supplyOnBehalf', [action.toAsset, minOut, account]);
+                    credit(action.toAsset, minOut.mul(-1));
+                    carried = { token: action.fromAsset, amount: BigNumber.from(0) };
+                    break;
+                }
+            }
+        }
+
+        const repayment = amount.add(fee);
+        credit(asset, repayment.mul(-1));
+
+        const balances = await Promise.all(
+            Array.from(ledger.entries()).map(([token, balance]) => this.tokens.toTokenAmount(token, balance))
+        );
+
+        return {
+            lendingPool: this.lendingPool,
+            receiver: this.receiver,
+            asset,
+            amount,
+            fee: await this.tokens.toTokenAmount(asset, fee),
+            repayment,
+            calls,
+            data: encodeReceiverCalls(calls),
+            balances,
+            profit: balances.find(b => b.token === asset)!
+        };
+    }
+}
+
+// Throws unless the receiver ends with at least minProfit of the loan asset and
+// no shortfall in any token it handles along the way
+export function assertProfitable(plan: FlashLoanPlan, minProfit: BigNumber = BigNumber.from(0)) {
+    const shortfall = plan.balances.find(b => b.raw.isNegative());
+    if (shortfall) {
+        throw new FlashLoanUnprofitableError(plan, `short ${shortfall.formatted.replace('-', '')} ${shortfall.symbol}`);
+    }
+    if (plan.profit.raw.lt(minProfit)) {
+        throw new FlashLoanUnprofitableError(
+            plan,
+            `expected profit ${plan.profit.formatted} ${plan.profit.symbol} is below the minimum`
+        );
+    }
+}
+
+// Net amount of the loan asset the receiver kept in a simulated run, from its Transfer events
+export function simulatedProfit(plan: FlashLoanPlan, events: SimulatedEvent[]): BigNumber {
+    const receiver = utils.getAddress(plan.receiver);
+    return events
+        .filter(e => e.name === 'Transfer' && utils.getAddress(e.address) === plan.asset)
+        .reduce((net, e) => {
+            if (utils.getAddress(e.args.to) === receiver) net = net.add(e.args.value);
+            if (utils.getAddress(e.args.from) === receiver) net = net.sub(e.args.value);
+            return net;
+        }, BigNumber.from(0));
+}
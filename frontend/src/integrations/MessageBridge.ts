@@ -0,0 +1,318 @@
+import { BigNumber, BigNumberish, Contract, providers, Signer, utils } from 'ethers';
+
+const MESSAGE = '(bytes32 messageId, uint256 sourceChainId, uint256 destinationChainId, address sender, address target, uint256 gasLimit, bytes data)';
+
+export const MESSAGE_BRIDGE_ABI = [
+    'function requireToPassMessage(uint256 destinationChainId, address target, bytes data, uint256 gasLimit) returns (bytes32)',
+    `function executeMessage(${MESSAGE} message, bytes[] signatures)`,
+    `function hashMessage(${MESSAGE} message) view returns (bytes32)`,
+    'function messageState(bytes32 messageId) view returns (uint8)',
+    'function requiredSignatures() view returns (uint256)',
+    'function isRelayer(address relayer) view returns (bool)',
+    'function maxGasPerMessage() view returns (uint256)',
+    'event MessageSent(bytes32 indexed messageId, uint256 indexed destinationChainId, address indexed sender, address target, uint256 gasLimit, bytes data)',
+    'event MessageExecuted(bytes32 indexed messageId, uint256 indexed sourceChainId, address indexed sender, bool success, bytes returnData)'
+];
+
+export const REMOTE_EXECUTOR_ABI = [
+    'function executeBatch(address[] targets, uint256[] values, bytes[] calldatas) returns (bytes[] results)',
+    'function controller() view returns (address)',
+    'function controllerChainId() view returns (uint256)'
+];
+
+// ArbitraryMessageBridge.messageState on the destination
+export const MESSAGE_STATE = {
+    notExecuted: 0,
+    succeeded: 1,
+    failed: 2
+};
+
+const DEFAULT_GAS_LIMIT = 500000;
+const DEFAULT_POLL_INTERVAL = 5000;
+const DEFAULT_LOG_BLOCK_RANGE = 5000;
+
+// executeMessage gas around the target call: the transaction itself, state writes and the
+// MessageExecuted event, plus an ECDSA recover per signature. The bridge also holds back
+// 30k for after the call and insists on 64/63 of the rest being left when it makes it.
+const EXECUTION_BASE_GAS = 150000;
+const EXECUTION_RESERVE_GAS = 30000;
+const SIGNATURE_GAS = 10000;
+const EXECUTION_GAS_MARGIN = 20; // percent
+
+const bridgeInterface = new utils.Interface(MESSAGE_BRIDGE_ABI);
+const executorInterface = new utils.Interface(REMOTE_EXECUTOR_ABI);
+
+export interface AmbChainConfig {
+    address: string;
+    requiredConfirmations?: number; // blocks before relayers pick up a message sent on this chain
+    gasLimit?: number; // most gas a message sent from this chain may ask for
+    logBlockRange?: number; // most blocks per getLogs request when looking for executions
+}
+
+export interface CrossChainMessage {
+    messageId: string;
+    sourceChainId: number;
+    destinationChainId: number;
+    sender: string;
+    target: string;
+    gasLimit: BigNumber;
+    data: string;
+    // Where the source chain logged it
+    blockNumber?: number;
+    transactionHash?: string;
+}
+
+export interface MessageExecution {
+    success: boolean;
+    returnData: string;
+    transactionHash: string;
+    blockNumber: number;
+}
+
+export interface RemoteCall {
+    target: string;
+    data: string;
+    value?: BigNumberish;
+}
+
+// Gas limit for an executeMessage transaction. Left to estimateGas, the estimate stops
+// at the least gas that doesn't revert, which can leave the target short of its gasLimit.
+export function executionGasLimit(message: Pick<CrossChainMessage, 'gasLimit' | 'data'>, signatureCount: number): BigNumber {
+    const callGas = BigNumber.from(message.gasLimit).add(EXECUTION_RESERVE_GAS).mul(64).div(63);
+    const calldataGas = utils.hexDataLength(message.data) * 16;
+    return callGas
+        .add(EXECUTION_BASE_GAS + calldataGas + signatureCount * SIGNATURE_GAS)
+        .mul(100 + EXECUTION_GAS_MARGIN)
+        .div(100);
+}
+
+// Payload helpers; abi is anything utils.Interface accepts
+
+export function encodeCall(abi: string[] | utils.Interface, method: string, args: any[] = []): string {
+    const iface = abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+    return iface.encodeFunctionData(method, args);
+}
+
+export function decodeCall(abi: string[] | utils.Interface, data: string): { method: string; args: utils.Result } {
+    const iface = abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+    const fragment = iface.getFunction(data.slice(0, 10));
+    return { method: fragment.name, args: iface.decodeFunctionData(fragment, data) };
+}
+
+export function decodeResult(abi: string[] | utils.Interface, method: string, returnData: string): utils.Result {
+    const iface = abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+    return iface.decodeFunctionResult(method, returnData);
+}
+
+// Error(string) reasons as text, anything else as the raw revert data
+export function decodeRevertReason(returnData: string): string {
+    if (returnData.startsWith('0x08c379a0')) {
+        return utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(returnData, 4))[0];
+    }
+    return returnData === '0x' ? "Execution reverted" : returnData;
+}
+
+// Same digest as ArbitraryMessageBridge.hashMessage on the destination bridge
+export function messageDigest(destinationBridge: string, message: CrossChainMessage): string {
+    return utils.keccak256(utils.defaultAbiCoder.encode(
+        ['address', 'bytes32', 'uint256', 'uint256', 'address', 'address', 'uint256', 'bytes32'],
+        [
+            destinationBridge,
+            message.messageId,
+            message.sourceChainId,
+            message.destinationChainId,
+            message.sender,
+            message.target,
+            message.gasLimit,
+            utils.keccak256(message.data)
+        ]
+    ));
+}
+
+export function signMessage(signer: Signer, destinationBridge: string, message: CrossChainMessage): Promise<string> {
+    return signer.signMessage(utils.arrayify(messageDigest(destinationBridge, message)));
+}
+
+// The bridge wants signatures ordered by signer, each signer once
+export function sortSignatures(destinationBridge: string, message: CrossChainMessage, signatures: string[]): string[] {
+    const digest = utils.arrayify(messageDigest(destinationBridge, message));
+    const bySigner = new Map<string, string>();
+    for (const signature of signatures) {
+        bySigner.set(utils.verifyMessage(digest, signature).toLowerCase(), signature);
+    }
+    return Array.from(bySigner.keys()).sort().map(signer => bySigner.get(signer)!);
+}
+
+// Calldata for RemoteExecutor.executeBatch, run on the destination as one message
+export function encodeRemoteCalls(calls: RemoteCall[]): string {
+    return executorInterface.encodeFunctionData('executeBatch', [
+        calls.map(call => call.target),
+        calls.map(call => call.value || 0),
+        calls.map(call => call.data)
+    ]);
+}
+
+// A governance proposal action that sends calls to a RemoteExecutor on another chain.
+// The executor must name the proposal's executor (the timelock) as its controller.
+export function remoteProposalAction(
+    sourceBridge: string,
+    destinationChainId: number,
+    executor: string,
+    calls: RemoteCall[],
+    gasLimit: BigNumberish = DEFAULT_GAS_LIMIT
+): { target: string; value: BigNumber; calldata: string } {
+    return {
+        target: sourceBridge,
+        value: BigNumber.from(0),
+        calldata: bridgeInterface.encodeFunctionData('requireToPassMessage', [
+            destinationChainId,
+            executor,
+            encodeRemoteCalls(calls),
+            gasLimit
+        ])
+    };
+}
+
+// Client for an ArbitraryMessageBridge pair: sends from the source chain and reads
+// delivery and execution results on the destination
+export class MessageBridge {
+    readonly sourceChainId: number;
+    readonly destinationChainId: number;
+    readonly source: AmbChainConfig;
+    readonly destination: AmbChainConfig;
+    private sourceProvider: providers.Provider;
+    private destProvider: providers.Provider;
+
+    constructor(
+        sourceProvider: providers.Provider,
+        destProvider: providers.Provider,
+        sourceChainId: number,
+        destinationChainId: number,
+        source: AmbChainConfig,
+        destination: AmbChainConfig
+    ) {
+        if (!source.address || !destination.address) {
+            throw new Error("Message bridge needs a bridge address on both chains");
+        }
+        this.sourceProvider = sourceProvider;
+        this.destProvider = destProvider;
+        this.sourceChainId = sourceChainId;
+        this.destinationChainId = destinationChainId;
+        this.source = source;
+        this.destination = destination;
+    }
+
+    get requiredConfirmations(): number {
+        return this.source.requiredConfirmations ?? 1;
+    }
+
+    getSourceBridge(signerOrProvider: Signer | providers.Provider = this.sourceProvider): Contract {
+        return new Contract(this.source.address, MESSAGE_BRIDGE_ABI, signerOrProvider);
+    }
+
+    getDestinationBridge(signerOrProvider: Signer | providers.Provider = this.destProvider): Contract {
+        return new Contract(this.destination.address, MESSAGE_BRIDGE_ABI, signerOrProvider);
+    }
+
+    // requireToPassMessage arguments; gas defaults to, and is capped by, the configured limit
+    prepareSend(target: string, data: string, gasLimit?: BigNumberish): [number, string, string, BigNumber] {
+        const limit = BigNumber.from(gasLimit ?? Math.min(DEFAULT_GAS_LIMIT, this.source.gasLimit ?? DEFAULT_GAS_LIMIT));
+        if (this.source.gasLimit !== undefined && limit.gt(this.source.gasLimit)) {
+            throw new Error(`Gas limit ${limit} exceeds the bridge maximum of ${this.source.gasLimit}`);
+        }
+        return [this.destinationChainId, target, data, limit];
+    }
+
+    parseSendReceipt(receipt: providers.TransactionReceipt): CrossChainMessage[] {
+        return receipt.logs
+            .filter(log => utils.getAddress(log.address) === utils.getAddress(this.source.address))
+            .map(log => this.parseSentLog(log))
+            .filter((message): message is CrossChainMessage => message !== null);
+    }
+
+    // Messages for this destination sent within a block range, oldest first
+    async getSentMessages(fromBlock: providers.BlockTag, toBlock: providers.BlockTag = 'latest'): Promise<CrossChainMessage[]> {
+        const logs = await this.sourceProvider.getLogs({
+            address: this.source.address,
+            topics: [
+                bridgeInterface.getEventTopic('MessageSent'),
+                null,
+                utils.hexZeroPad(utils.hexlify(this.destinationChainId), 32)
+            ],
+            fromBlock,
+            toBlock
+        });
+        return logs
+            .map(log => this.parseSentLog(log))
+            .filter((message): message is CrossChainMessage => message !== null);
+    }
+
+    // Execution on the destination, or null while the message hasn't been delivered. Scans back
+    // from the head in bounded ranges, stopping at fromBlock: pass the destination block from
+    // before the message was sent, since RPCs cap and throttle long log queries.
+    async getExecution(messageId: string, fromBlock = 0): Promise<MessageExecution | null> {
+        const range = this.destination.logBlockRange ?? DEFAULT_LOG_BLOCK_RANGE;
+        const head = await this.destProvider.getBlockNumber();
+        for (let toBlock = head; toBlock >= fromBlock; toBlock -= range) {
+            const logs = await this.destProvider.getLogs({
+                address: this.destination.address,
+                topics: [bridgeInterface.getEventTopic('MessageExecuted'), messageId],
+                fromBlock: Math.max(fromBlock, toBlock - range + 1),
+                toBlock
+            });
+            if (logs.length === 0) continue;
+
+            const { success, returnData } = bridgeInterface.parseLog(logs[0]).args;
+            return { success, returnData, transactionHash: logs[0].transactionHash, blockNumber: logs[0].blockNumber };
+        }
+        return null;
+    }
+
+    async getMessageState(messageId: string): Promise<number> {
+        return this.getDestinationBridge().messageState(messageId);
+    }
+
+    // Resolves once the message has run on the destination, whether or not the call succeeded.
+    // After the first lookup, each poll only scans blocks it hasn't seen.
+    async waitForExecution(
+        messageId: string,
+        options: { pollInterval?: number; timeout?: number; fromBlock?: number } = {}
+    ): Promise<MessageExecution> {
+        const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+        const deadline = options.timeout !== undefined ? Date.now() + options.timeout : Infinity;
+        let fromBlock = options.fromBlock ?? 0;
+        for (;;) {
+            const head = await this.destProvider.getBlockNumber();
+            const execution = await this.getExecution(messageId, fromBlock);
+            if (execution) return execution;
+            fromBlock = Math.max(fromBlock, head);
+            if (Date.now() + pollInterval > deadline) {
+                throw new Error(`Message ${messageId} was not executed in time`);
+            }
+            await new Promise(resolve => setTimeout(resolve, pollInterval));
+        }
+    }
+
+    private parseSentLog(log: providers.Log): CrossChainMessage | null {
+        let parsed: utils.LogDescription;
+        try {
+            parsed = bridgeInterface.parseLog(log);
+        } catch {
+            return null;
+        }
+        if (parsed.name !== 'MessageSent') return null;
+
+        const { messageId, destinationChainId, sender, target, gasLimit, data } = parsed.args;
+        return {
+            messageId,
+            sourceChainId: this.sourceChainId,
+            destinationChainId: destinationChainId.toNumber(),
+            sender,
+            target,
+            gasLimit,
+            data,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash
+        };
+    }
+}
@@ -0,0 +1,144 @@
+import { providers, Contract, utils } from 'ethers';
+
+export interface MulticallOptions {
+    address?: string; // Multicall3 deployment; defaults to the canonical address
+    batchSize?: number; // calls per aggregate3 request
+    network?: providers.Networkish;
+}
+
+export interface ContractCall {
+    contract: Contract;
+    method: string;
+    args?: any[];
+}
+
+export interface CallResult<T = any> {
+    success: boolean;
+    value?: T;
+    error?: string;
+}
+
+interface PendingCall {
+    target: string;
+    callData: string;
+    resolve: (result: string) => void;
+    reject: (error: any) => void;
+}
+
+// Deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)'
+];
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const multicall3 = new utils.Interface(MULTICALL3_ABI);
+const logger = new utils.Logger('multicall/1.0');
+
+// JSON-RPC provider that gathers plain eth_calls made in the same tick into
+// Multicall3 aggregate3 requests. Calls with a sender, value, gas limit or
+// historical block tag go straight to the node, as does everything when no
+// Multicall3 is deployed. A call that reverts inside a batch fails on its own,
+// with the same revert data a direct call would give.
+export class MulticallProvider extends providers.JsonRpcProvider {
+    readonly multicallAddress: string;
+    private batchSize: number;
+    private pending: PendingCall[] = [];
+    private available?: Promise<boolean>;
+
+    constructor(url: string, options: MulticallOptions = {}) {
+        super(url, options.network);
+        this.multicallAddress = utils.getAddress(options.address || MULTICALL3_ADDRESS);
+        this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    }
+
+    async call(
+        transaction: utils.Deferrable<providers.TransactionRequest>,
+        blockTag?: providers.BlockTag | Promise<providers.BlockTag>
+    ): Promise<string> {
+        const [tx, tag] = await Promise.all([utils.resolveProperties(transaction), blockTag]);
+        const batchable = tx.to && tx.data
+            && !tx.from && !tx.value && !tx.gasLimit
+            && (tag === undefined || tag === 'latest')
+            && utils.getAddress(tx.to) !== this.multicallAddress;
+        if (!batchable) return super.call(tx, tag);
+
+        return new Promise((resolve, reject) => {
+            this.pending.push({ target: tx.to!, callData: utils.hexlify(tx.data!), resolve, reject });
+            if (this.pending.length === 1) setTimeout(() => this.flush(), 0);
+        });
+    }
+
+    isMulticallAvailable(): Promise<boolean> {
+        if (!this.available) {
+            this.available = this.getCode(this.multicallAddress)
+                .then(code => code !== '0x')
+                .catch(() => {
+                    this.available = undefined; // retry on the next batch
+                    return false;
+                });
+        }
+        return this.available;
+    }
+
+    private async flush() {
+        const queue = this.pending;
+        this.pending = [];
+
+        if (queue.length === 1 || !(await this.isMulticallAvailable())) {
+            queue.forEach(call => this.callDirect(call));
+            return;
+        }
+
+        for (let i = 0; i < queue.length; i += this.batchSize) {
+            this.aggregate(queue.slice(i, i + this.batchSize));
+        }
+    }
+
+    private async aggregate(chunk: PendingCall[]) {
+        let results: { success: boolean; returnData: string }[];
+        try {
+            const data = multicall3.encodeFunctionData('aggregate3', [
+                chunk.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))
+            ]);
+            const response = await super.call({ to: this.multicallAddress, data });
+            [results] = multicall3.decodeFunctionResult('aggregate3', response);
+        } catch (error) {
+            // The whole batch failed, e.g. it ran out of gas; retry each call on its own
+            chunk.forEach(call => this.callDirect(call));
+            return;
+        }
+
+        chunk.forEach((call, i) => {
+            const { success, returnData } = results[i];
+            if (success || returnData !== '0x') {
+                // Revert data is returned as the call result, as the node does, for the contract to decode
+                call.resolve(returnData);
+            } else {
+                call.reject(logger.makeError(
+                    'missing revert data in call exception; Transaction reverted without a reason string',
+                    utils.Logger.errors.CALL_EXCEPTION,
+                    { data: '0x', transaction: { to: call.target, data: call.callData } }
+                ));
+            }
+        });
+    }
+
+    private callDirect(call: PendingCall) {
+        super.call({ to: call.target, data: call.callData }).then(call.resolve, call.reject);
+    }
+}
+
+// Runs view calls side by side, so they share a batch on a MulticallProvider,
+// and reports failures per call instead of rejecting the lot
+export async function tryAggregate<T = any>(calls: ContractCall[]): Promise<CallResult<T>[]> {
+    return Promise.all(calls.map(async ({ contract, method, args = [] }) => {
+        try {
+            return { success: true, value: await contract.callStatic[method](...args) };
+        } catch (error: any) {
+            return { success: false, error: error.reason || error.message };
+        }
+    }));
+}
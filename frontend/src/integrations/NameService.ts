@@ -0,0 +1,180 @@
+import { providers, Contract, ContractTransaction, Signer, utils } from 'ethers';
+
+export interface NameServiceOptions {
+    resolver?: string; // resolver for new names; defaults to the one on the parent name
+    cacheDuration?: number; // seconds a lookup is reused
+}
+
+export class UnresolvedNameError extends Error {
+    query: string;
+
+    constructor(query: string) {
+        super(`Name ${query} does not resolve to an address`);
+        this.name = 'UnresolvedNameError';
+        this.query = query;
+    }
+}
+
+export const ENS_REGISTRY_ABI = [
+    'function owner(bytes32 node) view returns (address)',
+    'function resolver(bytes32 node) view returns (address)',
+    'function setSubnodeRecord(bytes32 node, bytes32 label, address owner, address resolver, uint64 ttl)'
+];
+
+export const PUBLIC_RESOLVER_ABI = [
+    'function addr(bytes32 node) view returns (address)',
+    'function name(bytes32 node) view returns (string)',
+    'function setAddr(bytes32 node, address a)',
+    'function setName(bytes32 node, string name)'
+];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const REVERSE_SUFFIX = 'addr.reverse';
+const DEFAULT_CACHE_DURATION = 300; // seconds
+
+// Anything dotted that isn't a hex address is treated as a name, e.g. alice.c138
+export const isName = (value: string): boolean =>
+    typeof value === 'string' && !utils.isAddress(value) && value.includes('.');
+
+export const reverseName = (address: string): string =>
+    `${utils.getAddress(address).slice(2).toLowerCase()}.${REVERSE_SUFFIX}`;
+
+export const shortenAddress = (address: string): string => {
+    const checksummed = utils.getAddress(address);
+    return `${checksummed.slice(0, 6)}…${checksummed.slice(-4)}`;
+};
+
+// Resolves and registers names through the chain's ENSRegistry and its resolvers
+export class NameService {
+    private provider: providers.Provider;
+    private registry: Contract;
+    private defaultResolver?: string;
+    private cacheDuration: number;
+    private cache: Map<string, { value: Promise<string | null>; expires: number }> = new Map();
+
+    constructor(provider: providers.Provider, registryAddress: string, options: NameServiceOptions = {}) {
+        this.provider = provider;
+        this.registry = new Contract(registryAddress, ENS_REGISTRY_ABI, provider);
+        this.defaultResolver = options.resolver;
+        this.cacheDuration = options.cacheDuration ?? DEFAULT_CACHE_DURATION;
+    }
+
+    get registryAddress(): string {
+        return this.registry.address;
+    }
+
+    // The address a name points at, or null when it has no resolver or record
+    async resolveName(name: string): Promise<string | null> {
+        const normalized = name.trim().toLowerCase();
+        return this.cached(`forward:${normalized}`, async () => {
+            const node = utils.namehash(normalized);
+            const resolver = await this.getResolver(node);
+            if (!resolver) return null;
+            const address: string = await resolver.addr(node);
+            return address === ZERO_ADDRESS ? null : utils.getAddress(address);
+        });
+    }
+
+    // Addresses pass through checksummed; names must resolve. Anything else is
+    // returned as given for the caller's own validation to reject.
+    async resolveAddress(addressOrName: string): Promise<string> {
+        if (utils.isAddress(addressOrName)) return utils.getAddress(addressOrName);
+        if (!isName(addressOrName)) return addressOrName;
+
+        const address = await this.resolveName(addressOrName);
+        if (!address) throw new UnresolvedNameError(addressOrName);
+        return address;
+    }
+
+    // Primary name for an address, only if that name resolves back to it
+    async lookupAddress(address: string): Promise<string | null> {
+        const checksummed = utils.getAddress(address);
+        return this.cached(`reverse:${checksummed}`, async () => {
+            const node = utils.namehash(reverseName(checksummed));
+            const resolver = await this.getResolver(node);
+            if (!resolver) return null;
+
+            const name: string = await resolver.name(node).catch(() => '');
+            if (!name) return null;
+            // Anyone can claim any name in their reverse record; only trust it if the owner agrees
+            return (await this.resolveName(name)) === checksummed ? name : null;
+        });
+    }
+
+    // Name if there is a verified one, otherwise the shortened address
+    async getDisplayName(address: string): Promise<string> {
+        return (await this.lookupAddress(address)) || shortenAddress(address);
+    }
+
+    // Creates `name` under a parent the signer owns and points it at `address`
+    async register(signer: Signer, name: string, address?: string): Promise<ContractTransaction> {
+        const normalized = name.trim().toLowerCase();
+        const [label, ...rest] = normalized.split('.');
+        if (!label || rest.length === 0) throw new Error(`Cannot register ${name}; expected a subname such as alice.c138`);
+
+        const parent = utils.namehash(rest.join('.'));
+        const owner = await signer.getAddress();
+        const parentOwner: string = await this.registry.owner(parent);
+        if (utils.getAddress(parentOwner) !== owner) {
+            throw new Error(`${rest.join('.')} is owned by ${parentOwner}, not the connected account`);
+        }
+
+        const resolver = await this.resolverForNewName(parent);
+        const registry = this.registry.connect(signer);
+        await (await registry.setSubnodeRecord(parent, utils.id(label), owner, resolver.address, 0)).wait();
+
+        this.cache.delete(`forward:${normalized}`);
+        return resolver.connect(signer).setAddr(utils.namehash(normalized), utils.getAddress(address || owner));
+    }
+
+    // Chain 138 has no ReverseRegistrar, so reverse records are created directly
+    // under addr.reverse, which only its owner (the deployer) can do
+    async setReverseName(signer: Signer, name: string): Promise<ContractTransaction> {
+        const account = await signer.getAddress();
+        const normalized = name.trim().toLowerCase();
+        if ((await this.resolveName(normalized)) !== account) {
+            throw new Error(`${name} does not resolve to ${account}; set its address first`);
+        }
+
+        const parent = utils.namehash(REVERSE_SUFFIX);
+        const resolver = await this.resolverForNewName(parent);
+        const registry = this.registry.connect(signer);
+        await (await registry.setSubnodeRecord(
+            parent,
+            utils.id(account.slice(2).toLowerCase()),
+            account,
+            resolver.address,
+            0
+        )).wait();
+
+        this.cache.delete(`reverse:${account}`);
+        return resolver.connect(signer).setName(utils.namehash(reverseName(account)), normalized);
+    }
+
+    clearCache() {
+        this.cache.clear();
+    }
+
+    private async getResolver(node: string): Promise<Contract | null> {
+        const address: string = await this.registry.resolver(node);
+        return address === ZERO_ADDRESS ? null : new Contract(address, PUBLIC_RESOLVER_ABI, this.provider);
+    }
+
+    private async resolverForNewName(parent: string): Promise<Contract> {
+        if (this.defaultResolver) return new Contract(this.defaultResolver, PUBLIC_RESOLVER_ABI, this.provider);
+        const resolver = await this.getResolver(parent);
+        if (!resolver) throw new Error("No resolver configured for new names");
+        return resolver;
+    }
+
+    // Lookups are shared while in flight; failures are not cached
+    private cached(key: string, lookup: () => Promise<string | null>): Promise<string | null> {
+        const hit = this.cache.get(key);
+        if (hit && hit.expires > Date.now()) return hit.value;
+
+        const value = lookup();
+        this.cache.set(key, { value, expires: Date.now() + this.cacheDuration * 1000 });
+        value.catch(() => this.cache.delete(key));
+        return value;
+    }
+}
@@ -0,0 +1,150 @@
+import { providers, Contract, utils, BigNumber } from 'ethers';
+import { PortfolioAnalytics } from './PortfolioAnalytics';
+import {
+    OptionGreeks,
+    blackScholes,
+    historicalVolatility,
+    intrinsicValue
+} from '../utils/blackScholes';
+
+export interface OptionTerms {
+    underlying: string;
+    strike: number;
+    expiry: number; // unix timestamp
+    isCall: boolean;
+}
+
+export interface OptionQuote extends OptionGreeks {
+    spot: number;
+    strike: number;
+    timeToExpiry: number; // years
+    volatility: number;
+    intrinsicValue: number;
+    timeValue: number;
+}
+
+export interface OptionPosition {
+    option: string;
+    account: string;
+    terms: OptionTerms;
+    held: number; // contracts bought
+    written: number; // contracts sold
+    expired: boolean;
+    settled: boolean;
+    quote: OptionQuote;
+    value: number; // net market value of held minus written contracts
+    exposure: {
+        delta: number;
+        gamma: number;
+        theta: number;
+        vega: number;
+    };
+}
+
+// Option amounts, strikes and prices are 1e18 fixed-point
+export const OPTION_ABI = [
+    'function underlying() view returns (address)',
+    'function strikePrice() view returns (uint256)',
+    'function expiry() view returns (uint256)',
+    'function isCall() view returns (bool)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function writtenBy(address account) view returns (uint256)',
+    'function settled() view returns (bool)',
+    'function exercise(uint256 amount) returns (uint256)',
+    'function settle() returns (uint256)'
+];
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+export class OptionsAnalytics {
+    private provider: providers.Provider;
+    private analytics: PortfolioAnalytics;
+
+    constructor(provider: providers.Provider, analytics: PortfolioAnalytics) {
+        this.provider = provider;
+        this.analytics = analytics;
+    }
+
+    async getTerms(optionAddress: string): Promise<OptionTerms> {
+        const option = new Contract(optionAddress, OPTION_ABI, this.provider);
+        const [underlying, strike, expiry, isCall] = await Promise.all([
+            option.underlying(),
+            option.strikePrice(),
+            option.expiry(),
+            option.isCall()
+        ]);
+        return {
+            underlying,
+            strike: Number(utils.formatEther(strike)),
+            expiry: expiry.toNumber(),
+            isCall
+        };
+    }
+
+    // Realised volatility of the underlying's oracle price, used as the implied volatility
+    async getVolatility(underlying: string, lookbackDays?: number): Promise<number> {
+        return historicalVolatility(await this.analytics.getPriceWindow(underlying, lookbackDays));
+    }
+
+    async quote(terms: OptionTerms, volatility?: number): Promise<OptionQuote> {
+        const [spot, sigma, latest] = await Promise.all([
+            this.analytics.getCurrentPrice(terms.underlying),
+            volatility !== undefined ? volatility : this.getVolatility(terms.underlying),
+            this.provider.getBlock('latest')
+        ]);
+        const timeToExpiry = Math.max(terms.expiry - latest.timestamp, 0) / SECONDS_PER_YEAR;
+
+        const greeks = blackScholes({
+            spot,
+            strike: terms.strike,
+            timeToExpiry,
+            volatility: sigma,
+            riskFreeRate: this.analytics.getConfig().riskFreeRate,
+            isCall: terms.isCall
+        });
+        const intrinsic = intrinsicValue(spot, terms.strike, terms.isCall);
+
+        return {
+            ...greeks,
+            spot,
+            strike: terms.strike,
+            timeToExpiry,
+            volatility: sigma,
+            intrinsicValue: intrinsic,
+            timeValue: Math.max(greeks.price - intrinsic, 0)
+        };
+    }
+
+    async getPosition(optionAddress: string, account: string): Promise<OptionPosition> {
+        const option = new Contract(optionAddress, OPTION_ABI, this.provider);
+        const [terms, held, written, settled]: [OptionTerms, BigNumber, BigNumber, boolean] = await Promise.all([
+            this.getTerms(optionAddress),
+            option.balanceOf(account),
+            option.writtenBy(account),
+            option.settled()
+        ]);
+
+        const quote = await this.quote(terms);
+        const heldAmount = Number(utils.formatEther(held));
+        const writtenAmount = Number(utils.formatEther(written));
+        const net = heldAmount - writtenAmount;
+
+        return {
+            option: optionAddress,
+            account,
+            terms,
+            held: heldAmount,
+            written: writtenAmount,
+            expired: quote.timeToExpiry === 0,
+            settled,
+            quote,
+            value: net * quote.price,
+            exposure: {
+                delta: net * quote.delta,
+                gamma: net * quote.gamma,
+                theta: net * quote.theta,
+                vega: net * quote.vega
+            }
+        };
+    }
+}
@@ -0,0 +1,539 @@
+import { providers, Contract, Event, EventFilter, utils, BigNumber } from 'ethers';
+import { TokenRegistry } from './TokenRegistry';
+import { StorageAdapter, getDefaultStorage, readJson, writeJson } from '../utils/storage';
+
+export type PositionKind = 'perpetual' | 'margin' | 'farm' | 'liquidity';
+
+export interface AnalyticsConfig {
+    priceOracle: string;
+    lookbackDays: number;
+    sampleInterval: number; // seconds between valuation points
+    riskFreeRate: number; // annualised, e.g. 0.04 = 4%
+    startBlock: number; // first block scanned for position events
+    logBlockRange: number; // most blocks per event query; RPCs cap longer ones
+}
+
+export interface TokenExposure {
+    token: string;
+    amount: number;
+}
+
+export interface PortfolioPosition {
+    kind: PositionKind;
+    source: string;
+    transactionHash: string;
+    blockNumber: number;
+    openedAt: number;
+    // Set once the position is closed, withdrawn or removed; a partial close splits off
+    // the closed part as its own position
+    closedAt?: number;
+    closeTransactionHash?: string;
+    closeValue?: number; // what the closed part was worth when it left the portfolio
+    exposures: TokenExposure[];
+    cash: number; // USD component that does not move with token prices
+    costBasis: number;
+    currentValue: number; // 0 once closed
+}
+
+export interface ValuationPoint {
+    timestamp: number;
+    value: number;
+    netFlow: number;
+}
+
+export interface PortfolioPerformance {
+    totalValue: number;
+    pnl: number;
+    timeWeightedReturn: number;
+    apy: number;
+    volatility: number;
+    sharpeRatio: number;
+    maxDrawdown: number;
+    valueAtRisk: number;
+    positions: PortfolioPosition[];
+    history: ValuationPoint[];
+}
+
+export interface PricePoint {
+    timestamp: number;
+    price: number;
+}
+
+const SECONDS_PER_DAY = 86400;
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+const VAR_95_Z_SCORE = 1.645;
+
+const DEFAULT_CONFIG: AnalyticsConfig = {
+    priceOracle: '',
+    lookbackDays: 30,
+    sampleInterval: SECONDS_PER_DAY,
+    riskFreeRate: 0,
+    startBlock: 0,
+    logBlockRange: 5000
+};
+
+const SOURCE_ABIS: Record<PositionKind, string[]> = {
+    perpetual: [
+        'event PositionOpened(address indexed trader, bool isLong, uint256 size, uint256 leverage)',
+        'event PositionClosed(address indexed trader, uint256 size, int256 realisedPnl)',
+        'function indexToken() view returns (address)'
+    ],
+    margin: [
+        'event MarginPositionOpened(address indexed trader, address borrowToken, uint256 borrowAmount, address collateralToken, uint256 collateralAmount)',
+        'event MarginPositionClosed(address indexed trader, uint256 repaidAmount, uint256 collateralReturned)'
+    ],
+    farm: [
+        'event Staked(address indexed user, uint256 amount, uint256 lockPeriod)',
+        'event Unstaked(address indexed user, uint256 amount)',
+        'function stakingToken() view returns (address)'
+    ],
+    liquidity: [
+        'event LiquidityAdded(address indexed provider, uint256 amount0, uint256 amount1, uint256 liquidity)',
+        'event LiquidityRemoved(address indexed provider, uint256 amount0, uint256 amount1, uint256 liquidity)',
+        'function token0() view returns (address)',
+        'function token1() view returns (address)'
+    ]
+};
+
+// Events that open a position and that end or reduce it, each indexed by account. Units
+// are what a reduction is measured in; margin positions only ever close in full.
+const SOURCE_EVENTS: Record<PositionKind, { open: string; close: string; units?: string }> = {
+    perpetual: { open: 'PositionOpened', close: 'PositionClosed', units: 'size' },
+    margin: { open: 'MarginPositionOpened', close: 'MarginPositionClosed' },
+    farm: { open: 'Staked', close: 'Unstaked', units: 'amount' },
+    liquidity: { open: 'LiquidityAdded', close: 'LiquidityRemoved', units: 'liquidity' }
+};
+
+const ORACLE_ABI = [
+    'function getPrice(address token) view returns (uint256)',
+    'event PriceUpdate(address token, uint256 price)'
+];
+
+// Return series helpers
+
+export function periodReturns(history: ValuationPoint[]): number[] {
+    const returns: number[] = [];
+    for (let i = 1; i < history.length; i++) {
+        const previous = history[i - 1].value;
+        if (previous <= 0) continue;
+        // Strip deposits made during the period so they don't count as performance
+        returns.push((history[i].value - history[i].netFlow) / previous - 1);
+    }
+    return returns;
+}
+
+export function timeWeightedReturn(returns: number[]): number {
+    return returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+}
+
+export function standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+}
+
+export function annualisedVolatility(returns: number[], periodsPerYear: number): number {
+    return standardDeviation(returns) * Math.sqrt(periodsPerYear);
+}
+
+export function sharpeRatio(returns: number[], periodsPerYear: number, riskFreeRate: number): number {
+    const volatility = annualisedVolatility(returns, periodsPerYear);
+    if (returns.length === 0 || volatility === 0) return 0;
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    return (mean * periodsPerYear - riskFreeRate) / volatility;
+}
+
+export function maxDrawdown(returns: number[]): number {
+    let index = 1;
+    let peak = 1;
+    let drawdown = 0;
+    for (const r of returns) {
+        index *= 1 + r;
+        peak = Math.max(peak, index);
+        drawdown = Math.max(drawdown, (peak - index) / peak);
+    }
+    return drawdown;
+}
+
+export function annualisedReturn(totalReturn: number, periodSeconds: number): number {
+    if (periodSeconds <= 0 || totalReturn <= -1) return totalReturn;
+    return Math.pow(1 + totalReturn, SECONDS_PER_YEAR / periodSeconds) - 1;
+}
+
+// The same position at a fraction of its size, as when part of it is closed
+function scalePosition(position: PortfolioPosition, fraction: number): PortfolioPosition {
+    return {
+        ...position,
+        exposures: position.exposures.map(e => ({ ...e, amount: e.amount * fraction })),
+        cash: position.cash * fraction,
+        costBasis: position.costBasis * fraction
+    };
+}
+
+export class PortfolioAnalytics {
+    private provider: providers.Provider;
+    private config: AnalyticsConfig;
+    private sources: Map<string, PositionKind> = new Map();
+    private blockTimestamps: Map<number, number> = new Map();
+    private tokens: TokenRegistry;
+    private storage: StorageAdapter;
+    private storageKey: string;
+
+    // Tracked sources are kept in storage, so positions opened in an earlier session still count
+    constructor(
+        provider: providers.Provider,
+        config: Partial<AnalyticsConfig> = {},
+        tokens: TokenRegistry = new TokenRegistry(provider),
+        storage: StorageAdapter = getDefaultStorage(),
+        storageKey = 'portfolioSources'
+    ) {
+        this.provider = provider;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.tokens = tokens;
+        this.storage = storage;
+        this.storageKey = storageKey;
+        const stored = readJson<Record<string, PositionKind>>(storage, storageKey, {});
+        for (const [address, kind] of Object.entries(stored)) this.sources.set(address, kind);
+    }
+
+    configure(config: Partial<AnalyticsConfig>) {
+        this.config = { ...this.config, ...config };
+    }
+
+    getConfig(): AnalyticsConfig {
+        return { ...this.config };
+    }
+
+    trackSource(kind: PositionKind, address: string) {
+        address = utils.getAddress(address);
+        if (this.sources.get(address) === kind) return;
+        this.sources.set(address, kind);
+        writeJson(this.storage, this.storageKey, Object.fromEntries(this.sources));
+    }
+
+    async getPerformance(account: string, lookbackDays: number = this.config.lookbackDays): Promise<PortfolioPerformance> {
+        if (!this.config.priceOracle) throw new Error("Price oracle not configured");
+
+        const latest = await this.provider.getBlock('latest');
+        const windowStart = latest.timestamp - lookbackDays * SECONDS_PER_DAY;
+        const startBlock = await this.findBlockByTimestamp(windowStart, latest.number);
+
+        const positions = await this.getPositionHistory(account);
+        const tokens = Array.from(new Set(
+            positions.flatMap(p => p.exposures.map(e => e.token))
+        ));
+        const prices = await this.getPriceHistory(tokens, startBlock, latest.number);
+
+        const currentPrices = new Map<string, number>();
+        await Promise.all(tokens.map(async token => {
+            currentPrices.set(token, await this.getCurrentPrice(token));
+        }));
+
+        for (const position of positions) {
+            position.currentValue = position.closedAt === undefined
+                ? this.valuePosition(position, token => currentPrices.get(token) || 0)
+                : 0;
+        }
+
+        const history = this.buildValuationSeries(positions, prices, windowStart, latest.timestamp);
+        const returns = periodReturns(history);
+        const periodsPerYear = SECONDS_PER_YEAR / this.config.sampleInterval;
+        const twr = timeWeightedReturn(returns);
+        const totalValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+        const costBasis = positions.reduce((sum, p) => sum + p.costBasis, 0);
+        const withdrawn = positions.reduce((sum, p) => sum + (p.closeValue || 0), 0);
+        const dailyStdDev = standardDeviation(returns) * Math.sqrt(SECONDS_PER_DAY / this.config.sampleInterval);
+
+        return {
+            totalValue,
+            pnl: totalValue + withdrawn - costBasis,
+            timeWeightedReturn: twr,
+            apy: annualisedReturn(twr, latest.timestamp - windowStart),
+            volatility: annualisedVolatility(returns, periodsPerYear),
+            sharpeRatio: sharpeRatio(returns, periodsPerYear, this.config.riskFreeRate),
+            maxDrawdown: maxDrawdown(returns),
+            valueAtRisk: VAR_95_Z_SCORE * dailyStdDev,
+            positions,
+            history
+        };
+    }
+
+    // Position history
+
+    async getPositionHistory(account: string): Promise<PortfolioPosition[]> {
+        const latestBlock = await this.provider.getBlockNumber();
+        const positions = await Promise.all(
+            Array.from(this.sources.entries()).map(([source, kind]) =>
+                this.getSourcePositions(kind, source, account, latestBlock)
+            )
+        );
+        return positions.flat().sort((a, b) => a.openedAt - b.openedAt);
+    }
+
+    private async getSourcePositions(
+        kind: PositionKind,
+        source: string,
+        account: string,
+        latestBlock: number
+    ): Promise<PortfolioPosition[]> {
+        const contract = new Contract(source, SOURCE_ABIS[kind], this.provider);
+        const { open, close, units } = SOURCE_EVENTS[kind];
+        const [opened, closed] = await Promise.all([open, close].map(name =>
+            this.queryEvents(contract, contract.filters[name](account), this.config.startBlock, latestBlock)
+        ));
+        const events = [...opened, ...closed].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        const underlying = await this.getUnderlyingTokens(kind, contract);
+        const positions: PortfolioPosition[] = [];
+        // Open positions with what is left of them, oldest first; reductions apply in that order
+        const lots: { position: PortfolioPosition; units: BigNumber }[] = [];
+
+        for (const event of events) {
+            const args = event.args!;
+            if (event.event === close) {
+                let remaining: BigNumber | undefined = units ? args[units] : undefined;
+                while (lots.length > 0 && (!remaining || remaining.gt(0))) {
+                    const lot = lots[0];
+                    const reduction = remaining && remaining.lt(lot.units) ? remaining : lot.units;
+                    const fraction = reduction.eq(lot.units) ? 1 : Number(reduction.toString()) / Number(lot.units.toString());
+                    const closedPart = fraction === 1 ? lot.position : scalePosition(lot.position, fraction);
+                    if (fraction === 1) {
+                        lots.shift();
+                    } else {
+                        Object.assign(lot.position, scalePosition(lot.position, 1 - fraction));
+                        lot.units = lot.units.sub(reduction);
+                        positions.push(closedPart);
+                    }
+                    await this.closePosition(closedPart, event);
+                    if (remaining) remaining = remaining.sub(reduction);
+                }
+                continue;
+            }
+
+            const base = {
+                kind,
+                source,
+                transactionHash: event.transactionHash,
+                blockNumber: event.blockNumber,
+                openedAt: await this.getBlockTimestamp(event.blockNumber),
+                currentValue: 0
+            };
+
+            let exposures: TokenExposure[];
+            let cash = 0;
+
+            switch (kind) {
+                case 'perpetual': {
+                    // Perpetual sizes are 1e18 fixed-point, independent of the index token
+                    const size = Number(utils.formatEther(args.size));
+                    const entryPrice = await this.getPriceAtBlock(underlying[0], event.blockNumber);
+                    const margin = size * entryPrice / (args.leverage.toNumber() / 10000);
+                    const direction = args.isLong ? 1 : -1;
+                    // value = margin + direction * size * (price - entry)
+                    exposures = [{ token: underlying[0], amount: direction * size }];
+                    cash = margin - direction * size * entryPrice;
+                    break;
+                }
+                case 'margin':
+                    // Borrowed funds stay inside the position and offset the debt, so
+                    // the account's equity tracks the posted collateral
+                    exposures = [
+                        await this.toExposure(utils.getAddress(args.collateralToken), args.collateralAmount)
+                    ];
+                    break;
+                case 'farm':
+                    exposures = [await this.toExposure(underlying[0], args.amount)];
+                    break;
+                case 'liquidity':
+                    exposures = await Promise.all([
+                        this.toExposure(underlying[0], args.amount0),
+                        this.toExposure(underlying[1], args.amount1)
+                    ]);
+                    break;
+            }
+
+            const position: PortfolioPosition = { ...base, exposures, cash, costBasis: 0 };
+            const entryPrices = new Map<string, number>();
+            for (const exposure of exposures) {
+                entryPrices.set(exposure.token, await this.getPriceAtBlock(exposure.token, event.blockNumber));
+            }
+            position.costBasis = this.valuePosition(position, token => entryPrices.get(token) || 0);
+            positions.push(position);
+            lots.push({ position, units: units ? args[units] : BigNumber.from(1) });
+        }
+
+        return positions;
+    }
+
+    private async closePosition(position: PortfolioPosition, event: Event) {
+        const exitPrices = new Map<string, number>();
+        for (const exposure of position.exposures) {
+            exitPrices.set(exposure.token, await this.getPriceAtBlock(exposure.token, event.blockNumber));
+        }
+        position.closedAt = await this.getBlockTimestamp(event.blockNumber);
+        position.closeTransactionHash = event.transactionHash;
+        position.closeValue = this.valuePosition(position, token => exitPrices.get(token) || 0);
+    }
+
+    // Event logs in ranges of at most logBlockRange blocks
+    private async queryEvents(contract: Contract, filter: EventFilter, fromBlock: number, toBlock: number): Promise<Event[]> {
+        const events: Event[] = [];
+        for (let start = fromBlock; start <= toBlock; start += this.config.logBlockRange) {
+            const end = Math.min(toBlock, start + this.config.logBlockRange - 1);
+            events.push(...await contract.queryFilter(filter, start, end));
+        }
+        return events;
+    }
+
+    private async toExposure(token: string, raw: BigNumber): Promise<TokenExposure> {
+        return { token, amount: Number(await this.tokens.formatAmount(token, raw)) };
+    }
+
+    private async getUnderlyingTokens(kind: PositionKind, contract: Contract): Promise<string[]> {
+        switch (kind) {
+            case 'perpetual':
+                return [utils.getAddress(await contract.indexToken())];
+            case 'farm':
+                return [utils.getAddress(await contract.stakingToken())];
+            case 'liquidity':
+                return Promise.all([contract.token0(), contract.token1()])
+                    .then(tokens => tokens.map((t: string) => utils.getAddress(t)));
+            default:
+                return [];
+        }
+    }
+
+    // Price history
+
+    async getCurrentPrice(token: string): Promise<number> {
+        if (!this.config.priceOracle) throw new Error("Price oracle not configured");
+        const oracle = new Contract(this.config.priceOracle, ORACLE_ABI, this.provider);
+        return Number(utils.formatEther(await oracle.getPrice(token)));
+    }
+
+    // Oracle prices for one token over the last lookbackDays, ending with the current price
+    async getPriceWindow(token: string, lookbackDays: number = this.config.lookbackDays): Promise<PricePoint[]> {
+        const latest = await this.provider.getBlock('latest');
+        const startBlock = await this.findBlockByTimestamp(
+            latest.timestamp - lookbackDays * SECONDS_PER_DAY,
+            latest.number
+        );
+        const history = await this.getPriceHistory([utils.getAddress(token)], startBlock, latest.number);
+        const series = history.get(utils.getAddress(token))!;
+        series.push({ timestamp: latest.timestamp, price: await this.getCurrentPrice(token) });
+        return series;
+    }
+
+    async getPriceHistory(
+        tokens: string[],
+        fromBlock: number,
+        toBlock: number
+    ): Promise<Map<string, PricePoint[]>> {
+        const oracle = new Contract(this.config.priceOracle, ORACLE_ABI, this.provider);
+        const history = new Map<string, PricePoint[]>();
+
+        // Seed each series with the price in force when the window opens
+        for (const token of tokens) {
+            history.set(token, [{
+                timestamp: await this.getBlockTimestamp(fromBlock),
+                price: await this.getPriceAtBlock(token, fromBlock)
+            }]);
+        }
+
+        const updates = await this.queryEvents(oracle, oracle.filters.PriceUpdate(), fromBlock, toBlock);
+        for (const update of updates) {
+            const token = utils.getAddress(update.args!.token);
+            const series = history.get(token);
+            if (!series) continue;
+            series.push({
+                timestamp: await this.getBlockTimestamp(update.blockNumber),
+                price: Number(utils.formatEther(update.args!.price))
+            });
+        }
+
+        return history;
+    }
+
+    private async getPriceAtBlock(token: string, blockNumber: number): Promise<number> {
+        const oracle = new Contract(this.config.priceOracle, ORACLE_ABI, this.provider);
+        const price: BigNumber = await oracle.getPrice(token, { blockTag: blockNumber });
+        return Number(utils.formatEther(price));
+    }
+
+    // Valuation
+
+    private valuePosition(position: PortfolioPosition, priceOf: (token: string) => number): number {
+        return position.exposures.reduce(
+            (value, exposure) => value + exposure.amount * priceOf(exposure.token),
+            position.cash
+        );
+    }
+
+    private buildValuationSeries(
+        positions: PortfolioPosition[],
+        prices: Map<string, PricePoint[]>,
+        from: number,
+        to: number
+    ): ValuationPoint[] {
+        const timestamps: number[] = [];
+        for (let t = from; t < to; t += this.config.sampleInterval) {
+            timestamps.push(t);
+        }
+        timestamps.push(to);
+
+        const priceAt = (token: string, timestamp: number) => {
+            const series = prices.get(token) || [];
+            let price = 0;
+            for (const point of series) {
+                if (point.timestamp > timestamp) break;
+                price = point.price;
+            }
+            return price;
+        };
+
+        return timestamps.map((timestamp, i) => {
+            const previous = i === 0 ? -Infinity : timestamps[i - 1];
+            let value = 0;
+            let netFlow = 0;
+            for (const position of positions) {
+                if (position.openedAt > timestamp) continue;
+                const open = position.closedAt === undefined || position.closedAt > timestamp;
+                if (open) value += this.valuePosition(position, token => priceAt(token, timestamp));
+                if (position.openedAt > previous && i > 0) {
+                    netFlow += position.costBasis;
+                }
+                // Proceeds of a close leave the portfolio, so they are an outflow, not a loss
+                if (!open && position.closedAt! > previous && i > 0) {
+                    netFlow -= position.closeValue!;
+                }
+            }
+            return { timestamp, value, netFlow };
+        });
+    }
+
+    // Block helpers
+
+    private async getBlockTimestamp(blockNumber: number): Promise<number> {
+        let timestamp = this.blockTimestamps.get(blockNumber);
+        if (timestamp === undefined) {
+            timestamp = (await this.provider.getBlock(blockNumber)).timestamp;
+            this.blockTimestamps.set(blockNumber, timestamp);
+        }
+        return timestamp;
+    }
+
+    private async findBlockByTimestamp(timestamp: number, latestBlock: number): Promise<number> {
+        let low = this.config.startBlock;
+        let high = latestBlock;
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            if (await this.getBlockTimestamp(mid) < timestamp) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
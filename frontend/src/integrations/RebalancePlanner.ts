@@ -0,0 +1,197 @@
+import { providers, Contract, utils, BigNumber } from 'ethers';
+import { TokenRegistry, TokenAmount, NATIVE_TOKEN } from './TokenRegistry';
+import { PortfolioAnalytics } from './PortfolioAnalytics';
+import { FeeStrategy, FeeSpeed } from './FeeStrategy';
+import { SwapRouter } from './SwapRouter';
+import { planTrades, toBasisPoints, validateTargetWeights, weightDrifts } from '../utils/rebalance';
+
+export interface Allocation {
+    token: string;
+    percentage: number;
+}
+
+export interface RebalanceOptions {
+    driftThreshold?: number; // percentage points a token may drift before it is traded
+    minTradeValue?: number; // in quote currency
+    speed?: FeeSpeed; // fee tier used for the gas cost estimate
+}
+
+export interface HoldingDrift {
+    token: string;
+    amount: TokenAmount;
+    price: number;
+    value: number;
+    currentPercentage: number;
+    targetPercentage: number;
+    drift: number; // percentage points over (+) or under (-) target
+}
+
+export interface PlannedTrade {
+    from: string;
+    to: string;
+    amountIn: TokenAmount;
+    value: number;
+    expectedOut?: TokenAmount; // undefined when no pool route can be quoted
+    priceImpact?: number;
+}
+
+export interface RebalancePlan {
+    portfolio: string;
+    allocations: Allocation[];
+    totalValue: number;
+    holdings: HoldingDrift[];
+    trades: PlannedTrade[];
+    needsRebalance: boolean;
+    maxPriceImpact: number;
+    gasEstimate?: BigNumber;
+    gasCost?: TokenAmount; // native token, at the chosen fee tier
+    createdAt: number;
+}
+
+export const PORTFOLIO_ABI = [
+    'function rebalance(address[],uint256[]) returns (bool)',
+    'function getTokens() view returns (address[])'
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)'];
+
+const DEFAULT_OPTIONS: Required<Omit<RebalanceOptions, 'speed'>> = {
+    driftThreshold: 1,
+    minTradeValue: 0
+};
+
+export const validateAllocations = (allocations: Allocation[]) =>
+    validateTargetWeights(allocations.map(a => ({ token: a.token, weight: a.percentage / 100 })));
+
+export class RebalancePlanner {
+    private provider: providers.Provider;
+    private tokens: TokenRegistry;
+    private analytics: PortfolioAnalytics;
+    private feeStrategy: FeeStrategy;
+    private swaps?: SwapRouter;
+
+    constructor(
+        provider: providers.Provider,
+        tokens: TokenRegistry,
+        analytics: PortfolioAnalytics,
+        feeStrategy: FeeStrategy,
+        swaps?: SwapRouter
+    ) {
+        this.provider = provider;
+        this.tokens = tokens;
+        this.analytics = analytics;
+        this.feeStrategy = feeStrategy;
+        this.swaps = swaps;
+    }
+
+    // account is used as the sender when estimating gas; without it no gas figures are given
+    async plan(
+        portfolioAddress: string,
+        allocations: Allocation[],
+        account?: string,
+        options: RebalanceOptions = {}
+    ): Promise<RebalancePlan> {
+        validateAllocations(allocations);
+        const { driftThreshold, minTradeValue } = { ...DEFAULT_OPTIONS, ...options };
+
+        const portfolio = new Contract(portfolioAddress, PORTFOLIO_ABI, this.provider);
+        const held: string[] = await portfolio.getTokens();
+        const tokens = Array.from(new Set([...held, ...allocations.map(a => a.token)].map(t => utils.getAddress(t))));
+
+        const balances = await Promise.all(tokens.map(async token => {
+            const erc20 = new Contract(token, ERC20_BALANCE_ABI, this.provider);
+            const raw: BigNumber = await erc20.balanceOf(portfolioAddress);
+            const [amount, price] = await Promise.all([
+                this.tokens.toTokenAmount(token, raw),
+                this.analytics.getCurrentPrice(token)
+            ]);
+            return { token, amount, price, value: Number(amount.formatted) * price };
+        }));
+
+        const drifts = weightDrifts(
+            balances.map(b => ({ token: b.token, value: b.value })),
+            allocations.map(a => ({ token: utils.getAddress(a.token), weight: a.percentage / 100 }))
+        );
+        const valueTrades = planTrades(drifts, {
+            driftThreshold: driftThreshold / 100,
+            minTradeValue
+        });
+
+        const trades = await Promise.all(valueTrades.map(async trade => {
+            const from = balances.find(b => b.token === trade.from)!;
+            const amountIn = await this.tokens.parseAmount(
+                trade.from,
+                (trade.value / from.price).toFixed(from.amount.decimals)
+            );
+            return this.quoteTrade(trade.from, trade.to, amountIn, trade.value);
+        }));
+
+        const needsRebalance = trades.length > 0;
+        const plan: RebalancePlan = {
+            portfolio: portfolioAddress,
+            allocations,
+            totalValue: balances.reduce((sum, b) => sum + b.value, 0),
+            holdings: drifts.map(d => {
+                const balance = balances.find(b => b.token === d.token)!;
+                return {
+                    token: d.token,
+                    amount: balance.amount,
+                    price: balance.price,
+                    value: d.value,
+                    currentPercentage: d.currentWeight * 100,
+                    targetPercentage: d.targetWeight * 100,
+                    drift: d.drift * 100
+                };
+            }),
+            trades,
+            needsRebalance,
+            maxPriceImpact: trades.reduce((max, t) => Math.max(max, t.priceImpact || 0), 0),
+            createdAt: Math.floor(Date.now() / 1000)
+        };
+
+        if (needsRebalance && account) {
+            await this.estimateCost(plan, portfolio, account, options.speed);
+        }
+        return plan;
+    }
+
+    private async quoteTrade(from: string, to: string, amountIn: BigNumber, value: number): Promise<PlannedTrade> {
+        const trade: PlannedTrade = {
+            from,
+            to,
+            amountIn: await this.tokens.toTokenAmount(from, amountIn),
+            value
+        };
+        if (!this.swaps || amountIn.isZero()) return trade;
+
+        try {
+            const quote = await this.swaps.quoteExactIn(from, to, trade.amountIn.formatted, 0);
+            trade.expectedOut = quote.amountOut;
+            trade.priceImpact = quote.priceImpact;
+        } catch {
+            // No route with enough liquidity; the trade is still part of the plan
+        }
+        return trade;
+    }
+
+    private async estimateCost(plan: RebalancePlan, portfolio: Contract, account: string, speed?: FeeSpeed) {
+        const args = [
+            plan.allocations.map(a => a.token),
+            toBasisPoints(plan.allocations.map(a => a.percentage / 100))
+        ];
+        try {
+            const [gasEstimate, feeData] = await Promise.all([
+                this.feeStrategy.estimateGasLimit(portfolio, 'rebalance', args, { from: account }),
+                this.feeStrategy.getFeeData(speed)
+            ]);
+            plan.gasEstimate = gasEstimate;
+            plan.gasCost = await this.tokens.toTokenAmount(
+                NATIVE_TOKEN,
+                gasEstimate.mul(feeData.maxFeePerGas || feeData.gasPrice!)
+            );
+        } catch (error) {
+            // Estimation reverts when the account can't rebalance; the plan is still useful
+            console.error('Error estimating rebalance gas:', error);
+        }
+    }
+}
@@ -0,0 +1,211 @@
+import { BigNumber, BigNumberish, utils } from 'ethers';
+import { defiConfig } from './config';
+
+export type StrategyType = 'GRID_TRADING' | 'MEAN_REVERSION' | 'TREND_FOLLOWING';
+
+// Prices are 1e18 fixed-point; thresholds are plain fractions (0.05 = 5%)
+export interface GridTradingParams {
+    token0: string;
+    token1: string;
+    gridSize: number;
+    priceRange: {
+        min: BigNumberish;
+        max: BigNumberish;
+    };
+}
+
+export interface MeanReversionParams {
+    token0: string;
+    token1: string;
+    lookbackPeriod: number; // hours
+    deviationThreshold: number;
+}
+
+export interface TrendFollowingParams {
+    token0: string;
+    token1: string;
+    shortPeriod: number; // moving average lengths, in periods
+    longPeriod: number;
+    minTrendStrength: number;
+}
+
+export interface StrategyParamsMap {
+    GRID_TRADING: GridTradingParams;
+    MEAN_REVERSION: MeanReversionParams;
+    TREND_FOLLOWING: TrendFollowingParams;
+}
+
+export type StrategyParams = StrategyParamsMap[StrategyType];
+
+export interface StrategyLimits {
+    maxGrids: number;
+    minGridSpacing: number;
+    maxPriceRange: number;
+    lookbackPeriods: number[];
+    deviationThresholds: number[];
+    movingAverages: number[];
+    minimumTrend: number;
+}
+
+export class StrategyValidationError extends Error {
+    violations: string[];
+
+    constructor(strategyType: string, violations: string[]) {
+        super(`Invalid ${strategyType} parameters: ${violations.join('; ')}`);
+        this.name = 'StrategyValidationError';
+        this.violations = violations;
+    }
+}
+
+export const DEFAULT_STRATEGY_LIMITS: StrategyLimits = {
+    maxGrids: defiConfig.tradingStrategies.gridTrading.maxGrids,
+    minGridSpacing: defiConfig.tradingStrategies.gridTrading.minGridSpacing,
+    maxPriceRange: defiConfig.tradingStrategies.gridTrading.maxPriceRange,
+    lookbackPeriods: defiConfig.tradingStrategies.meanReversion.lookbackPeriods,
+    deviationThresholds: defiConfig.tradingStrategies.meanReversion.deviationThresholds,
+    movingAverages: defiConfig.tradingStrategies.trendFollowing.movingAverages,
+    minimumTrend: defiConfig.tradingStrategies.trendFollowing.minimumTrend
+};
+
+const PARAM_TYPES: Record<StrategyType, string[]> = {
+    GRID_TRADING: ['address', 'address', 'uint256', 'uint256', 'uint256'],
+    MEAN_REVERSION: ['address', 'address', 'uint256', 'uint256'],
+    TREND_FOLLOWING: ['address', 'address', 'uint256', 'uint256', 'uint256']
+};
+
+const WAD = BigNumber.from(10).pow(18);
+const FRACTION_PRECISION = 1e6;
+
+const toWad = (fraction: number): BigNumber =>
+    BigNumber.from(Math.round(fraction * FRACTION_PRECISION)).mul(WAD).div(FRACTION_PRECISION);
+
+const fromWad = (value: BigNumber): number => Number(utils.formatEther(value));
+
+export const isStrategyType = (value: string): value is StrategyType => value in PARAM_TYPES;
+
+export function validateStrategyParams<T extends StrategyType>(
+    strategyType: T,
+    params: StrategyParamsMap[T],
+    limits: StrategyLimits = DEFAULT_STRATEGY_LIMITS
+) {
+    if (!isStrategyType(strategyType)) throw new Error(`Unknown strategy type ${strategyType}`);
+
+    const violations: string[] = [];
+    const check = (condition: boolean, message: string) => {
+        if (!condition) violations.push(message);
+    };
+
+    check(utils.isAddress(params.token0), 'token0 is not an address');
+    check(utils.isAddress(params.token1), 'token1 is not an address');
+
+    switch (strategyType) {
+        case 'GRID_TRADING': {
+            const { gridSize, priceRange } = params as GridTradingParams;
+            const min = BigNumber.from(priceRange.min);
+            const max = BigNumber.from(priceRange.max);
+            check(Number.isInteger(gridSize) && gridSize >= 2, 'gridSize must be an integer of at least 2');
+            check(gridSize <= limits.maxGrids, `gridSize exceeds the maximum of ${limits.maxGrids}`);
+            check(min.gt(0) && max.gt(min), 'priceRange.max must be above a positive priceRange.min');
+            if (min.gt(0) && max.gt(min)) {
+                // Both limits are relative to the middle of the range
+                const range = fromWad(max.sub(min).mul(2).mul(WAD).div(max.add(min)));
+                check(range <= limits.maxPriceRange, `price range ${range} exceeds the maximum of ${limits.maxPriceRange}`);
+                check(
+                    gridSize < 2 || range / (gridSize - 1) >= limits.minGridSpacing,
+                    `grid spacing is below the minimum of ${limits.minGridSpacing}`
+                );
+            }
+            break;
+        }
+        case 'MEAN_REVERSION': {
+            const { lookbackPeriod, deviationThreshold } = params as MeanReversionParams;
+            const [minLookback, maxLookback] = bounds(limits.lookbackPeriods);
+            const [minDeviation, maxDeviation] = bounds(limits.deviationThresholds);
+            check(
+                Number.isInteger(lookbackPeriod) && lookbackPeriod >= minLookback && lookbackPeriod <= maxLookback,
+                `lookbackPeriod must be between ${minLookback} and ${maxLookback} hours`
+            );
+            check(
+                deviationThreshold >= minDeviation && deviationThreshold <= maxDeviation,
+                `deviationThreshold must be between ${minDeviation} and ${maxDeviation}`
+            );
+            break;
+        }
+        case 'TREND_FOLLOWING': {
+            const { shortPeriod, longPeriod, minTrendStrength } = params as TrendFollowingParams;
+            const [minPeriod, maxPeriod] = bounds(limits.movingAverages);
+            for (const [name, period] of [['shortPeriod', shortPeriod], ['longPeriod', longPeriod]] as const) {
+                check(
+                    Number.isInteger(period) && period >= minPeriod && period <= maxPeriod,
+                    `${name} must be between ${minPeriod} and ${maxPeriod}`
+                );
+            }
+            check(shortPeriod < longPeriod, 'shortPeriod must be shorter than longPeriod');
+            check(minTrendStrength >= limits.minimumTrend, `minTrendStrength is below the minimum of ${limits.minimumTrend}`);
+            break;
+        }
+    }
+
+    if (violations.length > 0) throw new StrategyValidationError(strategyType, violations);
+}
+
+export function encodeStrategyParams<T extends StrategyType>(
+    strategyType: T,
+    params: StrategyParamsMap[T],
+    limits: StrategyLimits = DEFAULT_STRATEGY_LIMITS
+): string {
+    validateStrategyParams(strategyType, params, limits);
+    return utils.defaultAbiCoder.encode(PARAM_TYPES[strategyType], toValues(strategyType, params));
+}
+
+export function decodeStrategyParams<T extends StrategyType>(strategyType: T, data: string): StrategyParamsMap[T] {
+    if (!isStrategyType(strategyType)) throw new Error(`Unknown strategy type ${strategyType}`);
+    const values = utils.defaultAbiCoder.decode(PARAM_TYPES[strategyType], data);
+    const [token0, token1] = values;
+
+    switch (strategyType as StrategyType) {
+        case 'GRID_TRADING':
+            return {
+                token0,
+                token1,
+                gridSize: values[2].toNumber(),
+                priceRange: { min: values[3], max: values[4] }
+            } as StrategyParamsMap[T];
+        case 'MEAN_REVERSION':
+            return {
+                token0,
+                token1,
+                lookbackPeriod: values[2].toNumber(),
+                deviationThreshold: fromWad(values[3])
+            } as StrategyParamsMap[T];
+        case 'TREND_FOLLOWING':
+            return {
+                token0,
+                token1,
+                shortPeriod: values[2].toNumber(),
+                longPeriod: values[3].toNumber(),
+                minTrendStrength: fromWad(values[4])
+            } as StrategyParamsMap[T];
+    }
+}
+
+function toValues(strategyType: StrategyType, params: StrategyParams): any[] {
+    switch (strategyType) {
+        case 'GRID_TRADING': {
+            const p = params as GridTradingParams;
+            return [p.token0, p.token1, p.gridSize, p.priceRange.min, p.priceRange.max];
+        }
+        case 'MEAN_REVERSION': {
+            const p = params as MeanReversionParams;
+            return [p.token0, p.token1, p.lookbackPeriod, toWad(p.deviationThreshold)];
+        }
+        case 'TREND_FOLLOWING': {
+            const p = params as TrendFollowingParams;
+            return [p.token0, p.token1, p.shortPeriod, p.longPeriod, toWad(p.minTrendStrength)];
+        }
+    }
+}
+
+function bounds(values: number[]): [number, number] {
+    return [Math.min(...values), Math.max(...values)];
+}
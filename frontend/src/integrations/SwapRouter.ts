@@ -0,0 +1,241 @@
+import { providers, Contract, utils, BigNumber } from 'ethers';
+import { TokenRegistry, TokenAmount, NATIVE_TOKEN } from './TokenRegistry';
+import {
+    HopReserves,
+    applySlippage,
+    getAmountsIn,
+    getAmountsOut,
+    pathPriceImpact
+} from '../utils/ammMath';
+
+export type TradeType = 'exactIn' | 'exactOut';
+
+export interface SwapQuote {
+    tradeType: TradeType;
+    tokenIn: string; // NATIVE_TOKEN for the chain's native coin
+    tokenOut: string;
+    path: string[]; // router path, with WETH in place of the native coin
+    amountIn: TokenAmount;
+    amountOut: TokenAmount;
+    amountInMax: TokenAmount; // exactOut: most the swap may take after slippage
+    amountOutMin: TokenAmount; // exactIn: least the swap may return after slippage
+    slippageTolerance: number; // percent
+    priceImpact: number; // fraction of the output lost to pool depth and fees
+    executionPrice: number; // tokenOut per tokenIn
+    midPrice: number; // tokenOut per tokenIn before the trade moves the pools
+}
+
+export const UNISWAP_V2_ROUTER_ABI = [
+    'function factory() view returns (address)',
+    'function WETH() view returns (address)',
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+    'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+    'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+    'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+    'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+    'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)'
+];
+
+export const WETH_ABI = [
+    'function deposit() payable',
+    'function withdraw(uint256 wad)',
+    'function balanceOf(address account) view returns (uint256)'
+];
+
+const FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address pair)'];
+
+const PAIR_ABI = [
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'function token0() view returns (address)'
+];
+
+const DEFAULT_MAX_HOPS = 3;
+
+// Finds routes through Uniswap V2 pairs and quotes them off-chain from pair reserves
+export class SwapRouter {
+    private provider: providers.Provider;
+    private tokens: TokenRegistry;
+    private router: Contract;
+    private intermediates: string[];
+    private maxHops: number;
+    private factory?: Promise<Contract>;
+    private weth?: Promise<string>;
+    private pairs: Map<string, Promise<string | null>> = new Map();
+
+    constructor(
+        provider: providers.Provider,
+        tokens: TokenRegistry,
+        routerAddress: string,
+        options: { weth?: string; intermediates?: string[]; maxHops?: number } = {}
+    ) {
+        this.provider = provider;
+        this.tokens = tokens;
+        this.router = new Contract(routerAddress, UNISWAP_V2_ROUTER_ABI, provider);
+        if (options.weth) this.weth = Promise.resolve(utils.getAddress(options.weth));
+        this.intermediates = (options.intermediates || []).map(t => utils.getAddress(t));
+        this.maxHops = options.maxHops || DEFAULT_MAX_HOPS;
+    }
+
+    get address(): string {
+        return this.router.address;
+    }
+
+    getWeth(): Promise<string> {
+        if (!this.weth) this.weth = this.router.WETH().then(utils.getAddress);
+        return this.weth!;
+    }
+
+    // Native coin swaps route through WETH
+    async toRouteToken(token: string): Promise<string> {
+        return token === NATIVE_TOKEN ? this.getWeth() : utils.getAddress(token);
+    }
+
+    // Paths of up to maxHops pairs that exist, through WETH and the configured intermediates
+    async findRoutes(tokenIn: string, tokenOut: string): Promise<string[][]> {
+        const [from, to, weth] = await Promise.all([
+            this.toRouteToken(tokenIn),
+            this.toRouteToken(tokenOut),
+            this.getWeth()
+        ]);
+        if (from === to) throw new Error("Cannot swap a token for itself");
+
+        const hubs = Array.from(new Set([weth, ...this.intermediates])).filter(t => t !== from && t !== to);
+        const candidates: string[][] = [[from, to]];
+        const extend = (path: string[]) => {
+            for (const hub of hubs) {
+                const next = [...path, hub];
+                if (path.includes(hub) || next.length > this.maxHops) continue;
+                candidates.push([...next, to]);
+                extend(next);
+            }
+        };
+        extend([from]);
+
+        const routable = await Promise.all(candidates.map(async path => {
+            const pairs = await Promise.all(path.slice(1).map((token, i) => this.getPair(path[i], token)));
+            return pairs.every(p => p !== null) ? path : null;
+        }));
+        return routable.filter((p): p is string[] => p !== null);
+    }
+
+    async quoteExactIn(tokenIn: string, tokenOut: string, amount: string, slippageTolerance: number): Promise<SwapQuote> {
+        const amountIn = await this.tokens.parseAmount(tokenIn, amount);
+        if (amountIn.lte(0)) throw new Error("Swap amount must be positive");
+
+        const quotes = await this.quoteRoutes(tokenIn, tokenOut, hops => {
+            const amounts = getAmountsOut(amountIn, hops);
+            return [amountIn, amounts[amounts.length - 1]];
+        });
+        const best = quotes.reduce((a, b) => (b.amountOut.gt(a.amountOut) ? b : a));
+        return this.toQuote('exactIn', tokenIn, tokenOut, best, slippageTolerance);
+    }
+
+    async quoteExactOut(tokenIn: string, tokenOut: string, amount: string, slippageTolerance: number): Promise<SwapQuote> {
+        const amountOut = await this.tokens.parseAmount(tokenOut, amount);
+        if (amountOut.lte(0)) throw new Error("Swap amount must be positive");
+
+        const quotes = await this.quoteRoutes(tokenIn, tokenOut, hops => {
+            const amounts = getAmountsIn(amountOut, hops);
+            return [amounts[0], amountOut];
+        });
+        const best = quotes.reduce((a, b) => (b.amountIn.lt(a.amountIn) ? b : a));
+        return this.toQuote('exactOut', tokenIn, tokenOut, best, slippageTolerance);
+    }
+
+    // Quotes every route; routes too shallow for the amount are skipped
+    private async quoteRoutes(
+        tokenIn: string,
+        tokenOut: string,
+        quote: (hops: HopReserves[]) => [BigNumber, BigNumber]
+    ): Promise<{ path: string[]; hops: HopReserves[]; amountIn: BigNumber; amountOut: BigNumber }[]> {
+        const routes = await this.findRoutes(tokenIn, tokenOut);
+        if (routes.length === 0) throw new Error(`No route from ${tokenIn} to ${tokenOut}`);
+
+        const quotes = await Promise.all(routes.map(async path => {
+            const hops = await Promise.all(path.slice(1).map((token, i) => this.getHopReserves(path[i], token)));
+            try {
+                const [amountIn, amountOut] = quote(hops);
+                return { path, hops, amountIn, amountOut };
+            } catch {
+                return null;
+            }
+        }));
+
+        const quoted = quotes.filter((q): q is NonNullable<typeof q> => q !== null);
+        if (quoted.length === 0) throw new Error("Insufficient liquidity for this swap");
+        return quoted;
+    }
+
+    private async toQuote(
+        tradeType: TradeType,
+        tokenIn: string,
+        tokenOut: string,
+        route: { path: string[]; hops: HopReserves[]; amountIn: BigNumber; amountOut: BigNumber },
+        slippageTolerance: number
+    ): Promise<SwapQuote> {
+        // Largest input that still loses no more than the tolerance, the inverse of applySlippage
+        const amountInMax = tradeType === 'exactOut'
+            ? route.amountIn.mul(10000).div(10000 - Math.round(slippageTolerance * 100))
+            : route.amountIn;
+        const amountOutMin = tradeType === 'exactIn'
+            ? applySlippage(route.amountOut, slippageTolerance)
+            : route.amountOut;
+
+        const [amountIn, amountOut, maxIn, minOut] = await Promise.all([
+            this.tokens.toTokenAmount(tokenIn, route.amountIn),
+            this.tokens.toTokenAmount(tokenOut, route.amountOut),
+            this.tokens.toTokenAmount(tokenIn, amountInMax),
+            this.tokens.toTokenAmount(tokenOut, amountOutMin)
+        ]);
+
+        const executionPrice = Number(amountOut.formatted) / Number(amountIn.formatted);
+        const priceImpact = pathPriceImpact(route.amountIn, route.amountOut, route.hops);
+
+        return {
+            tradeType,
+            tokenIn,
+            tokenOut,
+            path: route.path,
+            amountIn,
+            amountOut,
+            amountInMax: maxIn,
+            amountOutMin: minOut,
+            slippageTolerance,
+            priceImpact,
+            executionPrice,
+            midPrice: executionPrice / (1 - priceImpact)
+        };
+    }
+
+    private getFactory(): Promise<Contract> {
+        if (!this.factory) {
+            this.factory = this.router.factory().then(
+                (address: string) => new Contract(address, FACTORY_ABI, this.provider)
+            );
+        }
+        return this.factory!;
+    }
+
+    // Pair addresses never change, so lookups are cached; null when the pair doesn't exist
+    private getPair(tokenA: string, tokenB: string): Promise<string | null> {
+        const key = [tokenA, tokenB].sort().join(':');
+        if (!this.pairs.has(key)) {
+            this.pairs.set(key, this.getFactory()
+                .then(factory => factory.getPair(tokenA, tokenB))
+                .then((pair: string) => (pair === NATIVE_TOKEN ? null : pair))
+                .catch(error => {
+                    this.pairs.delete(key);
+                    throw error;
+                }));
+        }
+        return this.pairs.get(key)!;
+    }
+
+    private async getHopReserves(tokenIn: string, tokenOut: string): Promise<HopReserves> {
+        const pair = new Contract((await this.getPair(tokenIn, tokenOut))!, PAIR_ABI, this.provider);
+        const [[reserve0, reserve1], token0] = await Promise.all([pair.getReserves(), pair.token0()]);
+        return utils.getAddress(token0) === tokenIn
+            ? { reserveIn: reserve0, reserveOut: reserve1 }
+            : { reserveIn: reserve1, reserveOut: reserve0 };
+    }
+}
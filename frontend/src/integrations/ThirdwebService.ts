@@ -1,17 +1,30 @@
 import { ThirdwebSDK } from "@thirdweb-dev/sdk";
 import { Chain } from "@thirdweb-dev/chains";
+import { NameService, isName } from "./NameService";
+import { getEnvironmentConfig } from "./config";
 
 class ThirdwebService {
     private sdk: ThirdwebSDK | null = null;
     private chain: Chain;
+    private names: NameService | null = null;
 
-    async initialize(chain: Chain, privateKey?: string) {
+    async initialize(chain: Chain, privateKey?: string, ensRegistry?: string) {
         if (privateKey) {
             this.sdk = ThirdwebSDK.fromPrivateKey(privateKey, chain);
         } else {
             this.sdk = new ThirdwebSDK(chain);
         }
         this.chain = chain;
+
+        const registry = ensRegistry || getEnvironmentConfig().contracts.ensRegistry;
+        this.names = registry ? new NameService(this.sdk.getProvider(), registry) : null;
+    }
+
+    // Names registered on the chain's ENSRegistry are accepted wherever an address is
+    async resolveAddress(addressOrName: string): Promise<string> {
+        if (!isName(addressOrName)) return addressOrName;
+        if (!this.names) throw new Error("No ENS registry configured");
+        return this.names.resolveAddress(addressOrName);
     }
 
     async deployToken(
@@ -80,6 +93,7 @@ class ThirdwebService {
     async getContract(contractAddress: string) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            contractAddress = await this.resolveAddress(contractAddress);
             
             const contract = await this.sdk.getContract(contractAddress);
             return contract;
@@ -96,6 +110,8 @@ class ThirdwebService {
     ) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            contractAddress = await this.resolveAddress(contractAddress);
+            recipient = await this.resolveAddress(recipient);
             
             const contract = await this.sdk.getContract(contractAddress);
             const tx = await contract.erc20.mint(amount, recipient);
@@ -113,6 +129,8 @@ class ThirdwebService {
     ) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            contractAddress = await this.resolveAddress(contractAddress);
+            recipient = await this.resolveAddress(recipient);
             
             const contract = await this.sdk.getContract(contractAddress);
             const tx = await contract.erc721.mint({
@@ -134,6 +152,8 @@ class ThirdwebService {
     ) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            marketplaceAddress = await this.resolveAddress(marketplaceAddress);
+            assetContractAddress = await this.resolveAddress(assetContractAddress);
             
             const marketplace = await this.sdk.getContract(marketplaceAddress);
             const tx = await marketplace.direct.createListing({
@@ -156,6 +176,7 @@ class ThirdwebService {
     ) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            marketplaceAddress = await this.resolveAddress(marketplaceAddress);
             
             const marketplace = await this.sdk.getContract(marketplaceAddress);
             const tx = await marketplace.direct.buyoutListing(listingId, quantity);
@@ -169,6 +190,7 @@ class ThirdwebService {
     async getBalance(address: string) {
         try {
             if (!this.sdk) throw new Error("SDK not initialized");
+            address = await this.resolveAddress(address);
             
             const balance = await this.sdk.wallet.balance(address);
             return balance;
@@ -0,0 +1,100 @@
+import { providers, Contract, utils, BigNumber, BigNumberish } from 'ethers';
+import { defiConfig } from './config';
+
+export interface TokenMetadata {
+    address: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+}
+
+// An on-chain amount alongside its human-readable form
+export interface TokenAmount {
+    token: string;
+    symbol: string;
+    decimals: number;
+    raw: BigNumber;
+    formatted: string;
+}
+
+const ERC20_METADATA_ABI = [
+    'function symbol() view returns (string)',
+    'function name() view returns (string)',
+    'function decimals() view returns (uint8)'
+];
+
+export const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+export class TokenRegistry {
+    private provider: providers.Provider;
+    private tokens: Map<string, Promise<TokenMetadata>> = new Map();
+
+    constructor(provider: providers.Provider, nativeSymbol: string = 'C138') {
+        this.provider = provider;
+        this.register({ address: NATIVE_TOKEN, symbol: nativeSymbol, name: nativeSymbol, decimals: 18 });
+
+        for (const collateral of defiConfig.marginPools.supportedCollateral) {
+            if (!utils.isAddress(collateral.token)) continue;
+            this.register({
+                address: collateral.token,
+                symbol: collateral.name,
+                name: collateral.name,
+                decimals: collateral.decimals
+            });
+        }
+    }
+
+    register(metadata: TokenMetadata) {
+        const address = utils.getAddress(metadata.address);
+        this.tokens.set(address, Promise.resolve({ ...metadata, address }));
+    }
+
+    async getMetadata(token: string): Promise<TokenMetadata> {
+        const address = utils.getAddress(token);
+        let metadata = this.tokens.get(address);
+        if (!metadata) {
+            metadata = this.fetchMetadata(address);
+            // Cache the in-flight lookup so parallel callers share one round of calls
+            this.tokens.set(address, metadata);
+            metadata.catch(() => this.tokens.delete(address));
+        }
+        return metadata;
+    }
+
+    async getDecimals(token: string): Promise<number> {
+        return (await this.getMetadata(token)).decimals;
+    }
+
+    async parseAmount(token: string, amount: string): Promise<BigNumber> {
+        return utils.parseUnits(amount, await this.getDecimals(token));
+    }
+
+    async formatAmount(token: string, raw: BigNumberish): Promise<string> {
+        return utils.formatUnits(raw, await this.getDecimals(token));
+    }
+
+    async toTokenAmount(token: string, raw: BigNumberish): Promise<TokenAmount> {
+        const metadata = await this.getMetadata(token);
+        return {
+            token: metadata.address,
+            symbol: metadata.symbol,
+            decimals: metadata.decimals,
+            raw: BigNumber.from(raw),
+            formatted: utils.formatUnits(raw, metadata.decimals)
+        };
+    }
+
+    async fromHuman(token: string, amount: string): Promise<TokenAmount> {
+        return this.toTokenAmount(token, await this.parseAmount(token, amount));
+    }
+
+    private async fetchMetadata(address: string): Promise<TokenMetadata> {
+        const erc20 = new Contract(address, ERC20_METADATA_ABI, this.provider);
+        const [symbol, name, decimals] = await Promise.all([
+            erc20.symbol().catch(() => ''),
+            erc20.name().catch(() => ''),
+            erc20.decimals()
+        ]);
+        return { address, symbol, name, decimals };
+    }
+}
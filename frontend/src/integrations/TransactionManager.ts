@@ -0,0 +1,432 @@
+import { providers, Signer, BigNumber, Bytes, utils, TypedDataDomain, TypedDataField } from 'ethers';
+import { TypedEmitter } from '../utils/emitter';
+import { StorageAdapter, getDefaultStorage, readJson, writeJson } from '../utils/storage';
+
+export type TransactionStatus = 'pending' | 'mined' | 'cancelled' | 'replaced' | 'dropped';
+
+// Enough of the signed request to rebuild it with higher fees; quantities are decimal strings
+export interface StoredRequest {
+    to?: string;
+    data: string;
+    value: string;
+    gasLimit: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+}
+
+export interface TrackedTransaction {
+    id: string; // hash of the first submission; stays the same across speed-ups
+    account: string;
+    chainId: number;
+    nonce: number;
+    hash: string; // latest submission
+    hashes: string[];
+    request: StoredRequest;
+    status: TransactionStatus;
+    submittedAt: number;
+    lastSeenAt: number; // last time a node still knew about any of the hashes
+    cancelHash?: string;
+    minedHash?: string;
+    blockNumber?: number;
+    success?: boolean;
+}
+
+export interface TransactionManagerEvents {
+    submitted: (tx: TrackedTransaction) => void;
+    mined: (tx: TrackedTransaction, receipt: providers.TransactionReceipt) => void;
+    replaced: (tx: TrackedTransaction, previousHash: string) => void;
+    dropped: (tx: TrackedTransaction) => void;
+}
+
+export interface TransactionManagerOptions {
+    storage?: StorageAdapter;
+    pollInterval?: number; // ms between checks on pending transactions
+    dropTimeout?: number; // ms a transaction may be unknown to the node before it counts as dropped
+    bumpPercent?: number; // fee increase for replacements; nodes require at least 10
+    historyLimit?: number; // finished transactions kept per account
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TransactionManagerOptions, 'storage'>> = {
+    pollInterval: 4000,
+    dropTimeout: 10 * 60 * 1000,
+    bumpPercent: 12.5,
+    historyLimit: 100
+};
+
+const CANCEL_GAS_LIMIT = 21000;
+
+interface TypedDataSigner extends Signer {
+    _signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, TypedDataField[]>,
+        value: Record<string, any>
+    ): Promise<string>;
+}
+
+// Hands out nonces locally so concurrent writes from one account don't collide,
+// tracks what it sent until it is mined, replaced or dropped, and keeps the
+// queue in storage so a restarted process picks up where it left off
+export class TransactionManager extends TypedEmitter<TransactionManagerEvents> {
+    private provider: providers.Provider;
+    private storage: StorageAdapter;
+    private options: Required<Omit<TransactionManagerOptions, 'storage'>>;
+    private signers: Set<Signer> = new Set();
+    private account: string | null = null;
+    private chainId: number | null = null;
+    private nextNonce?: number;
+    private queue: Promise<unknown> = Promise.resolve();
+    private transactions: Map<string, TrackedTransaction> = new Map();
+    private timer?: ReturnType<typeof setInterval>;
+    private polling = false;
+
+    constructor(provider: providers.Provider, options: TransactionManagerOptions = {}) {
+        super();
+        this.provider = provider;
+        this.storage = options.storage || getDefaultStorage();
+        const { storage, ...rest } = options;
+        this.options = { ...DEFAULT_OPTIONS, ...rest };
+    }
+
+    // Services on one chain share a manager, so several signers can be attached at once
+    async attach(signer: Signer): Promise<ManagedSigner> {
+        this.signers.add(signer);
+        await this.enqueue(() => this.syncAccount(signer));
+        return new ManagedSigner(this, signer);
+    }
+
+    // Without a signer, detaches all of them
+    detach(signer?: Signer) {
+        if (signer) {
+            this.signers.delete(signer instanceof ManagedSigner ? signer.signer : signer);
+        } else {
+            this.signers.clear();
+        }
+        if (this.signers.size > 0) return;
+
+        this.stopWatching();
+        this.account = null;
+        this.chainId = null;
+        this.nextNonce = undefined;
+        this.transactions.clear();
+    }
+
+    getTransactions(status?: TransactionStatus): TrackedTransaction[] {
+        const all = Array.from(this.transactions.values()).sort((a, b) => a.nonce - b.nonce);
+        return status ? all.filter(tx => tx.status === status) : all;
+    }
+
+    getTransaction(idOrHash: string): TrackedTransaction | undefined {
+        return this.transactions.get(idOrHash)
+            || this.getTransactions().find(tx => tx.hashes.includes(idOrHash));
+    }
+
+    // Sends are serialised so each one gets the next nonce; a send that fails
+    // before reaching the node leaves its nonce free for the next
+    send(
+        request: utils.Deferrable<providers.TransactionRequest>,
+        signer: Signer = this.requireSigner()
+    ): Promise<providers.TransactionResponse> {
+        return this.enqueue(async () => {
+            await this.syncAccount(signer);
+
+            const nonce = await this.allocateNonce();
+            const response = await signer.sendTransaction({ ...request, nonce });
+            this.nextNonce = nonce + 1;
+
+            const now = Date.now();
+            const tracked: TrackedTransaction = {
+                id: response.hash,
+                account: this.account!,
+                chainId: this.chainId!,
+                nonce,
+                hash: response.hash,
+                hashes: [response.hash],
+                request: toStoredRequest(response),
+                status: 'pending',
+                submittedAt: now,
+                lastSeenAt: now
+            };
+            this.transactions.set(tracked.id, tracked);
+            this.save();
+            this.emit('submitted', tracked);
+            this.startWatching();
+            return response;
+        });
+    }
+
+    // Resends the same call with the same nonce and higher fees
+    async speedUp(idOrHash: string): Promise<providers.TransactionResponse> {
+        return this.replace(idOrHash, tx => ({
+            to: tx.request.to,
+            data: tx.request.data,
+            value: tx.request.value,
+            gasLimit: tx.request.gasLimit
+        }));
+    }
+
+    // Takes the nonce with an empty self-transfer, so the original can never be mined
+    async cancel(idOrHash: string): Promise<providers.TransactionResponse> {
+        return this.replace(idOrHash, tx => ({
+            to: tx.account,
+            data: '0x',
+            value: 0,
+            gasLimit: CANCEL_GAS_LIMIT
+        }), true);
+    }
+
+    // Queued with sends, so two replacements of one nonce can't both bump the same fees
+    private replace(
+        idOrHash: string,
+        build: (tx: TrackedTransaction) => providers.TransactionRequest,
+        cancelling = false
+    ): Promise<providers.TransactionResponse> {
+        return this.enqueue(async () => {
+            const tx = this.getTransaction(idOrHash);
+            if (!tx || tx.status !== 'pending') throw new Error(`Transaction ${idOrHash} is not pending`);
+            const signer = await this.signerFor(tx.account);
+
+            const response = await signer.sendTransaction({
+                ...build(tx),
+                ...(await this.bumpedFees(tx.request)),
+                nonce: tx.nonce
+            });
+
+            const previousHash = tx.hash;
+            tx.hash = response.hash;
+            tx.hashes.push(response.hash);
+            tx.request = toStoredRequest(response);
+            tx.lastSeenAt = Date.now();
+            if (cancelling) tx.cancelHash = response.hash;
+            this.save();
+            this.emit('replaced', tx, previousHash);
+            return response;
+        });
+    }
+
+    // Replacements must raise both fee fields; current network fees are used when higher
+    private async bumpedFees(request: StoredRequest): Promise<providers.TransactionRequest> {
+        const bump = (value: string) => {
+            const raised = BigNumber.from(value).mul(Math.round((100 + this.options.bumpPercent) * 100)).div(10000);
+            return raised.gt(value) ? raised : raised.add(1);
+        };
+        const max = (a: BigNumber, b?: BigNumber | null) => (b && b.gt(a) ? b : a);
+        const current = await this.provider.getFeeData();
+
+        if (request.maxFeePerGas && request.maxPriorityFeePerGas) {
+            return {
+                maxFeePerGas: max(bump(request.maxFeePerGas), current.maxFeePerGas),
+                maxPriorityFeePerGas: max(bump(request.maxPriorityFeePerGas), current.maxPriorityFeePerGas)
+            };
+        }
+        return { gasPrice: max(bump(request.gasPrice || '0'), current.gasPrice) };
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private requireSigner(): Signer {
+        const [signer] = this.signers;
+        if (!signer) throw new Error("Not connected");
+        return signer;
+    }
+
+    private async signerFor(account: string): Promise<Signer> {
+        for (const signer of this.signers) {
+            if (await signer.getAddress() === account) return signer;
+        }
+        throw new Error(`No signer attached for ${account}`);
+    }
+
+    // Injected wallets can switch account or chain between sends, and attached signers can
+    // belong to different accounts; each pair keeps its own saved transactions
+    private async syncAccount(signer: Signer) {
+        const [account, chainId] = await Promise.all([signer.getAddress(), signer.getChainId()]);
+        if (account === this.account && chainId === this.chainId) return;
+
+        this.stopWatching();
+        this.account = account;
+        this.chainId = chainId;
+        this.nextNonce = undefined;
+        this.transactions = new Map(
+            readJson<TrackedTransaction[]>(this.storage, this.storageKey(), []).map(tx => [tx.id, tx])
+        );
+        if (this.getTransactions('pending').length > 0) this.startWatching();
+    }
+
+    private async allocateNonce(): Promise<number> {
+        if (this.nextNonce === undefined) {
+            const onChain = await this.provider.getTransactionCount(this.account!, 'pending');
+            // The node may have forgotten transactions we still consider pending
+            const tracked = this.getTransactions('pending').reduce((next, tx) => Math.max(next, tx.nonce + 1), 0);
+            this.nextNonce = Math.max(onChain, tracked);
+        }
+        return this.nextNonce;
+    }
+
+    private startWatching() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.poll(), this.options.pollInterval);
+        // Don't hold a Node process open just to watch
+        if (typeof this.timer === 'object') this.timer.unref();
+    }
+
+    private stopWatching() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    async poll() {
+        if (this.polling || !this.account) return;
+        const pending = this.getTransactions('pending');
+        if (pending.length === 0) return this.stopWatching();
+
+        this.polling = true;
+        try {
+            // Read the mined nonce first, so a receipt that lands in between isn't mistaken for a replacement
+            const minedCount = await this.provider.getTransactionCount(this.account, 'latest');
+            for (const tx of pending) {
+                await this.check(tx, minedCount);
+            }
+            this.save();
+        } catch (error) {
+            console.error('Error checking pending transactions:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async check(tx: TrackedTransaction, minedCount: number) {
+        const receipts = await Promise.all(tx.hashes.map(hash => this.provider.getTransactionReceipt(hash)));
+        const receipt = receipts.find(r => r);
+        if (receipt) {
+            tx.status = receipt.transactionHash === tx.cancelHash ? 'cancelled' : 'mined';
+            tx.minedHash = receipt.transactionHash;
+            tx.blockNumber = receipt.blockNumber;
+            tx.success = receipt.status === 1;
+            this.emit('mined', tx, receipt);
+            return;
+        }
+
+        if (minedCount > tx.nonce) {
+            // Something we didn't send took the nonce, e.g. a replacement from another wallet
+            tx.status = 'replaced';
+            this.emit('replaced', tx, tx.hash);
+            return;
+        }
+
+        const known = await Promise.all(tx.hashes.map(hash => this.provider.getTransaction(hash)));
+        if (known.some(t => t)) {
+            tx.lastSeenAt = Date.now();
+        } else if (Date.now() - tx.lastSeenAt >= this.options.dropTimeout) {
+            tx.status = 'dropped';
+            this.nextNonce = undefined; // the nonce is free again
+            this.emit('dropped', tx);
+        }
+    }
+
+    private storageKey(): string {
+        return `transactions:${this.chainId}:${this.account!.toLowerCase()}`;
+    }
+
+    private save() {
+        if (!this.account) return;
+        const all = this.getTransactions();
+        const finished = all.filter(tx => tx.status !== 'pending');
+        const dropping = new Set(finished.slice(0, Math.max(finished.length - this.options.historyLimit, 0)));
+        for (const tx of dropping) this.transactions.delete(tx.id);
+        writeJson(this.storage, this.storageKey(), all.filter(tx => !dropping.has(tx)));
+    }
+}
+
+// Managers save under the chain and account, so every service sending on a chain has to
+// use the same one: two would hand out the same nonces and overwrite each other's list
+export class TransactionManagerRegistry {
+    private static shared: WeakMap<StorageAdapter, TransactionManagerRegistry> = new WeakMap();
+    private managers: Map<number, TransactionManager> = new Map();
+    private options: TransactionManagerOptions;
+
+    constructor(options: TransactionManagerOptions = {}) {
+        this.options = options;
+    }
+
+    // The registry for everything saved in one storage, for services not given one
+    static forStorage(storage: StorageAdapter): TransactionManagerRegistry {
+        let registry = TransactionManagerRegistry.shared.get(storage);
+        if (!registry) {
+            registry = new TransactionManagerRegistry({ storage });
+            TransactionManagerRegistry.shared.set(storage, registry);
+        }
+        return registry;
+    }
+
+    // The provider is only used by the first caller for a chain
+    get(chainId: number, provider: providers.Provider): TransactionManager {
+        let manager = this.managers.get(chainId);
+        if (!manager) {
+            manager = new TransactionManager(provider, this.options);
+            this.managers.set(chainId, manager);
+        }
+        return manager;
+    }
+}
+
+// Signer whose sends go through a TransactionManager; everything else is the wrapped signer's
+export class ManagedSigner extends Signer {
+    readonly manager: TransactionManager;
+    readonly signer: Signer;
+
+    constructor(manager: TransactionManager, signer: Signer) {
+        super();
+        this.manager = manager;
+        this.signer = signer;
+        utils.defineReadOnly(this, 'provider', signer.provider);
+    }
+
+    getAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    getChainId(): Promise<number> {
+        return this.signer.getChainId();
+    }
+
+    signMessage(message: Bytes | string): Promise<string> {
+        return this.signer.signMessage(message);
+    }
+
+    signTransaction(transaction: utils.Deferrable<providers.TransactionRequest>): Promise<string> {
+        return this.signer.signTransaction(transaction);
+    }
+
+    _signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, TypedDataField[]>,
+        value: Record<string, any>
+    ): Promise<string> {
+        return (this.signer as TypedDataSigner)._signTypedData(domain, types, value);
+    }
+
+    sendTransaction(transaction: utils.Deferrable<providers.TransactionRequest>): Promise<providers.TransactionResponse> {
+        return this.manager.send(transaction, this.signer);
+    }
+
+    connect(provider: providers.Provider): ManagedSigner {
+        return new ManagedSigner(this.manager, this.signer.connect(provider));
+    }
+}
+
+function toStoredRequest(tx: providers.TransactionResponse): StoredRequest {
+    return {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value.toString(),
+        gasLimit: tx.gasLimit.toString(),
+        gasPrice: tx.maxFeePerGas ? undefined : tx.gasPrice?.toString(),
+        maxFeePerGas: tx.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString()
+    };
+}
@@ -0,0 +1,197 @@
+import { providers, Contract, utils, BigNumber, BigNumberish } from 'ethers';
+
+export interface SimulationOptions {
+    simulate?: boolean; // run an eth_call preflight and refuse to send if it reverts
+    fork?: boolean; // provider is a Hardhat node/fork: replay in a snapshot to collect events
+    errorAbi?: string[]; // extra custom error fragments to decode reverts with
+    onSimulated?: (preview: TransactionPreview) => void | Promise<void>;
+}
+
+export interface DecodedRevert {
+    type: 'Error' | 'Panic' | 'CustomError' | 'Unknown';
+    name: string;
+    message: string;
+    args: any[];
+    data: string;
+}
+
+export interface SimulatedEvent {
+    address: string;
+    name: string;
+    args: utils.Result;
+}
+
+export interface TransactionPreview {
+    success: boolean;
+    returnValue?: any;
+    gasEstimate?: BigNumber;
+    revert?: DecodedRevert;
+    events?: SimulatedEvent[];
+}
+
+export class TransactionSimulationError extends Error {
+    preview: TransactionPreview;
+
+    constructor(preview: TransactionPreview) {
+        super(`Transaction would fail: ${preview.revert ? preview.revert.message : 'unknown reason'}`);
+        this.name = 'TransactionSimulationError';
+        this.preview = preview;
+    }
+}
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+    0x01: 'Assertion failed',
+    0x11: 'Arithmetic overflow or underflow',
+    0x12: 'Division or modulo by zero',
+    0x21: 'Invalid enum value',
+    0x22: 'Invalid storage byte array encoding',
+    0x31: 'Pop on empty array',
+    0x32: 'Array index out of bounds',
+    0x41: 'Out of memory',
+    0x51: 'Call to invalid internal function'
+};
+
+// Events worth showing even when the target's ABI doesn't declare them
+const COMMON_EVENTS = [
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)'
+];
+
+export function extractRevertData(error: any): string | undefined {
+    const seen = new Set<any>();
+    const queue = [error];
+    while (queue.length > 0) {
+        const current = queue.shift();
+        if (!current || typeof current !== 'object' || seen.has(current)) continue;
+        seen.add(current);
+
+        if (typeof current.data === 'string' && utils.isHexString(current.data)) {
+            return current.data;
+        }
+        if (typeof current.body === 'string') {
+            try {
+                queue.push(JSON.parse(current.body));
+            } catch {
+                // not a JSON-RPC body
+            }
+        }
+        queue.push(current.error, current.data);
+    }
+    return undefined;
+}
+
+export function decodeRevert(data: string | undefined, iface?: utils.Interface): DecodedRevert {
+    if (!data || data === '0x') {
+        return { type: 'Unknown', name: 'Revert', message: 'Reverted without a reason', args: [], data: data || '0x' };
+    }
+
+    const selector = data.slice(0, 10);
+    const payload = utils.hexDataSlice(data, 4);
+
+    if (selector === ERROR_SELECTOR) {
+        const [reason] = utils.defaultAbiCoder.decode(['string'], payload);
+        return { type: 'Error', name: 'Error', message: reason, args: [reason], data };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+        const [code] = utils.defaultAbiCoder.decode(['uint256'], payload);
+        const reason = PANIC_REASONS[code.toNumber()] || `Panic code 0x${code.toNumber().toString(16)}`;
+        return { type: 'Panic', name: 'Panic', message: reason, args: [code], data };
+    }
+
+    if (iface) {
+        try {
+            const error = iface.parseError(data);
+            const args = Array.from(error.args);
+            return {
+                type: 'CustomError',
+                name: error.name,
+                message: `${error.name}(${args.map(a => a.toString()).join(', ')})`,
+                args,
+                data
+            };
+        } catch {
+            // selector not in the ABI
+        }
+    }
+
+    return { type: 'Unknown', name: 'Revert', message: `Unrecognised revert data ${selector}`, args: [], data };
+}
+
+export class TransactionSimulator {
+    private provider: providers.JsonRpcProvider;
+
+    constructor(provider: providers.JsonRpcProvider) {
+        this.provider = provider;
+    }
+
+    async simulate(
+        contract: Contract,
+        method: string,
+        args: any[],
+        overrides: { value?: BigNumberish } = {},
+        options: SimulationOptions = {}
+    ): Promise<TransactionPreview> {
+        const iface = new utils.Interface([
+            ...contract.interface.fragments,
+            ...(options.errorAbi || [])
+        ]);
+
+        try {
+            const [returnValue, gasEstimate] = await Promise.all([
+                contract.callStatic[method](...args, overrides),
+                contract.estimateGas[method](...args, overrides)
+            ]);
+
+            const preview: TransactionPreview = { success: true, returnValue, gasEstimate };
+            if (options.fork) {
+                preview.events = await this.replayOnFork(contract, method, args, overrides, iface);
+            }
+            return preview;
+        } catch (error) {
+            return {
+                success: false,
+                revert: decodeRevert(extractRevertData(error), iface)
+            };
+        }
+    }
+
+    // Sends the call for real inside an evm_snapshot and rolls it back afterwards
+    private async replayOnFork(
+        contract: Contract,
+        method: string,
+        args: any[],
+        overrides: { value?: BigNumberish },
+        iface: utils.Interface
+    ): Promise<SimulatedEvent[]> {
+        const from = await contract.signer.getAddress();
+        const data = contract.interface.encodeFunctionData(method, args);
+        const eventIface = new utils.Interface([...iface.fragments, ...COMMON_EVENTS]);
+
+        const snapshot = await this.provider.send('evm_snapshot', []);
+        try {
+            await this.provider.send('hardhat_impersonateAccount', [from]);
+            const tx = await this.provider.getSigner(from).sendTransaction({
+                to: contract.address,
+                data,
+                value: overrides.value
+            });
+            const receipt = await tx.wait();
+
+            return receipt.logs.flatMap(log => {
+                try {
+                    const parsed = eventIface.parseLog(log);
+                    return [{ address: log.address, name: parsed.name, args: parsed.args }];
+                } catch {
+                    return [];
+                }
+            });
+        } finally {
+            await this.provider.send('hardhat_stopImpersonatingAccount', [from]);
+            await this.provider.send('evm_revert', [snapshot]);
+        }
+    }
+}
@@ -0,0 +1,132 @@
+import { providers, Signer, Wallet } from 'ethers';
+import { TypedEmitter } from '../utils/emitter';
+import { TransactionManager } from './TransactionManager';
+
+export interface Eip1193Provider extends providers.ExternalProvider {
+    on?(event: string, listener: (...args: any[]) => void): void;
+    removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// A raw private key (scripts and tests), any ethers Signer, or an injected wallet
+export type SignerSource = string | Signer | Eip1193Provider;
+
+export interface WalletConnectionEvents {
+    connect: (account: string, chainId: number) => void;
+    accountChanged: (account: string | null) => void;
+    chainChanged: (chainId: number) => void;
+    disconnect: () => void;
+}
+
+export class WalletConnection extends TypedEmitter<WalletConnectionEvents> {
+    private provider: providers.Provider;
+    private expectedChainId?: number;
+    private transactions?: TransactionManager;
+    private external: Eip1193Provider | null = null;
+    signer: Signer | null = null;
+    account: string | null = null;
+    chainId: number | null = null;
+
+    // With a transaction manager, every write from the connected signer takes its nonce from it
+    constructor(provider: providers.Provider, expectedChainId?: number, transactions?: TransactionManager) {
+        super();
+        this.provider = provider;
+        this.expectedChainId = expectedChainId;
+        this.transactions = transactions;
+    }
+
+    get isConnected(): boolean {
+        return this.signer !== null && this.account !== null;
+    }
+
+    async connect(source: SignerSource) {
+        this.disconnect();
+
+        if (typeof source === 'string') {
+            this.signer = new Wallet(source, this.provider);
+        } else if (Signer.isSigner(source)) {
+            this.signer = source.provider ? source : source.connect(this.provider);
+        } else {
+            const web3Provider = new providers.Web3Provider(source, 'any');
+            await web3Provider.send('eth_requestAccounts', []);
+            this.signer = web3Provider.getSigner();
+            this.subscribe(source);
+        }
+        if (this.transactions) {
+            this.signer = await this.transactions.attach(this.signer);
+        }
+
+        this.account = await this.signer.getAddress();
+        this.chainId = await this.signer.getChainId();
+        this.emit('connect', this.account, this.chainId);
+    }
+
+    disconnect() {
+        if (this.external?.removeListener) {
+            this.external.removeListener('accountsChanged', this.handleAccountsChanged);
+            this.external.removeListener('chainChanged', this.handleChainChanged);
+            this.external.removeListener('disconnect', this.handleDisconnect);
+        }
+        const wasConnected = this.signer !== null;
+        if (wasConnected) this.transactions?.detach(this.signer!);
+        this.external = null;
+        this.signer = null;
+        this.account = null;
+        this.chainId = null;
+        if (wasConnected) this.emit('disconnect');
+    }
+
+    requireSigner(): Signer {
+        if (!this.signer) throw new Error("Not connected");
+        return this.signer;
+    }
+
+    async getExpectedChainId(): Promise<number> {
+        if (this.expectedChainId === undefined) {
+            this.expectedChainId = (await this.provider.getNetwork()).chainId;
+        }
+        return this.expectedChainId;
+    }
+
+    // Injected wallets can switch networks at any time, so check right before sending
+    async assertChain() {
+        const [actual, expected] = await Promise.all([
+            this.getCurrentChainId(),
+            this.getExpectedChainId()
+        ]);
+        if (actual !== expected) {
+            throw new Error(`Wrong network: wallet is on chain ${actual}, expected chain ${expected}`);
+        }
+    }
+
+    private async getCurrentChainId(): Promise<number> {
+        const signer = this.requireSigner();
+        if (this.external?.request) {
+            // Bypass ethers' network cache, which lags behind a wallet-side switch
+            const chainId = await this.external.request({ method: 'eth_chainId' });
+            return parseInt(chainId, 16);
+        }
+        return signer.getChainId();
+    }
+
+    private subscribe(external: Eip1193Provider) {
+        this.external = external;
+        if (!external.on) return;
+        external.on('accountsChanged', this.handleAccountsChanged);
+        external.on('chainChanged', this.handleChainChanged);
+        external.on('disconnect', this.handleDisconnect);
+    }
+
+    private handleAccountsChanged = (accounts: string[]) => {
+        this.account = accounts.length > 0 ? accounts[0] : null;
+        this.emit('accountChanged', this.account);
+    };
+
+    private handleChainChanged = (chainId: string | number) => {
+        this.chainId = typeof chainId === 'string' ? parseInt(chainId, 16) : chainId;
+        this.emit('chainChanged', this.chainId);
+    };
+
+    private handleDisconnect = () => {
+        this.disconnect();
+    };
+}
@@ -0,0 +1,35 @@
+import deploymentConfig from '../../../deployment/config.json';
+import defiConfig from '../../../deployment/defi-config.json';
+import bridgeConfig from '../../../bridge/ccip/config.json';
+
+export { defiConfig, bridgeConfig };
+
+export interface EnvironmentConfig {
+    rpc: string;
+    chainId: number;
+    contracts: Record<string, string>;
+    security: {
+        maxGasPrice: string;
+        maxPositionSize: string;
+        maxLeverage: number;
+    };
+    performance?: {
+        rpcBatchSize: number;
+        maxConcurrentRequests: number;
+    };
+}
+
+export type DeploymentEnvironment = keyof typeof deploymentConfig.environments;
+
+export function getDeploymentEnvironment(): DeploymentEnvironment {
+    const env = typeof process !== 'undefined' ? process.env.DEPLOYMENT_ENV : undefined;
+    return env && env in deploymentConfig.environments
+        ? env as DeploymentEnvironment
+        : 'production';
+}
+
+export function getEnvironmentConfig(
+    environment: DeploymentEnvironment = getDeploymentEnvironment()
+): EnvironmentConfig {
+    return deploymentConfig.environments[environment] as EnvironmentConfig;
+}
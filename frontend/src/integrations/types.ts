@@ -0,0 +1,6 @@
+import { TxOptions } from './FeeStrategy';
+import { SimulationOptions } from './TransactionSimulator';
+import { ApprovalOptions } from './AllowanceManager';
+
+// Per-call options accepted by every DeFiService and BridgeService write
+export interface WriteOptions extends TxOptions, SimulationOptions, ApprovalOptions {}
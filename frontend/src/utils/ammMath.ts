@@ -0,0 +1,123 @@
+import { BigNumber, BigNumberish } from 'ethers';
+
+// Constant-product (x * y = k) pool maths on raw token amounts
+
+const BPS = 10000;
+
+// Tolerance is a percentage, e.g. 0.5 for 0.5%
+export const toleranceToBps = (tolerance: number): number => {
+    if (!(tolerance >= 0 && tolerance < 100)) throw new Error(`Invalid slippage tolerance ${tolerance}%`);
+    return Math.round(tolerance * 100);
+};
+
+// Lower bound for an amount after allowing for the given slippage
+export const applySlippage = (amount: BigNumberish, tolerance: number): BigNumber =>
+    BigNumber.from(amount).mul(BPS - toleranceToBps(tolerance)).div(BPS);
+
+// Amount of B equivalent to amountA at the pool's current ratio
+export const quote = (amountA: BigNumberish, reserveA: BigNumberish, reserveB: BigNumberish): BigNumber => {
+    if (BigNumber.from(reserveA).isZero()) throw new Error("Insufficient liquidity");
+    return BigNumber.from(amountA).mul(reserveB).div(reserveA);
+};
+
+// Largest pair of amounts not exceeding the desired ones that matches the pool ratio
+export const optimalLiquidityAmounts = (
+    amount0Desired: BigNumberish,
+    amount1Desired: BigNumberish,
+    reserve0: BigNumberish,
+    reserve1: BigNumberish
+): [BigNumber, BigNumber] => {
+    const desired0 = BigNumber.from(amount0Desired);
+    const desired1 = BigNumber.from(amount1Desired);
+    if (BigNumber.from(reserve0).isZero() && BigNumber.from(reserve1).isZero()) {
+        return [desired0, desired1];
+    }
+
+    const amount1Optimal = quote(desired0, reserve0, reserve1);
+    if (amount1Optimal.lte(desired1)) return [desired0, amount1Optimal];
+    return [quote(desired1, reserve1, reserve0), desired1];
+};
+
+// Relative difference, in basis points, between the price implied by
+// amount1/amount0 and the pool's reserve1/reserve0
+export const priceDeviationBps = (
+    amount0: BigNumberish,
+    amount1: BigNumberish,
+    reserve0: BigNumberish,
+    reserve1: BigNumberish
+): number => {
+    const expected = BigNumber.from(amount1).mul(reserve0);
+    if (expected.isZero()) throw new Error("Cannot derive a price from zero amounts");
+    const actual = BigNumber.from(reserve1).mul(amount0);
+    return actual.sub(expected).abs().mul(BPS).div(expected).toNumber();
+};
+
+// Underlying amounts redeemable for an LP balance
+export const liquidityToAmounts = (
+    liquidity: BigNumberish,
+    totalSupply: BigNumberish,
+    reserve0: BigNumberish,
+    reserve1: BigNumberish
+): [BigNumber, BigNumber] => {
+    if (BigNumber.from(totalSupply).isZero()) return [BigNumber.from(0), BigNumber.from(0)];
+    return [
+        BigNumber.from(liquidity).mul(reserve0).div(totalSupply),
+        BigNumber.from(liquidity).mul(reserve1).div(totalSupply)
+    ];
+};
+
+// Uniswap V2 swap output after its 0.3% fee
+export const getAmountOut = (amountIn: BigNumberish, reserveIn: BigNumberish, reserveOut: BigNumberish): BigNumber => {
+    if (BigNumber.from(amountIn).lte(0)) throw new Error("Insufficient input amount");
+    if (BigNumber.from(reserveIn).isZero() || BigNumber.from(reserveOut).isZero()) throw new Error("Insufficient liquidity");
+    const amountInWithFee = BigNumber.from(amountIn).mul(997);
+    return amountInWithFee.mul(reserveOut).div(BigNumber.from(reserveIn).mul(1000).add(amountInWithFee));
+};
+
+// Input needed to receive amountOut, rounded up as the pair contract does
+export const getAmountIn = (amountOut: BigNumberish, reserveIn: BigNumberish, reserveOut: BigNumberish): BigNumber => {
+    if (BigNumber.from(amountOut).lte(0)) throw new Error("Insufficient output amount");
+    if (BigNumber.from(amountOut).gte(reserveOut)) throw new Error("Insufficient liquidity");
+    const numerator = BigNumber.from(reserveIn).mul(amountOut).mul(1000);
+    const denominator = BigNumber.from(reserveOut).sub(amountOut).mul(997);
+    return numerator.div(denominator).add(1);
+};
+
+// Fraction by which the execution price, fee included, falls short of the mid price
+export const priceImpact = (amountIn: BigNumberish, reserveIn: BigNumberish, reserveOut: BigNumberish): number => {
+    const amountOut = getAmountOut(amountIn, reserveIn, reserveOut);
+    const midValue = BigNumber.from(amountIn).mul(reserveOut).div(reserveIn);
+    if (midValue.isZero()) return 0;
+    return midValue.sub(amountOut).mul(BPS * 100).div(midValue).toNumber() / (BPS * 100);
+};
+
+// Reserves of each pair along a swap path, oriented in the direction of the swap
+export interface HopReserves {
+    reserveIn: BigNumber;
+    reserveOut: BigNumber;
+}
+
+// Amount at every step of a multi-hop exact-input swap, as the router computes it
+export const getAmountsOut = (amountIn: BigNumberish, hops: HopReserves[]): BigNumber[] =>
+    hops.reduce(
+        (amounts, hop) => [...amounts, getAmountOut(amounts[amounts.length - 1], hop.reserveIn, hop.reserveOut)],
+        [BigNumber.from(amountIn)]
+    );
+
+// Amount needed at every step of a multi-hop exact-output swap
+export const getAmountsIn = (amountOut: BigNumberish, hops: HopReserves[]): BigNumber[] =>
+    hops.reduceRight(
+        (amounts, hop) => [getAmountIn(amounts[0], hop.reserveIn, hop.reserveOut), ...amounts],
+        [BigNumber.from(amountOut)]
+    );
+
+// Fraction by which a path's output falls short of its output at the mid price
+export const pathPriceImpact = (amountIn: BigNumberish, amountOut: BigNumberish, hops: HopReserves[]): number => {
+    const midValue = hops.reduce(
+        (value, hop) => value.mul(hop.reserveOut).div(hop.reserveIn),
+        BigNumber.from(amountIn)
+    );
+    if (midValue.isZero()) return 0;
+    const shortfall = midValue.sub(amountOut);
+    return shortfall.lte(0) ? 0 : shortfall.mul(BPS * 100).div(midValue).toNumber() / (BPS * 100);
+};
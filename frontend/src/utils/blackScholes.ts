@@ -0,0 +1,92 @@
+// European option pricing under Black-Scholes, on human-unit numbers
+
+export interface OptionInputs {
+    spot: number;
+    strike: number;
+    timeToExpiry: number; // years
+    volatility: number; // annualised
+    riskFreeRate: number; // annualised, continuously compounded
+    isCall: boolean;
+}
+
+export interface OptionGreeks {
+    price: number;
+    delta: number;
+    gamma: number;
+    theta: number; // value change per day
+    vega: number; // value change per 1% move in volatility
+}
+
+export interface PriceObservation {
+    timestamp: number;
+    price: number;
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+export const normalPdf = (x: number): number => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz-Stegun 26.2.17, accurate to ~7.5e-8
+export const normalCdf = (x: number): number => {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    const tail = normalPdf(x) * poly;
+    return x >= 0 ? 1 - tail : tail;
+};
+
+export const intrinsicValue = (spot: number, strike: number, isCall: boolean): number =>
+    Math.max(isCall ? spot - strike : strike - spot, 0);
+
+export function blackScholes(inputs: OptionInputs): OptionGreeks {
+    const { spot, strike, timeToExpiry: t, volatility: sigma, riskFreeRate: r, isCall } = inputs;
+
+    // At or past expiry, or with no volatility, the option is worth its (discounted) payoff
+    if (t <= 0 || sigma <= 0) {
+        const forwardStrike = strike * Math.exp(-r * Math.max(t, 0));
+        const price = intrinsicValue(spot, forwardStrike, isCall);
+        const inTheMoney = price > 0;
+        return {
+            price,
+            delta: inTheMoney ? (isCall ? 1 : -1) : 0,
+            gamma: 0,
+            theta: 0,
+            vega: 0
+        };
+    }
+
+    const sqrtT = Math.sqrt(t);
+    const d1 = (Math.log(spot / strike) + (r + sigma * sigma / 2) * t) / (sigma * sqrtT);
+    const d2 = d1 - sigma * sqrtT;
+    const discount = Math.exp(-r * t);
+
+    const price = isCall
+        ? spot * normalCdf(d1) - strike * discount * normalCdf(d2)
+        : strike * discount * normalCdf(-d2) - spot * normalCdf(-d1);
+    const decay = -spot * normalPdf(d1) * sigma / (2 * sqrtT);
+    const carry = isCall
+        ? -r * strike * discount * normalCdf(d2)
+        : r * strike * discount * normalCdf(-d2);
+
+    return {
+        price,
+        delta: isCall ? normalCdf(d1) : normalCdf(d1) - 1,
+        gamma: normalPdf(d1) / (spot * sigma * sqrtT),
+        theta: (decay + carry) / 365,
+        vega: spot * normalPdf(d1) * sqrtT / 100
+    };
+}
+
+// Annualised volatility of log returns between observations. Oracle updates arrive
+// at irregular intervals, so each squared return is weighted by its elapsed time.
+export function historicalVolatility(observations: PriceObservation[]): number {
+    let sumSquares = 0;
+    let elapsed = 0;
+    for (let i = 1; i < observations.length; i++) {
+        const previous = observations[i - 1];
+        const current = observations[i];
+        if (previous.price <= 0 || current.price <= 0 || current.timestamp <= previous.timestamp) continue;
+        sumSquares += Math.log(current.price / previous.price) ** 2;
+        elapsed += (current.timestamp - previous.timestamp) / SECONDS_PER_YEAR;
+    }
+    return elapsed > 0 ? Math.sqrt(sumSquares / elapsed) : 0;
+}
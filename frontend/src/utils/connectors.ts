@@ -2,4 +2,7 @@ import { InjectedConnector } from '@web3-react/injected-connector';
 
 export const injected = new InjectedConnector({
   supportedChainIds: [1, 137, 42161, 10, 138] // Mainnet, Polygon, Arbitrum, Optimism, Chain 138
-}); 
\ No newline at end of file
+}); 
+
+// EIP-1193 provider exposed by the injected wallet, for DeFiService/BridgeService.connect
+export const getInjectedProvider = () => injected.getProvider();
@@ -0,0 +1,25 @@
+type Listener = (...args: any[]) => void;
+
+export class TypedEmitter<Events extends { [E in keyof Events]: Listener }> {
+    private listeners: { [E in keyof Events]?: Events[E][] } = {};
+
+    on<E extends keyof Events>(event: E, listener: Events[E]) {
+        (this.listeners[event] = this.listeners[event] || []).push(listener);
+        return this;
+    }
+
+    off<E extends keyof Events>(event: E, listener: Events[E]) {
+        this.listeners[event] = (this.listeners[event] || []).filter(l => l !== listener);
+        return this;
+    }
+
+    protected emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>) {
+        for (const listener of this.listeners[event] || []) {
+            try {
+                listener(...args);
+            } catch (error) {
+                console.error(`Error in ${String(event)} listener:`, error);
+            }
+        }
+    }
+}
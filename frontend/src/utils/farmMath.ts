@@ -0,0 +1,44 @@
+// Staking reward maths on per-second emission rates and quote-currency prices
+
+export const SECONDS_PER_YEAR = 365 * 86400;
+
+export interface RewardEmission {
+    rewardRate: number; // reward tokens emitted per second to the whole farm
+    rewardPrice: number;
+    totalStaked: number; // staking tokens in the farm
+    stakingPrice: number;
+    periodFinish?: number; // unix seconds when emissions stop; 0 or absent for open-ended
+}
+
+// Simple annual reward rate for stakers, as a fraction; 0 once emissions have ended
+export function rewardApr(emission: RewardEmission, now: number = Math.floor(Date.now() / 1000)): number {
+    if (emission.periodFinish && emission.periodFinish <= now) return 0;
+    const stakedValue = emission.totalStaked * emission.stakingPrice;
+    if (stakedValue <= 0) return 0;
+    return emission.rewardRate * SECONDS_PER_YEAR * emission.rewardPrice / stakedValue;
+}
+
+// APY from reinvesting the rewards compoundsPerYear times
+export function compoundedApy(apr: number, compoundsPerYear: number): number {
+    if (compoundsPerYear <= 0) return apr;
+    return Math.pow(1 + apr / compoundsPerYear, compoundsPerYear) - 1;
+}
+
+// Seconds until a lock ends, 0 when already unlocked
+export function lockRemaining(lockedUntil: number, now: number = Math.floor(Date.now() / 1000)): number {
+    return Math.max(0, lockedUntil - now);
+}
+
+// Compounding pays when the rewards are worth more than minRatio times the gas spent claiming them
+export function isCompoundProfitable(pendingValue: number, gasCostValue: number, minRatio: number = 1): boolean {
+    if (pendingValue <= 0) return false;
+    return pendingValue > gasCostValue * minRatio;
+}
+
+// Interval that balances gas against lost compounding: reinvesting every t years
+// forgoes about stakedValue * apr^2 * t / 2 a year and spends gasCostValue / t,
+// which is smallest at t = sqrt(2 * gasCostValue / (stakedValue * apr^2)). In seconds.
+export function optimalCompoundInterval(stakedValue: number, apr: number, gasCostValue: number): number {
+    if (stakedValue <= 0 || apr <= 0) return Infinity;
+    return Math.sqrt(2 * gasCostValue / (stakedValue * apr * apr)) * SECONDS_PER_YEAR;
+}
@@ -0,0 +1,103 @@
+// Target-allocation maths on values in quote currency
+
+export interface HoldingValue {
+    token: string;
+    value: number;
+}
+
+export interface TargetWeight {
+    token: string;
+    weight: number; // fraction of the portfolio, 0..1
+}
+
+export interface RebalanceThresholds {
+    driftThreshold: number; // absolute weight drift below which a token is left alone
+    minTradeValue: number; // trades smaller than this are dropped
+}
+
+export interface ValueTrade {
+    from: string;
+    to: string;
+    value: number;
+}
+
+export interface WeightDrift {
+    token: string;
+    value: number;
+    currentWeight: number;
+    targetWeight: number;
+    drift: number; // current minus target
+}
+
+export function validateTargetWeights(targets: TargetWeight[]) {
+    const seen = new Set<string>();
+    for (const target of targets) {
+        const key = target.token.toLowerCase();
+        if (seen.has(key)) throw new Error(`Duplicate allocation for ${target.token}`);
+        seen.add(key);
+        if (!(target.weight >= 0 && target.weight <= 1)) {
+            throw new Error(`Allocation for ${target.token} must be between 0 and 100%`);
+        }
+    }
+    const total = targets.reduce((sum, t) => sum + t.weight, 0);
+    if (Math.abs(total - 1) > 1e-9) {
+        throw new Error(`Allocations sum to ${(total * 100).toFixed(4)}%, expected 100%`);
+    }
+}
+
+// Weights as basis points that sum to exactly 10000: each is rounded down and the
+// leftover points go to the largest remainders, ties to the earlier target
+export function toBasisPoints(weights: number[]): number[] {
+    const exact = weights.map(w => w * 10000);
+    const points = exact.map(Math.floor);
+    const leftover = 10000 - points.reduce((sum, p) => sum + p, 0);
+    exact
+        .map((value, i) => ({ i, remainder: value - points[i] }))
+        .sort((a, b) => b.remainder - a.remainder || a.i - b.i)
+        .slice(0, Math.max(leftover, 0))
+        .forEach(({ i }) => points[i]++);
+    return points;
+}
+
+// Tokens held but missing from the targets are treated as a target of zero
+export function weightDrifts(holdings: HoldingValue[], targets: TargetWeight[]): WeightDrift[] {
+    const total = holdings.reduce((sum, h) => sum + h.value, 0);
+    const tokens = new Map<string, string>();
+    for (const { token } of [...targets, ...holdings]) tokens.set(token.toLowerCase(), token);
+
+    return Array.from(tokens.entries()).map(([key, token]) => {
+        const value = holdings.find(h => h.token.toLowerCase() === key)?.value || 0;
+        const targetWeight = targets.find(t => t.token.toLowerCase() === key)?.weight || 0;
+        const currentWeight = total > 0 ? value / total : 0;
+        return { token, value, currentWeight, targetWeight, drift: currentWeight - targetWeight };
+    });
+}
+
+// Pairs overweight sellers with underweight buyers, largest first, so the
+// rebalance needs as few swaps as possible
+export function planTrades(drifts: WeightDrift[], thresholds: RebalanceThresholds): ValueTrade[] {
+    const total = drifts.reduce((sum, d) => sum + d.value, 0);
+    const actionable = drifts.filter(d => Math.abs(d.drift) >= thresholds.driftThreshold && d.drift !== 0);
+
+    const sellers = actionable.filter(d => d.drift > 0)
+        .map(d => ({ token: d.token, value: d.drift * total }))
+        .sort((a, b) => b.value - a.value);
+    const buyers = actionable.filter(d => d.drift < 0)
+        .map(d => ({ token: d.token, value: -d.drift * total }))
+        .sort((a, b) => b.value - a.value);
+
+    const trades: ValueTrade[] = [];
+    let s = 0;
+    let b = 0;
+    while (s < sellers.length && b < buyers.length) {
+        const value = Math.min(sellers[s].value, buyers[b].value);
+        if (value >= thresholds.minTradeValue) {
+            trades.push({ from: sellers[s].token, to: buyers[b].token, value });
+        }
+        sellers[s].value -= value;
+        buyers[b].value -= value;
+        if (sellers[s].value <= 1e-12) s++;
+        if (buyers[b].value <= 1e-12) b++;
+    }
+    return trades;
+}
@@ -0,0 +1,88 @@
+// Position risk maths on human-unit numbers (prices in quote currency)
+
+export interface PerpPositionState {
+    isLong: boolean;
+    size: number; // index tokens
+    entryPrice: number;
+    margin: number; // quote currency
+    fundingOwed: number; // positive when the position pays funding
+}
+
+export const unrealizedPnl = (position: PerpPositionState, markPrice: number): number =>
+    (position.isLong ? 1 : -1) * position.size * (markPrice - position.entryPrice);
+
+// Margin left after PnL and funding, before any closing fee
+export const positionEquity = (position: PerpPositionState, markPrice: number): number =>
+    position.margin + unrealizedPnl(position, markPrice) - position.fundingOwed;
+
+export const effectiveLeverage = (position: PerpPositionState, markPrice: number): number => {
+    const equity = positionEquity(position, markPrice);
+    return equity > 0 ? position.size * markPrice / equity : Infinity;
+};
+
+// Mark price at which equity falls to the maintenance requirement plus the
+// liquidation fee, both charged on the position's notional at that price:
+//   margin - funding + dir * size * (P - entry) = (maintenanceMargin + liquidationFee) * size * P
+export const perpLiquidationPrice = (
+    position: PerpPositionState,
+    maintenanceMargin: number,
+    liquidationFee: number = 0
+): number => {
+    if (position.size === 0) return 0;
+
+    const k = maintenanceMargin + liquidationFee;
+    const collateral = position.margin - position.fundingOwed;
+    const price = position.isLong
+        ? (position.size * position.entryPrice - collateral) / (position.size * (1 - k))
+        : (position.size * position.entryPrice + collateral) / (position.size * (1 + k));
+
+    return Math.max(price, 0);
+};
+
+// Lending
+
+export interface CollateralValue {
+    value: number; // quote currency
+    maxLTV: number;
+    liquidationThreshold: number;
+}
+
+export interface InterestRateModel {
+    baseRate: number;
+    multiplier: number;
+    jumpMultiplier: number;
+    optimal: number; // utilization where the jump multiplier kicks in
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+// Debt that can be held against the collateral before new borrows are refused
+export const borrowCapacity = (collateral: CollateralValue[]): number =>
+    collateral.reduce((sum, c) => sum + c.value * c.maxLTV, 0);
+
+// Below 1 the account can be liquidated
+export const healthFactor = (collateral: CollateralValue[], debtValue: number): number => {
+    if (debtValue <= 0) return Infinity;
+    return collateral.reduce((sum, c) => sum + c.value * c.liquidationThreshold, 0) / debtValue;
+};
+
+export const utilizationRate = (totalBorrowed: number, totalSupplied: number): number =>
+    totalSupplied > 0 ? Math.min(totalBorrowed / totalSupplied, 1) : 0;
+
+// Annual borrow rate under a kinked (jump-rate) model
+export const borrowRate = (model: InterestRateModel, utilization: number): number => {
+    if (utilization <= model.optimal) {
+        return model.baseRate + utilization * model.multiplier;
+    }
+    return model.baseRate
+        + model.optimal * model.multiplier
+        + (utilization - model.optimal) * model.jumpMultiplier;
+};
+
+// Annual rate earned by suppliers: borrowers' interest spread over all supply
+export const supplyRate = (model: InterestRateModel, utilization: number, reserveFactor: number = 0): number =>
+    borrowRate(model, utilization) * utilization * (1 - reserveFactor);
+
+// Interest accrued on a balance compounding continuously at an annual rate
+export const accruedInterest = (principal: number, annualRate: number, seconds: number): number =>
+    principal * (Math.exp(annualRate * seconds / SECONDS_PER_YEAR) - 1);
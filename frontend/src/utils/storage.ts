@@ -0,0 +1,75 @@
+// Key-value persistence with the Web Storage shape, so localStorage can be passed
+// straight in and Node scripts can use a file instead
+
+export interface StorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export class MemoryStorage implements StorageAdapter {
+    private items = new Map<string, string>();
+
+    getItem(key: string): string | null {
+        return this.items.has(key) ? this.items.get(key)! : null;
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+
+    removeItem(key: string) {
+        this.items.delete(key);
+    }
+}
+
+// Keeps every key in one JSON file; Node only
+export class FileStorage implements StorageAdapter {
+    private path: string;
+    private items: Record<string, string>;
+
+    constructor(path: string) {
+        this.path = path;
+        const fs = require('fs');
+        this.items = fs.existsSync(path) ? JSON.parse(fs.readFileSync(path, 'utf8')) : {};
+    }
+
+    getItem(key: string): string | null {
+        return key in this.items ? this.items[key] : null;
+    }
+
+    setItem(key: string, value: string) {
+        this.items[key] = value;
+        this.save();
+    }
+
+    removeItem(key: string) {
+        delete this.items[key];
+        this.save();
+    }
+
+    private save() {
+        const fs = require('fs');
+        const { dirname } = require('path');
+        fs.mkdirSync(dirname(this.path), { recursive: true });
+        fs.writeFileSync(this.path, JSON.stringify(this.items, null, 2));
+    }
+}
+
+export function getDefaultStorage(): StorageAdapter {
+    return typeof localStorage !== 'undefined' ? localStorage : new MemoryStorage();
+}
+
+export function readJson<T>(storage: StorageAdapter, key: string, fallback: T): T {
+    const raw = storage.getItem(key);
+    if (raw === null) return fallback;
+    try {
+        return JSON.parse(raw) as T;
+    } catch {
+        return fallback;
+    }
+}
+
+export function writeJson(storage: StorageAdapter, key: string, value: unknown) {
+    storage.setItem(key, JSON.stringify(value));
+}
@@ -19,7 +19,8 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {
-      chainId: 138,
+      // A second local node needs its own chain ID for cross-chain testing
+      chainId: parseInt(process.env.HARDHAT_CHAIN_ID || "138"),
       mining: {
         auto: true,
         interval: 5000
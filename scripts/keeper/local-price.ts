@@ -0,0 +1,26 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+// Sets the mock oracle price deployed by local-setup.ts, e.g.
+//   KEEPER_PRICE=85 npm run keeper:local-price
+
+const DEPLOYMENT_FILE = process.env.KEEPER_DEPLOYMENT_FILE || path.join(__dirname, "../../data/keeper-local.json");
+const ORACLE_ABI = ["function setPrice(address token, uint256 price)"];
+
+async function main() {
+  if (!process.env.KEEPER_PRICE) throw new Error("KEEPER_PRICE is not set");
+  const deployment = JSON.parse(fs.readFileSync(DEPLOYMENT_FILE, "utf8"));
+  const provider = new ethers.providers.JsonRpcProvider(deployment.rpcUrl);
+  const oracle = new ethers.Contract(deployment.priceOracle, ORACLE_ABI, provider.getSigner(0));
+
+  await (await oracle.setPrice(deployment.token, ethers.utils.parseEther(process.env.KEEPER_PRICE))).wait();
+  console.log(`Price of ${deployment.token} set to ${process.env.KEEPER_PRICE}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
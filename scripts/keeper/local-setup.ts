@@ -0,0 +1,74 @@
+import { ethers, artifacts } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { StopLossKeeper } from "./stop-loss-keeper";
+
+// Deploys a mock price oracle and a position with a stop-loss on a local Hardhat node,
+// and registers a stop-loss order for the keeper to execute. Start the node with
+//   npm run node:source
+// then run this with npm run keeper:setup-local and the keeper with npm run keeper:local.
+// Move the price with KEEPER_PRICE=85 npm run keeper:local-price.
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const DEPLOYMENT_FILE = process.env.KEEPER_DEPLOYMENT_FILE || path.join(__dirname, "../../data/keeper-local.json");
+const ORDERS_FILE = process.env.KEEPER_ORDERS_FILE || path.join(__dirname, "../../data/keeper-local-orders.json");
+// The mock oracle prices any address, so the token needn't be deployed
+const TOKEN = "0x000000000000000000000000000000000000bEEF";
+const START_PRICE = "100";
+const STOP_LOSS = "90";
+
+async function deploy(signer: ethers.Signer, name: string, args: any[]) {
+  const artifact = await artifacts.readArtifact(name);
+  const contract = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.deployed();
+  return contract;
+}
+
+async function main() {
+  const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
+  const deployer = provider.getSigner(0);
+  const { chainId } = await provider.getNetwork();
+
+  console.log(`Deploying oracle and position on chain ${chainId}...`);
+  const oracle = await deploy(deployer, "MockPriceOracle", []);
+  await (await oracle.setPrice(TOKEN, ethers.utils.parseEther(START_PRICE))).wait();
+  const position = await deploy(deployer, "MockStopLossPosition", [oracle.address, TOKEN, ethers.utils.parseEther(STOP_LOSS)]);
+
+  // Orders from an earlier run point at contracts that no longer exist
+  if (fs.existsSync(ORDERS_FILE)) fs.unlinkSync(ORDERS_FILE);
+  // Only used to write the orders file, so any key will do
+  const keeper = new StopLossKeeper({
+    rpcUrl: RPC_URL,
+    privateKey: ethers.Wallet.createRandom().privateKey,
+    priceOracle: oracle.address,
+    ordersFile: ORDERS_FILE,
+    executionsFile: path.join(__dirname, "../../logs/keeper-executions.jsonl"),
+    pollInterval: 15000,
+    maxAttempts: 5,
+    backoff: { baseDelay: 15000, maxDelay: 600000 }
+  });
+  const order = keeper.register({
+    type: "stopLoss",
+    isLong: true,
+    triggerPrice: parseFloat(STOP_LOSS),
+    target: "position",
+    address: position.address,
+    token: TOKEN
+  });
+
+  const deployment = { rpcUrl: RPC_URL, chainId, priceOracle: oracle.address, token: TOKEN, position: position.address };
+  fs.mkdirSync(path.dirname(DEPLOYMENT_FILE), { recursive: true });
+  fs.writeFileSync(DEPLOYMENT_FILE, JSON.stringify(deployment, null, 2));
+
+  console.log("Price oracle:", oracle.address);
+  console.log("Position:", position.address);
+  console.log(`Registered stop-loss ${order.id} at ${STOP_LOSS} with the price at ${START_PRICE}`);
+  console.log("Deployment written to", DEPLOYMENT_FILE);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
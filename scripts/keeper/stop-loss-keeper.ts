@@ -0,0 +1,329 @@
+#!/usr/bin/env node
+
+import { ethers } from 'ethers';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvironmentConfig } from '../../frontend/src/integrations/config';
+import { TriggerOrder, evaluateOrder, validateOrder } from './triggers';
+import { BackoffOptions, backoffDelay } from '../relayer/schedule';
+const sleep = promisify(setTimeout);
+
+// 'perpetual' closes the keeper account's own position on a PerpetualMarket;
+// 'position' calls a position contract whose levels were set with setStopLoss
+type OrderTarget = 'perpetual' | 'position';
+
+interface KeeperOrder extends TriggerOrder {
+    id: string;
+    target: OrderTarget;
+    address: string; // market or position contract
+    token: string; // oracle token the trigger watches
+    size?: string; // perpetual only; closes the whole position when omitted
+    createdAt: number;
+    // After a failed execution: retried no sooner than nextAttemptAt, and disabled once out
+    // of attempts or when it can't be filled. Disabled orders stay until cancelled.
+    attempts?: number;
+    nextAttemptAt?: number; // ms timestamp
+    lastError?: string;
+    disabled?: boolean;
+}
+
+interface ExecutionRecord {
+    orderId: string;
+    type: KeeperOrder['type'];
+    target: OrderTarget;
+    address: string;
+    token: string;
+    triggerPrice: number;
+    price: number; // oracle price that triggered the order
+    priceBlock: number;
+    // failed: the last attempt before the order was disabled
+    status: 'executed' | 'failed';
+    attempts: number;
+    txHash?: string;
+    error?: string;
+    timestamp: string;
+}
+
+interface KeeperConfig {
+    rpcUrl: string;
+    privateKey: string;
+    priceOracle: string;
+    ordersFile: string;
+    executionsFile: string;
+    pollInterval: number;
+    maxAttempts: number;
+    backoff: BackoffOptions;
+}
+
+const ORACLE_ABI = [
+    'function getPrice(address token) view returns (uint256)',
+    'event PriceUpdate(address token, uint256 price)'
+];
+
+const PERPETUAL_MARKET_ABI = [
+    'function closePosition(uint256 size) returns (bool)',
+    'function getPosition(address trader) view returns (bool isLong, uint256 size, uint256 margin, uint256 entryPrice, int256 entryFundingRate)'
+];
+
+// Position contracts check the submitted price against their own oracle read
+const STOP_LOSS_POSITION_ABI = ['function executeStopLoss(uint256 price) returns (bool)'];
+
+// Retrying won't help, e.g. the position the order closes is gone
+class UnfillableOrderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnfillableOrderError';
+    }
+}
+
+class StopLossKeeper {
+    private provider: ethers.providers.JsonRpcProvider;
+    private wallet: ethers.Wallet;
+    private oracle: ethers.Contract;
+    private config: KeeperConfig;
+    private orders: Map<string, KeeperOrder>;
+    private executing: Set<string>;
+
+    constructor(config: KeeperConfig) {
+        this.config = config;
+        this.provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
+        this.provider.pollingInterval = config.pollInterval;
+        this.wallet = new ethers.Wallet(config.privateKey, this.provider);
+        this.oracle = new ethers.Contract(config.priceOracle, ORACLE_ABI, this.provider);
+        this.orders = new Map();
+        this.executing = new Set();
+    }
+
+    async initialize(): Promise<void> {
+        this.loadOrders();
+        console.log(`Keeper ${this.wallet.address} watching ${this.orders.size} orders`);
+
+        // Orders may already be past their trigger from while the keeper was down
+        await this.checkAllOrders();
+
+        this.oracle.on('PriceUpdate', async (token: string, price: ethers.BigNumber, event: ethers.Event) => {
+            await this.onPrice(token, price, event.blockNumber);
+        });
+    }
+
+    register(order: Omit<KeeperOrder, 'id' | 'createdAt'>): KeeperOrder {
+        validateOrder(order);
+        if (!ethers.utils.isAddress(order.address) || !ethers.utils.isAddress(order.token)) {
+            throw new Error("Order needs a valid contract and token address");
+        }
+
+        const registered: KeeperOrder = {
+            ...order,
+            address: ethers.utils.getAddress(order.address),
+            token: ethers.utils.getAddress(order.token),
+            id: ethers.utils.id(`${order.address}:${order.type}:${Date.now()}:${Math.random()}`).slice(0, 18),
+            createdAt: Date.now()
+        };
+        this.orders.set(registered.id, registered);
+        this.saveOrders();
+        return registered;
+    }
+
+    cancel(orderId: string): boolean {
+        const removed = this.orders.delete(orderId);
+        if (removed) this.saveOrders();
+        return removed;
+    }
+
+    getOrders(): KeeperOrder[] {
+        return Array.from(this.orders.values());
+    }
+
+    // Polling backstop for missed events, e.g. after an RPC reconnect
+    async monitorOrders(): Promise<void> {
+        while (true) {
+            try {
+                await sleep(this.config.pollInterval);
+                this.loadOrders(); // picks up orders registered from the command line
+                await this.checkAllOrders();
+            } catch (error) {
+                console.error('Error checking orders:', error);
+                await sleep(5000);
+            }
+        }
+    }
+
+    private async checkAllOrders(): Promise<void> {
+        const tokens = new Set(this.getOrders().filter(o => !o.disabled).map(o => o.token));
+        const blockNumber = await this.provider.getBlockNumber();
+        for (const token of tokens) {
+            try {
+                const price: ethers.BigNumber = await this.oracle.getPrice(token);
+                await this.onPrice(token, price, blockNumber);
+            } catch (error) {
+                console.error(`Error reading price for ${token}:`, error);
+            }
+        }
+    }
+
+    private async onPrice(token: string, rawPrice: ethers.BigNumber, blockNumber: number): Promise<void> {
+        const price = parseFloat(ethers.utils.formatEther(rawPrice));
+        const watching = this.getOrders().filter(o => o.token === ethers.utils.getAddress(token));
+
+        let changed = false;
+        for (const order of watching) {
+            if (this.executing.has(order.id) || order.disabled) continue;
+
+            const { order: updated, triggered } = evaluateOrder(order, price);
+            if (updated !== order) {
+                this.orders.set(order.id, updated);
+                changed = true;
+            }
+            // Failed orders wait out their backoff
+            if (triggered && Date.now() >= (updated.nextAttemptAt ?? 0)) {
+                await this.execute(updated, price, rawPrice, blockNumber);
+                changed = true;
+            }
+        }
+        if (changed) this.saveOrders();
+    }
+
+    private async execute(
+        order: KeeperOrder,
+        price: number,
+        rawPrice: ethers.BigNumber,
+        priceBlock: number
+    ): Promise<void> {
+        this.executing.add(order.id);
+        const attempts = (order.attempts ?? 0) + 1;
+        const record: ExecutionRecord = {
+            orderId: order.id,
+            type: order.type,
+            target: order.target,
+            address: order.address,
+            token: order.token,
+            triggerPrice: order.triggerPrice,
+            price,
+            priceBlock,
+            status: 'executed',
+            attempts,
+            timestamp: new Date().toISOString()
+        };
+
+        try {
+            const tx = order.target === 'perpetual'
+                ? await this.closePerpetual(order)
+                : await new ethers.Contract(order.address, STOP_LOSS_POSITION_ABI, this.wallet).executeStopLoss(rawPrice);
+            record.txHash = tx.hash;
+            const receipt = await tx.wait();
+            if (receipt.status !== 1) throw new Error(`Transaction ${tx.hash} reverted`);
+
+            this.orders.delete(order.id);
+            this.recordExecution(record);
+            console.log(`[KEEPER] Executed ${order.type} ${order.id} at ${price} (trigger ${order.triggerPrice})`);
+        } catch (error: any) {
+            // RPC errors keep the node's message a level down
+            const lastError: string = error.reason || error.error?.message || error.message;
+            if (error instanceof UnfillableOrderError || attempts >= this.config.maxAttempts) {
+                // Only the final failure goes in the log, not every retry
+                this.orders.set(order.id, { ...order, attempts, lastError, nextAttemptAt: undefined, disabled: true });
+                this.recordExecution({ ...record, status: 'failed', error: lastError });
+                console.error(`[KEEPER] Disabled ${order.type} ${order.id} after ${attempts} attempts:`, lastError);
+            } else {
+                const delay = backoffDelay(attempts, this.config.backoff);
+                this.orders.set(order.id, { ...order, attempts, lastError, nextAttemptAt: Date.now() + delay });
+                console.error(`[KEEPER] Failed to execute ${order.type} ${order.id}, retrying in ${delay}ms:`, lastError);
+            }
+        } finally {
+            this.executing.delete(order.id);
+        }
+    }
+
+    private async closePerpetual(order: KeeperOrder): Promise<ethers.ContractTransaction> {
+        const market = new ethers.Contract(order.address, PERPETUAL_MARKET_ABI, this.wallet);
+        const position = await market.getPosition(this.wallet.address);
+        if (position.size.isZero()) throw new UnfillableOrderError("No open position");
+        if (position.isLong !== order.isLong) throw new UnfillableOrderError("Open position is on the other side");
+
+        const size = order.size ? ethers.utils.parseEther(order.size) : position.size;
+        return market.closePosition(size.gt(position.size) ? position.size : size);
+    }
+
+    // Merges orders from the file into memory. Orders already held keep their in-memory
+    // state (e.g. a moved trailing stop); ones gone from the file were cancelled.
+    loadOrders(): void {
+        if (!fs.existsSync(this.config.ordersFile)) return;
+        const orders: KeeperOrder[] = JSON.parse(fs.readFileSync(this.config.ordersFile, 'utf8'));
+        const ids = new Set(orders.map(order => order.id));
+        for (const id of Array.from(this.orders.keys())) {
+            if (!ids.has(id) && !this.executing.has(id)) this.orders.delete(id);
+        }
+        for (const order of orders) {
+            if (this.orders.has(order.id)) continue;
+            try {
+                validateOrder(order);
+                this.orders.set(order.id, order);
+            } catch (error: any) {
+                console.error(`Skipping invalid order ${order.id}:`, error.message);
+            }
+        }
+    }
+
+    private saveOrders(): void {
+        fs.mkdirSync(path.dirname(this.config.ordersFile), { recursive: true });
+        fs.writeFileSync(this.config.ordersFile, JSON.stringify(this.getOrders(), null, 2));
+    }
+
+    private recordExecution(record: ExecutionRecord): void {
+        fs.mkdirSync(path.dirname(this.config.executionsFile), { recursive: true });
+        fs.appendFileSync(this.config.executionsFile, JSON.stringify(record) + '\n');
+    }
+}
+
+async function main() {
+    const environment = getEnvironmentConfig();
+    if (!process.env.KEEPER_PRIVATE_KEY) throw new Error("KEEPER_PRIVATE_KEY is not set");
+
+    // Written by local-setup.ts; environment variables still take precedence
+    const deployment = process.env.KEEPER_DEPLOYMENT_FILE
+        ? JSON.parse(fs.readFileSync(process.env.KEEPER_DEPLOYMENT_FILE, 'utf8'))
+        : undefined;
+
+    const keeper = new StopLossKeeper({
+        rpcUrl: process.env.RPC_URL || deployment?.rpcUrl || environment.rpc,
+        privateKey: process.env.KEEPER_PRIVATE_KEY,
+        priceOracle: process.env.PRICE_ORACLE_ADDRESS || deployment?.priceOracle || environment.contracts.priceOracle,
+        ordersFile: process.env.KEEPER_ORDERS_FILE || path.join(__dirname, '../../data/keeper-orders.json'),
+        executionsFile: process.env.KEEPER_EXECUTIONS_FILE || path.join(__dirname, '../../logs/keeper-executions.jsonl'),
+        pollInterval: parseInt(process.env.KEEPER_POLL_INTERVAL || '15000'),
+        maxAttempts: parseInt(process.env.KEEPER_MAX_ATTEMPTS || '5'),
+        backoff: {
+            baseDelay: parseInt(process.env.KEEPER_RETRY_DELAY || '15000'),
+            maxDelay: parseInt(process.env.KEEPER_MAX_RETRY_DELAY || '600000')
+        }
+    });
+
+    // keeper register '<order json>' adds an order for a running keeper to pick up,
+    // keeper cancel <order id> removes one. Both rewrite the orders file, so read it first.
+    const [command, arg] = process.argv.slice(2);
+    if (command === 'register' || command === 'cancel') {
+        if (!arg) throw new Error(`Usage: keeper ${command} ${command === 'register' ? "'<order json>'" : '<order id>'}`);
+        keeper.loadOrders();
+        if (command === 'register') {
+            const order = keeper.register(JSON.parse(arg));
+            console.log(`Registered ${order.type} ${order.id}`);
+        } else {
+            if (!keeper.cancel(arg)) throw new Error(`No order ${arg}`);
+            console.log(`Cancelled ${arg}`);
+        }
+        return;
+    }
+
+    await keeper.initialize();
+    await keeper.monitorOrders();
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
+
+export { StopLossKeeper, KeeperOrder, KeeperConfig, ExecutionRecord, OrderTarget };
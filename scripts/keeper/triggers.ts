@@ -0,0 +1,70 @@
+// Trigger rules for keeper-managed orders, on human-unit prices
+
+export type OrderType = 'stopLoss' | 'takeProfit' | 'stopLimit' | 'trailingStop';
+
+export interface TriggerOrder {
+    type: OrderType;
+    isLong: boolean; // side of the position the order closes
+    triggerPrice: number; // for trailing stops, the current stop level
+    limitPrice?: number; // stopLimit: worst price the close may execute at
+    trailingPercent?: number; // trailingStop: distance kept behind the best price, e.g. 5 for 5%
+    peakPrice?: number; // trailingStop: best price seen since the order was registered
+}
+
+export function validateOrder(order: TriggerOrder) {
+    if (!(order.triggerPrice > 0)) throw new Error("Trigger price must be positive");
+    if (order.type === 'stopLimit') {
+        if (!(order.limitPrice !== undefined && order.limitPrice > 0)) {
+            throw new Error("Stop-limit orders need a positive limit price");
+        }
+        const limitBeyondStop = order.isLong
+            ? order.limitPrice > order.triggerPrice
+            : order.limitPrice < order.triggerPrice;
+        if (limitBeyondStop) throw new Error("Limit price must be on the far side of the stop price");
+    }
+    if (order.type === 'trailingStop') {
+        if (!(order.trailingPercent !== undefined && order.trailingPercent > 0 && order.trailingPercent < 100)) {
+            throw new Error("Trailing stops need a trailing percentage between 0 and 100");
+        }
+    }
+}
+
+// Moves a trailing stop after the price makes a new high (longs) or low (shorts).
+// The stop only ever tightens.
+export function updateTrailingStop(order: TriggerOrder, price: number): TriggerOrder {
+    if (order.type !== 'trailingStop' || order.trailingPercent === undefined) return order;
+
+    const improved = order.peakPrice === undefined
+        || (order.isLong ? price > order.peakPrice : price < order.peakPrice);
+    if (!improved) return order;
+
+    const distance = order.trailingPercent / 100;
+    const stop = order.isLong ? price * (1 - distance) : price * (1 + distance);
+    const tighter = order.isLong ? stop > order.triggerPrice : stop < order.triggerPrice;
+    return {
+        ...order,
+        peakPrice: price,
+        triggerPrice: tighter ? stop : order.triggerPrice
+    };
+}
+
+// Stops close a long when the price falls to the trigger and a short when it rises
+// to it; take-profits the reverse. A stop-limit also needs the price to still be
+// within its limit, otherwise it waits for the price to come back.
+export function isTriggered(order: TriggerOrder, price: number): boolean {
+    const stopCrossed = order.isLong ? price <= order.triggerPrice : price >= order.triggerPrice;
+    switch (order.type) {
+        case 'stopLoss':
+        case 'trailingStop':
+            return stopCrossed;
+        case 'takeProfit':
+            return order.isLong ? price >= order.triggerPrice : price <= order.triggerPrice;
+        case 'stopLimit':
+            return stopCrossed && (order.isLong ? price >= order.limitPrice! : price <= order.limitPrice!);
+    }
+}
+
+export function evaluateOrder<T extends TriggerOrder>(order: T, price: number): { order: T; triggered: boolean } {
+    const updated = updateTrailingStop(order, price) as T;
+    return { order: updated, triggered: isTriggered(updated, price) };
+}
@@ -2,6 +2,7 @@
 
 import { ethers } from 'ethers';
 import { promisify } from 'util';
+import { MulticallProvider, tryAggregate } from '../../frontend/src/integrations/Multicall';
 const sleep = promisify(setTimeout);
 
 interface ProtocolMetrics {
@@ -34,6 +35,7 @@ interface ProtocolConfig {
         trading: string;
         liquidation: string;
         oracle: string;
+        multicall3?: string;
     };
     thresholds: {
         minHealthScore: number;
@@ -57,7 +59,7 @@ class ProtocolMonitor {
 
     constructor(config: ProtocolConfig) {
         this.config = config;
-        this.provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
+        this.provider = new MulticallProvider(config.rpcUrl, { address: config.contracts.multicall3 });
         this.metrics = this.initializeMetrics();
         this.contracts = this.initializeContracts();
     }
@@ -190,40 +192,56 @@ class ProtocolMonitor {
     }
 
     private async updateMetrics(): Promise<void> {
-        // Update TVL
-        await this.updateTVL();
+        // Reads are issued together so the provider sends them as one multicall
+        const [, activeUsers, collateralizationRatio, liquidationRisk, priceImpact, slippage, latency, gasPrice] =
+            await Promise.all([
+                this.updateTVL(),
+                this.getActiveUsers24h(),
+                this.contracts.lending.getCollateralizationRatio(),
+                this.contracts.lending.getLiquidationRisks(),
+                this.contracts.trading.getPriceImpact(),
+                this.contracts.trading.getSlippage(),
+                this.measureTransactionLatency(),
+                this.provider.getGasPrice()
+            ]);
 
         // Update active users
-        this.metrics.activeUsers24h = await this.getActiveUsers24h();
+        this.metrics.activeUsers24h = activeUsers;
 
         // Update lending metrics
-        this.metrics.lendingMetrics.collateralizationRatio = 
-            (await this.contracts.lending.getCollateralizationRatio()).toNumber() / 100;
-        this.metrics.lendingMetrics.liquidationRisk = 
-            await this.contracts.lending.getLiquidationRisks();
+        this.metrics.lendingMetrics.collateralizationRatio = collateralizationRatio.toNumber() / 100;
+        this.metrics.lendingMetrics.liquidationRisk = liquidationRisk;
 
         // Update trading metrics
-        this.metrics.tradingMetrics.priceImpact = 
-            (await this.contracts.trading.getPriceImpact()).toNumber() / 100;
-        this.metrics.tradingMetrics.slippage = 
-            (await this.contracts.trading.getSlippage()).toNumber() / 100;
+        this.metrics.tradingMetrics.priceImpact = priceImpact.toNumber() / 100;
+        this.metrics.tradingMetrics.slippage = slippage.toNumber() / 100;
 
         // Update performance metrics
-        this.metrics.performanceMetrics.transactionLatency = 
-            await this.measureTransactionLatency();
-        this.metrics.performanceMetrics.gasUsage = 
-            await this.provider.getGasPrice();
+        this.metrics.performanceMetrics.transactionLatency = latency;
+        this.metrics.performanceMetrics.gasUsage = gasPrice;
 
         // Calculate health score
         this.updateHealthScore();
     }
 
     private async updateTVL(): Promise<void> {
+        const supplies = Array.from(this.metrics.lendingMetrics.supplyVolume.entries());
+        const prices = await tryAggregate<ethers.BigNumber>(supplies.map(([token]) => ({
+            contract: this.contracts.oracle,
+            method: 'getPrice',
+            args: [token]
+        })));
+
+        // A token whose price can't be read is left out rather than failing the update
         let tvl = ethers.BigNumber.from(0);
-        for (const [token, supply] of this.metrics.lendingMetrics.supplyVolume.entries()) {
-            const price = await this.contracts.oracle.getPrice(token);
-            tvl = tvl.add(supply.mul(price));
-        }
+        supplies.forEach(([token, supply], i) => {
+            const price = prices[i];
+            if (price.success) {
+                tvl = tvl.add(supply.mul(price.value!));
+            } else {
+                console.error(`Error getting price for ${token}:`, price.error);
+            }
+        });
         this.metrics.tvl = tvl;
     }
 
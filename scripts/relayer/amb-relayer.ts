@@ -0,0 +1,366 @@
+#!/usr/bin/env node
+
+import { ethers } from 'ethers';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import { bridgeConfig, getEnvironmentConfig } from '../../frontend/src/integrations/config';
+import {
+    MessageBridge,
+    CrossChainMessage,
+    MESSAGE_STATE,
+    executionGasLimit,
+    signMessage,
+    sortSignatures
+} from '../../frontend/src/integrations/MessageBridge';
+import { BackoffOptions, backoffDelay, nextScanRange } from './schedule';
+const sleep = promisify(setTimeout);
+
+// Anything that signs messages as a relayer. Keys held by this process are one
+// kind; a signing service run by another relayer operator fits the same shape.
+interface RelayerSigner {
+    address: string;
+    sign(message: CrossChainMessage): Promise<string>;
+}
+
+// CrossChainMessage as kept in the state file, with gasLimit as a decimal string
+type StoredMessage = Omit<CrossChainMessage, 'gasLimit'> & { gasLimit: string };
+
+interface PendingDelivery {
+    message: StoredMessage;
+    attempts: number;
+    nextAttemptAt: number; // ms timestamp
+    lastError?: string;
+}
+
+// Which chains and bridges the state belongs to, checked when it is loaded
+interface RelayerRoute {
+    sourceChainId: number;
+    destinationChainId: number;
+    sourceBridge: string;
+    destinationBridge: string;
+}
+
+interface RelayerState extends RelayerRoute {
+    lastScannedBlock: number;
+    pending: PendingDelivery[];
+}
+
+interface DeliveryRecord {
+    messageId: string;
+    sourceChainId: number;
+    destinationChainId: number;
+    target: string;
+    // delivered: executed by this relayer; skipped: already executed by someone else;
+    // abandoned: out of attempts, with the message kept so it can be queued again
+    status: 'delivered' | 'skipped' | 'abandoned';
+    success?: boolean; // whether the target call succeeded
+    attempts: number;
+    txHash?: string;
+    error?: string;
+    message?: StoredMessage;
+    timestamp: string;
+}
+
+interface RelayerConfig {
+    sourceRpcUrl: string;
+    destinationRpcUrl: string;
+    sourceBridge: string;
+    destinationBridge: string;
+    relayerKeys: string[];
+    submitterKey?: string; // pays for deliveries; the first relayer key by default
+    requiredConfirmations: number;
+    pollInterval: number;
+    maxBlockRange: number;
+    startBlock: number; // first block to scan when there is no saved state
+    maxAttempts: number;
+    backoff: BackoffOptions;
+    stateFile?: string; // one per chain pair and source bridge under data/ by default
+    deliveriesFile: string;
+}
+
+// Delivers messages from one source chain to one destination chain; run a second
+// process with the chains swapped to relay the other way
+class AmbRelayer {
+    private sourceProvider: ethers.providers.JsonRpcProvider;
+    private destProvider: ethers.providers.JsonRpcProvider;
+    private submitter: ethers.Wallet;
+    private signers: RelayerSigner[];
+    private config: RelayerConfig;
+    private state!: RelayerState;
+    private stateFile!: string;
+    private bridge!: MessageBridge;
+    private destinationBridge!: ethers.Contract;
+    private requiredSignatures = 0;
+
+    constructor(config: RelayerConfig) {
+        this.config = config;
+        this.sourceProvider = new ethers.providers.JsonRpcProvider(config.sourceRpcUrl);
+        this.destProvider = new ethers.providers.JsonRpcProvider(config.destinationRpcUrl);
+        this.submitter = new ethers.Wallet(config.submitterKey || config.relayerKeys[0], this.destProvider);
+        this.signers = config.relayerKeys.map(key => {
+            const wallet = new ethers.Wallet(key);
+            return {
+                address: wallet.address,
+                sign: (message: CrossChainMessage) => signMessage(wallet, config.destinationBridge, message)
+            };
+        });
+    }
+
+    async initialize(): Promise<void> {
+        const [source, destination] = await Promise.all([
+            this.sourceProvider.getNetwork(),
+            this.destProvider.getNetwork()
+        ]);
+        this.bridge = new MessageBridge(
+            this.sourceProvider,
+            this.destProvider,
+            source.chainId,
+            destination.chainId,
+            { address: this.config.sourceBridge, requiredConfirmations: this.config.requiredConfirmations },
+            { address: this.config.destinationBridge }
+        );
+        this.destinationBridge = this.bridge.getDestinationBridge(this.submitter);
+
+        // Signatures from keys the bridge doesn't know would only get the delivery rejected
+        const known = await Promise.all(this.signers.map(s => this.destinationBridge.isRelayer(s.address)));
+        for (const signer of this.signers.filter((_, i) => !known[i])) {
+            console.warn(`[RELAYER] ${signer.address} is not a relayer on the destination bridge; ignoring its key`);
+        }
+        this.signers = this.signers.filter((_, i) => known[i]);
+
+        this.requiredSignatures = (await this.destinationBridge.requiredSignatures()).toNumber();
+        if (this.signers.length < this.requiredSignatures) {
+            throw new Error(`The bridge needs ${this.requiredSignatures} signatures but only ${this.signers.length} relayer keys are available`);
+        }
+
+        const route: RelayerRoute = {
+            sourceChainId: source.chainId,
+            destinationChainId: destination.chainId,
+            sourceBridge: ethers.utils.getAddress(this.config.sourceBridge),
+            destinationBridge: ethers.utils.getAddress(this.config.destinationBridge)
+        };
+        this.stateFile = this.config.stateFile || path.join(
+            __dirname,
+            `../../data/amb-relayer-${route.sourceChainId}-${route.destinationChainId}-${route.sourceBridge.toLowerCase()}.json`
+        );
+        this.loadState(route, await this.sourceProvider.getBlockNumber());
+        console.log(
+            `Relaying chain ${source.chainId} -> ${destination.chainId} with ${this.signers.length} keys ` +
+            `(${this.requiredSignatures} required), ${this.state.pending.length} messages pending`
+        );
+    }
+
+    async run(): Promise<void> {
+        while (true) {
+            try {
+                await this.poll();
+            } catch (error) {
+                // Most often an RPC is unreachable; scanning resumes from the saved block
+                console.error('Error relaying messages:', error);
+            }
+            await sleep(this.config.pollInterval);
+        }
+    }
+
+    async poll(): Promise<void> {
+        await this.scan();
+        const now = Date.now();
+        for (const pending of [...this.state.pending]) {
+            if (pending.nextAttemptAt <= now) await this.deliver(pending);
+        }
+    }
+
+    // Queues messages from blocks with enough confirmations, saving progress per range
+    private async scan(): Promise<void> {
+        const head = await this.sourceProvider.getBlockNumber();
+        let range;
+        while ((range = nextScanRange(this.state.lastScannedBlock, head, this.config.requiredConfirmations, this.config.maxBlockRange))) {
+            const messages = await this.bridge.getSentMessages(range.fromBlock, range.toBlock);
+            for (const message of messages) {
+                if (this.state.pending.some(p => p.message.messageId === message.messageId)) continue;
+                this.state.pending.push({ message: storeMessage(message), attempts: 0, nextAttemptAt: 0 });
+                console.log(`[RELAYER] Queued ${message.messageId} for ${message.target} from block ${message.blockNumber}`);
+            }
+            this.state.lastScannedBlock = range.toBlock;
+            this.saveState();
+        }
+    }
+
+    private async deliver(pending: PendingDelivery): Promise<void> {
+        const message = loadMessage(pending.message);
+        pending.attempts++;
+
+        try {
+            // Another relayer may have delivered it already
+            const state: number = await this.destinationBridge.messageState(message.messageId);
+            if (state !== MESSAGE_STATE.notExecuted) {
+                return this.finish(pending, { status: 'skipped', success: state === MESSAGE_STATE.succeeded });
+            }
+
+            const signatures = await this.collectSignatures(message);
+            const tx = await this.destinationBridge.executeMessage(
+                {
+                    messageId: message.messageId,
+                    sourceChainId: message.sourceChainId,
+                    destinationChainId: message.destinationChainId,
+                    sender: message.sender,
+                    target: message.target,
+                    gasLimit: message.gasLimit,
+                    data: message.data
+                },
+                signatures,
+                { gasLimit: executionGasLimit(message, signatures.length) }
+            );
+            const receipt = await tx.wait();
+            const executed = receipt.events?.find((e: ethers.Event) => e.event === 'MessageExecuted');
+            const success: boolean = executed?.args?.success ?? false;
+
+            this.finish(pending, { status: 'delivered', success, txHash: tx.hash });
+            console.log(`[RELAYER] Delivered ${message.messageId} in ${tx.hash}; the target call ${success ? 'succeeded' : 'failed'}`);
+        } catch (error: any) {
+            // RPC errors keep the node's message a level down
+            pending.lastError = error.reason || error.error?.message || error.message;
+            if (pending.attempts >= this.config.maxAttempts) {
+                this.finish(pending, { status: 'abandoned', error: pending.lastError, message: pending.message });
+                console.error(`[RELAYER] Giving up on ${message.messageId} after ${pending.attempts} attempts:`, pending.lastError);
+                return;
+            }
+
+            const delay = backoffDelay(pending.attempts, this.config.backoff);
+            pending.nextAttemptAt = Date.now() + delay;
+            this.saveState();
+            console.error(`[RELAYER] Delivery of ${message.messageId} failed, retrying in ${delay}ms:`, pending.lastError);
+        }
+    }
+
+    // Signers that fail are skipped as long as enough of the others sign
+    private async collectSignatures(message: CrossChainMessage): Promise<string[]> {
+        const results = await Promise.allSettled(this.signers.map(signer => signer.sign(message)));
+        const signatures = results
+            .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+            .map(r => r.value);
+        if (signatures.length < this.requiredSignatures) {
+            throw new Error(`Collected ${signatures.length} of ${this.requiredSignatures} required signatures`);
+        }
+        return sortSignatures(this.config.destinationBridge, message, signatures).slice(0, this.requiredSignatures);
+    }
+
+    private finish(pending: PendingDelivery, result: Pick<DeliveryRecord, 'status' | 'success' | 'txHash' | 'error' | 'message'>) {
+        this.state.pending = this.state.pending.filter(p => p !== pending);
+        this.saveState();
+        this.recordDelivery({
+            messageId: pending.message.messageId,
+            sourceChainId: pending.message.sourceChainId,
+            destinationChainId: pending.message.destinationChainId,
+            target: pending.message.target,
+            attempts: pending.attempts,
+            ...result,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    private loadState(route: RelayerRoute, head: number): void {
+        this.state = { ...route, lastScannedBlock: this.config.startBlock - 1, pending: [] };
+        if (!fs.existsSync(this.stateFile)) return;
+
+        const saved: RelayerState = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+        const mismatched = (Object.keys(route) as (keyof RelayerRoute)[]).filter(key => saved[key] !== route[key]);
+        if (mismatched.length > 0) {
+            throw new Error(
+                `State file ${this.stateFile} belongs to a different route (${mismatched.join(', ')} differ); ` +
+                `point RELAYER_STATE_FILE elsewhere or remove it`
+            );
+        }
+        // Restarted local nodes keep their chain IDs and bridge addresses but start again from block 0
+        if (saved.lastScannedBlock > head) {
+            console.warn(
+                `[RELAYER] State file was scanned to block ${saved.lastScannedBlock} but chain ${route.sourceChainId} ` +
+                `is at ${head}; the chain was reset, starting over`
+            );
+            this.saveState();
+            return;
+        }
+        this.state = saved;
+    }
+
+    private saveState(): void {
+        fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+        fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    }
+
+    private recordDelivery(record: DeliveryRecord): void {
+        fs.mkdirSync(path.dirname(this.config.deliveriesFile), { recursive: true });
+        fs.appendFileSync(this.config.deliveriesFile, JSON.stringify(record) + '\n');
+    }
+}
+
+function storeMessage(message: CrossChainMessage): StoredMessage {
+    return { ...message, gasLimit: message.gasLimit.toString() };
+}
+
+function loadMessage(message: StoredMessage): CrossChainMessage {
+    return { ...message, gasLimit: ethers.BigNumber.from(message.gasLimit) };
+}
+
+// RELAYER_PRIVATE_KEYS is a comma-separated list; RELAYER_MNEMONIC with RELAYER_ACCOUNTS
+// (indexes, e.g. "1,2,3") derives them instead, which suits local Hardhat nodes
+function relayerKeys(): string[] {
+    if (process.env.RELAYER_PRIVATE_KEYS) {
+        return process.env.RELAYER_PRIVATE_KEYS.split(',').map(key => key.trim()).filter(Boolean);
+    }
+    if (process.env.RELAYER_MNEMONIC) {
+        const accounts = (process.env.RELAYER_ACCOUNTS || '0').split(',').map(i => parseInt(i.trim()));
+        return accounts.map(i => ethers.Wallet.fromMnemonic(process.env.RELAYER_MNEMONIC!, `m/44'/60'/0'/0/${i}`).privateKey);
+    }
+    return [];
+}
+
+async function main() {
+    const environment = getEnvironmentConfig();
+    const amb = bridgeConfig.chain138.amb;
+    // Written by local-setup.ts; environment variables still take precedence
+    const deployment = process.env.RELAYER_DEPLOYMENT_FILE
+        ? JSON.parse(fs.readFileSync(process.env.RELAYER_DEPLOYMENT_FILE, 'utf8'))
+        : undefined;
+
+    const keys = relayerKeys();
+    if (keys.length === 0) throw new Error("Set RELAYER_PRIVATE_KEYS or RELAYER_MNEMONIC");
+    const destinationRpcUrl = process.env.DESTINATION_RPC_URL || deployment?.destination.rpcUrl;
+    if (!destinationRpcUrl) throw new Error("DESTINATION_RPC_URL is not set");
+    const sourceBridge = process.env.SOURCE_BRIDGE_ADDRESS || deployment?.source.bridge || amb.address;
+    const destinationBridge = process.env.DESTINATION_BRIDGE_ADDRESS || deployment?.destination.bridge;
+    if (!sourceBridge || !destinationBridge) throw new Error("Bridge addresses for both chains are required");
+
+    const relayer = new AmbRelayer({
+        sourceRpcUrl: process.env.SOURCE_RPC_URL || deployment?.source.rpcUrl || environment.rpc,
+        destinationRpcUrl,
+        sourceBridge,
+        destinationBridge,
+        relayerKeys: keys,
+        submitterKey: process.env.RELAYER_SUBMITTER_KEY,
+        requiredConfirmations: parseInt(process.env.RELAYER_CONFIRMATIONS || String(amb.requiredConfirmations)),
+        pollInterval: parseInt(process.env.RELAYER_POLL_INTERVAL || '15000'),
+        maxBlockRange: parseInt(process.env.RELAYER_MAX_BLOCK_RANGE || '2000'),
+        startBlock: parseInt(process.env.RELAYER_START_BLOCK || '0'),
+        maxAttempts: parseInt(process.env.RELAYER_MAX_ATTEMPTS || '8'),
+        backoff: {
+            baseDelay: parseInt(process.env.RELAYER_RETRY_DELAY || '15000'),
+            maxDelay: parseInt(process.env.RELAYER_MAX_RETRY_DELAY || '600000')
+        },
+        stateFile: process.env.RELAYER_STATE_FILE,
+        deliveriesFile: process.env.RELAYER_DELIVERIES_FILE || path.join(__dirname, '../../logs/amb-deliveries.jsonl')
+    });
+
+    await relayer.initialize();
+    await relayer.run();
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
+
+export { AmbRelayer, RelayerConfig, RelayerSigner, DeliveryRecord, PendingDelivery };
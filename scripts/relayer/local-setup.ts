@@ -0,0 +1,80 @@
+import { ethers, artifacts } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { bridgeConfig } from "../../frontend/src/integrations/config";
+import { encodeCall } from "../../frontend/src/integrations/MessageBridge";
+
+// Deploys a bridge on each of two local Hardhat nodes, a receiver on the destination,
+// and sends it one message for the relayer to deliver. Start the nodes with
+//   npm run node:source
+//   npm run node:destination
+// then run this with npm run relayer:setup-local and the relayer with npm run relayer:local.
+
+const SOURCE_RPC = process.env.SOURCE_RPC_URL || "http://127.0.0.1:8545";
+const DESTINATION_RPC = process.env.DESTINATION_RPC_URL || "http://127.0.0.1:8546";
+// Hardhat's default accounts; relayer:local derives the same keys from the test mnemonic
+const RELAYER_ACCOUNTS = [1, 2, 3];
+const REQUIRED_SIGNATURES = 2;
+const DEPLOYMENT_FILE = process.env.RELAYER_DEPLOYMENT_FILE || path.join(__dirname, "../../data/amb-local.json");
+
+const RECEIVER_ABI = ["function setValue(uint256 value) returns (uint256 previous)"];
+
+async function deploy(signer: ethers.Signer, name: string, args: any[]) {
+  const artifact = await artifacts.readArtifact(name);
+  const contract = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.deployed();
+  return contract;
+}
+
+async function main() {
+  const source = new ethers.providers.JsonRpcProvider(SOURCE_RPC);
+  const destination = new ethers.providers.JsonRpcProvider(DESTINATION_RPC);
+  const [sourceNetwork, destinationNetwork] = await Promise.all([source.getNetwork(), destination.getNetwork()]);
+  if (sourceNetwork.chainId === destinationNetwork.chainId) {
+    throw new Error("Both nodes use the same chain ID; start the destination with HARDHAT_CHAIN_ID set");
+  }
+
+  const relayers = await Promise.all(RELAYER_ACCOUNTS.map(i => destination.getSigner(i).getAddress()));
+  const maxGasPerMessage = bridgeConfig.chain138.amb.gasLimit;
+
+  console.log(`Deploying bridges on chains ${sourceNetwork.chainId} and ${destinationNetwork.chainId}...`);
+  const sourceBridge = await deploy(source.getSigner(0), "ArbitraryMessageBridge", [relayers, REQUIRED_SIGNATURES, maxGasPerMessage]);
+  const destinationBridge = await deploy(destination.getSigner(0), "ArbitraryMessageBridge", [relayers, REQUIRED_SIGNATURES, maxGasPerMessage]);
+  const receiver = await deploy(destination.getSigner(0), "MockMessageReceiver", [destinationBridge.address]);
+
+  const tx = await sourceBridge.requireToPassMessage(
+    destinationNetwork.chainId,
+    receiver.address,
+    encodeCall(RECEIVER_ABI, "setValue", [42]),
+    200000
+  );
+  const receipt = await tx.wait();
+  const sent = receipt.events.find((e: any) => e.event === "MessageSent");
+
+  const deployment = {
+    source: { rpcUrl: SOURCE_RPC, chainId: sourceNetwork.chainId, bridge: sourceBridge.address },
+    destination: {
+      rpcUrl: DESTINATION_RPC,
+      chainId: destinationNetwork.chainId,
+      bridge: destinationBridge.address,
+      receiver: receiver.address
+    },
+    relayers,
+    requiredSignatures: REQUIRED_SIGNATURES
+  };
+  fs.mkdirSync(path.dirname(DEPLOYMENT_FILE), { recursive: true });
+  fs.writeFileSync(DEPLOYMENT_FILE, JSON.stringify(deployment, null, 2));
+
+  console.log("Source bridge:", sourceBridge.address);
+  console.log("Destination bridge:", destinationBridge.address);
+  console.log("Receiver:", receiver.address);
+  console.log(`Sent message ${sent.args.messageId}; once relayed, receiver.value() returns 42`);
+  console.log("Deployment written to", DEPLOYMENT_FILE);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+// Block scanning and retry timing for the AMB relayer; the keeper retries on the same backoff
+
+export interface BackoffOptions {
+    baseDelay: number; // ms before the first retry
+    maxDelay: number;
+    factor?: number; // growth per attempt, 2 by default
+}
+
+export interface BlockRange {
+    fromBlock: number;
+    toBlock: number;
+}
+
+// Exponential backoff with jitter between half and the full delay, so relayers
+// retrying the same message don't all hit the destination at once
+export function backoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+    const factor = options.factor ?? 2;
+    const delay = Math.min(options.maxDelay, options.baseDelay * Math.pow(factor, Math.max(0, attempt - 1)));
+    return Math.round(delay / 2 + random() * delay / 2);
+}
+
+// Blocks after lastScanned with enough confirmations, at most maxRange of them;
+// null while none are. A transaction in the head block has one confirmation.
+export function nextScanRange(
+    lastScanned: number,
+    head: number,
+    confirmations: number,
+    maxRange: number
+): BlockRange | null {
+    const safeHead = head - Math.max(confirmations, 1) + 1;
+    const fromBlock = lastScanned + 1;
+    if (safeHead < fromBlock) return null;
+    return { fromBlock, toBlock: Math.min(safeHead, fromBlock + maxRange - 1) };
+}
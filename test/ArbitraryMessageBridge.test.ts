@@ -0,0 +1,209 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { BigNumber, Contract, Signer, utils } from 'ethers';
+import {
+    CrossChainMessage,
+    MESSAGE_STATE,
+    decodeRevertReason,
+    encodeCall,
+    encodeRemoteCalls,
+    executionGasLimit,
+    signMessage,
+    sortSignatures
+} from '../frontend/src/integrations/MessageBridge';
+
+declare global {
+    var describe: Function;
+    var beforeEach: Function;
+    var it: Function;
+}
+
+const SOURCE_CHAIN_ID = 1;
+const MAX_GAS = 1000000;
+const RECEIVER_ABI = ['function setValue(uint256 value) returns (uint256 previous)'];
+const BRIDGE_ADMIN_ABI = ['function setMaxGasPerMessage(uint256 maxGasPerMessage)'];
+
+async function expectRevert(promise: Promise<any>, reason: string) {
+    let error: Error | undefined;
+    try {
+        await promise;
+    } catch (e) {
+        error = e as Error;
+    }
+    expect(error, `expected a revert with '${reason}'`).to.not.equal(undefined);
+    expect(error!.message).to.contain(reason);
+}
+
+describe('ArbitraryMessageBridge', () => {
+    let bridge: Contract;
+    let receiver: Contract;
+    let relayers: Signer[];
+    let outsider: Signer;
+    let sender: string;
+    let nonce = 0;
+
+    const deploy = async (name: string, ...args: any[]) => {
+        const contract = await (await ethers.getContractFactory(name)).deploy(...args);
+        await contract.deployed();
+        return contract;
+    };
+
+    const buildMessage = (target: string, data: string, gasLimit = 200000): CrossChainMessage => ({
+        messageId: utils.keccak256(utils.defaultAbiCoder.encode(['uint256'], [++nonce])),
+        sourceChainId: SOURCE_CHAIN_ID,
+        destinationChainId: 138,
+        sender,
+        target,
+        gasLimit: BigNumber.from(gasLimit),
+        data
+    });
+
+    const sign = async (message: CrossChainMessage, signers: Signer[] = relayers.slice(0, 2)) =>
+        sortSignatures(bridge.address, message, await Promise.all(signers.map(s => signMessage(s, bridge.address, message))));
+
+    const execute = async (message: CrossChainMessage, signatures?: string[], overrides: any = {}) =>
+        (await bridge.executeMessage(message, signatures || await sign(message), overrides)).wait();
+
+    const executed = (receipt: any) => receipt.events.find((e: any) => e.event === 'MessageExecuted').args;
+
+    beforeEach(async () => {
+        const signers = await ethers.getSigners();
+        relayers = signers.slice(1, 4);
+        outsider = signers[4];
+        sender = await signers[5].getAddress();
+        const addresses = await Promise.all(relayers.map(r => r.getAddress()));
+        bridge = await deploy('ArbitraryMessageBridge', addresses, 2, MAX_GAS);
+        receiver = await deploy('MockMessageReceiver', bridge.address);
+    });
+
+    it('should deliver a signed message with its sender and source chain', async () => {
+        const message = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [42]));
+        const receipt = await execute(message);
+
+        expect(executed(receipt).success).to.equal(true);
+        expect((await receiver.value()).toNumber()).to.equal(42);
+        expect(await receiver.lastSender()).to.equal(sender);
+        expect((await receiver.lastSourceChainId()).toNumber()).to.equal(SOURCE_CHAIN_ID);
+        expect(await bridge.messageState(message.messageId)).to.equal(MESSAGE_STATE.succeeded);
+        // Context is only set during the call
+        expect(await bridge.messageSender()).to.equal(ethers.constants.AddressZero);
+    });
+
+    it('should require the signature threshold from relayers', async () => {
+        const message = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [1]));
+
+        await expectRevert(execute(message, await sign(message, relayers.slice(0, 1))), 'Not enough signatures');
+        await expectRevert(execute(message, await sign(message, [relayers[0], outsider])), 'Signer is not a relayer');
+        expect(await bridge.messageState(message.messageId)).to.equal(MESSAGE_STATE.notExecuted);
+    });
+
+    it('should reject unsorted or repeated signers', async () => {
+        const message = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [1]));
+        const signatures = await sign(message);
+
+        await expectRevert(execute(message, [signatures[1], signatures[0]]), 'Signers not sorted or repeated');
+        await expectRevert(execute(message, [signatures[0], signatures[0]]), 'Signers not sorted or repeated');
+    });
+
+    it('should not execute a message twice, whether it succeeded or failed', async () => {
+        const message = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [5]));
+        await execute(message);
+        await expectRevert(execute(message), 'Message already executed');
+
+        // A call that reverts is recorded as failed and can't be retried either
+        const failing = buildMessage(receiver.address, '0xdeadbeef');
+        const receipt = await execute(failing);
+        expect(executed(receipt).success).to.equal(false);
+        expect(await bridge.messageState(failing.messageId)).to.equal(MESSAGE_STATE.failed);
+        await expectRevert(execute(failing), 'Message already executed');
+    });
+
+    it('should refuse to execute without the gas the sender asked for', async () => {
+        const message = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [9]), 400000);
+
+        await expectRevert(execute(message, undefined, { gasLimit: 300000 }), 'Not enough gas to execute');
+        expect(await bridge.messageState(message.messageId)).to.equal(MESSAGE_STATE.notExecuted);
+        await execute(message);
+        expect((await receiver.value()).toNumber()).to.equal(9);
+    });
+
+    it('should never mark a message failed for lack of the gas the sender asked for', async () => {
+        // A call that needs nearly all of its gas limit, delivered with outer gas limits from
+        // too little up to plenty: each delivery either reverts and stays open, or runs the
+        // call with its full gas and succeeds
+        const data = encodeCall(['function requireGas(uint256 amount)'], 'requireGas', [MAX_GAS - 10000]);
+        let reverted = 0;
+        for (let gas = 1000000; gas <= 1200000; gas += 10000) {
+            const message = buildMessage(receiver.address, data, MAX_GAS);
+            try {
+                await execute(message, undefined, { gasLimit: gas });
+            } catch (e) {
+                reverted++;
+            }
+            const state = await bridge.messageState(message.messageId);
+            expect(state, `gas ${gas}`).to.not.equal(MESSAGE_STATE.failed);
+            if (state === MESSAGE_STATE.notExecuted) {
+                await execute(message, undefined, { gasLimit: 1500000 });
+                expect(await bridge.messageState(message.messageId)).to.equal(MESSAGE_STATE.succeeded);
+            }
+        }
+        expect(reverted).to.be.within(1, 20);
+    });
+
+    it('should give the target its full gas at the relayer gas limit', async () => {
+        const message = buildMessage(receiver.address, encodeCall(['function requireGas(uint256 amount)'], 'requireGas', [MAX_GAS - 10000]), MAX_GAS);
+        const signatures = await sign(message);
+
+        const receipt = await execute(message, signatures, { gasLimit: executionGasLimit(message, signatures.length) });
+        expect(executed(receipt).success).to.equal(true);
+    });
+
+    it('should not let a target re-enter to deliver another message', async () => {
+        const reentrant = await deploy('ReentrantMessageReceiver', bridge.address);
+        const inner = buildMessage(receiver.address, encodeCall(RECEIVER_ABI, 'setValue', [7]));
+        const payload = bridge.interface.encodeFunctionData('executeMessage', [inner, await sign(inner)]);
+        const outer = buildMessage(reentrant.address, encodeCall(['function reenter(bytes payload)'], 'reenter', [payload]));
+
+        await execute(outer);
+        expect(await reentrant.reentered()).to.equal(false);
+        expect(await bridge.messageState(outer.messageId)).to.equal(MESSAGE_STATE.succeeded);
+        expect(await bridge.messageState(inner.messageId)).to.equal(MESSAGE_STATE.notExecuted);
+
+        // The same message still goes through on its own
+        await execute(inner);
+        expect((await receiver.value()).toNumber()).to.equal(7);
+    });
+
+    describe('RemoteExecutor', () => {
+        let executor: Contract;
+
+        beforeEach(async () => {
+            executor = await deploy('RemoteExecutor', bridge.address, SOURCE_CHAIN_ID, sender);
+            await (await bridge.transferOwnership(executor.address)).wait();
+        });
+
+        it('should run calls from the controller', async () => {
+            const data = encodeRemoteCalls([{ target: bridge.address, data: encodeCall(BRIDGE_ADMIN_ABI, 'setMaxGasPerMessage', [2000000]) }]);
+            const receipt = await execute(buildMessage(executor.address, data, 500000));
+
+            expect(executed(receipt).success).to.equal(true);
+            expect((await bridge.maxGasPerMessage()).toNumber()).to.equal(2000000);
+        });
+
+        it('should only accept calls the bridge delivers from the controller', async () => {
+            const call = encodeCall(BRIDGE_ADMIN_ABI, 'setMaxGasPerMessage', [1]);
+            const data = encodeRemoteCalls([{ target: bridge.address, data: call }]);
+
+            await expectRevert(executor.connect(outsider).executeBatch([bridge.address], [0], [call]), 'Caller is not the bridge');
+
+            const wrongSender = { ...buildMessage(executor.address, data, 500000), sender: await outsider.getAddress() };
+            const wrongChain = { ...buildMessage(executor.address, data, 500000), sourceChainId: 56 };
+            for (const message of [wrongSender, wrongChain]) {
+                const result = executed(await execute(message));
+                expect(result.success).to.equal(false);
+                expect(decodeRevertReason(result.returnData)).to.equal('Message is not from the controller');
+            }
+            expect((await bridge.maxGasPerMessage()).toNumber()).to.equal(MAX_GAS);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { AutoCompounder, CompoundTarget } from '../frontend/src/integrations/AutoCompounder';
+import { CompoundEstimate } from '../frontend/src/integrations/FarmManager';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const FARM_A = '0x00000000000000000000000000000000000000fa';
+const FARM_B = '0x00000000000000000000000000000000000000fb';
+
+function createTarget(profitable: Record<string, boolean>) {
+    const compounded: string[] = [];
+    const target: CompoundTarget = {
+        estimateFarmCompound: async (farm: string) => {
+            if (!(farm in profitable)) throw new Error('Unknown farm');
+            return {
+                farm,
+                method: 'compound',
+                gasEstimate: BigNumber.from(150000),
+                profitable: profitable[farm]
+            } as CompoundEstimate;
+        },
+        compoundFarm: async (farm: string) => {
+            compounded.push(farm);
+            return { hash: `0x${farm.slice(-2)}`, wait: async () => ({ status: 1 }) } as any;
+        }
+    };
+    return { target, compounded };
+}
+
+describe('AutoCompounder', () => {
+    it('should compound only the farms worth the gas', async () => {
+        const { target, compounded } = createTarget({ [FARM_A]: true, [FARM_B]: false });
+        const compounder = new AutoCompounder(target, [FARM_A, FARM_B]);
+        const skipped: string[] = [];
+        compounder.on('skipped', farm => skipped.push(farm));
+
+        await compounder.runOnce();
+        expect(compounded).to.deep.equal([FARM_A]);
+        expect(skipped).to.deep.equal([FARM_B]);
+    });
+
+    it('should report a failing farm and carry on with the rest', async () => {
+        const { target, compounded } = createTarget({ [FARM_B]: true });
+        const compounder = new AutoCompounder(target, [FARM_A, FARM_B]);
+        const errors: string[] = [];
+        compounder.on('error', (farm, error) => errors.push(`${farm}: ${error.message}`));
+
+        await compounder.runOnce();
+        expect(errors).to.deep.equal([`${FARM_A}: Unknown farm`]);
+        expect(compounded).to.deep.equal([FARM_B]);
+    });
+
+    it('should start and stop its schedule', async () => {
+        const { target, compounded } = createTarget({ [FARM_A]: true });
+        const compounder = new AutoCompounder(target, [FARM_A], { interval: 60000 });
+
+        compounder.start();
+        expect(compounder.running).to.equal(true);
+        compounder.stop();
+        expect(compounder.running).to.equal(false);
+
+        // The first check runs straight away
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(compounded).to.deep.equal([FARM_A]);
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { BridgeRegistry, BridgeRoute } from '../frontend/src/integrations/BridgeRegistry';
+import { MemoryStorage } from '../frontend/src/utils/storage';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const USDC_138 = '0x0000000000000000000000000000000000000c38';
+
+const route = (id: string, from: number, to: number, estimatedTime: number, symbols: string[]): BridgeRoute => ({
+    id,
+    sourceChainId: from,
+    destinationChainId: to,
+    sourceBridge: '',
+    destinationBridge: '',
+    estimatedTime,
+    tokens: symbols.map(symbol => ({
+        symbol,
+        source: from === 138 && symbol === 'USDC' ? USDC_138 : '',
+        destination: ''
+    }))
+});
+
+describe('BridgeRegistry', () => {
+    const chains = [
+        { chainId: 138, name: 'Chain 138', rpcUrl: 'http://127.0.0.1:1' },
+        { chainId: 1, name: 'Ethereum', rpcUrl: '' },
+        { chainId: 137, name: 'Polygon', rpcUrl: 'http://127.0.0.1:2' }
+    ];
+    const routes = [
+        route('138-1', 138, 1, 1200, ['USDC', 'WETH']),
+        route('138-137', 138, 137, 300, ['USDC']),
+        route('137-1', 137, 1, 600, ['USDC']),
+        route('1-138', 1, 138, 1800, ['USDC'])
+    ];
+    const createRegistry = () => new BridgeRegistry(chains, routes, new MemoryStorage());
+
+    it('should pick routes by chain id', () => {
+        const registry = createRegistry();
+        expect(registry.getRoute(138, 137).id).to.equal('138-137');
+        expect(() => registry.getRoute(137, 138)).to.throw('No bridge route from chain 137 to chain 138');
+    });
+
+    it('should reject routes between unconfigured chains', () => {
+        expect(() => new BridgeRegistry(chains, [route('138-10', 138, 10, 60, [])]))
+            .to.throw('Route 138-10 uses a chain with no configuration');
+    });
+
+    it('should find direct and multi-hop paths for a token', () => {
+        const registry = createRegistry();
+
+        const usdc = registry.findPaths(USDC_138, 138, 1);
+        expect(usdc.map(path => path.map(leg => leg.route.id))).to.deep.equal([['138-1'], ['138-137', '137-1']]);
+        expect(registry.findPaths('WETH', 138, 1).length).to.equal(1);
+        expect(registry.findPaths('USDC', 138, 1, 1).length).to.equal(1);
+        expect(registry.findPaths('DAI', 138, 1)).to.deep.equal([]);
+    });
+
+    it('should report paths it cannot quote, quickest first', async () => {
+        const paths = await createRegistry().findRoutes('USDC', '100', 138, 1);
+
+        expect(paths.map(p => p.estimatedTime)).to.deep.equal([900, 1200]);
+        expect(paths.every(p => !p.quoted)).to.equal(true);
+        // Ethereum has no RPC URL configured here
+        expect(paths[1].legs[0].error).to.contain('needs RPC URLs');
+    });
+
+    it('should build one bridge service per route', () => {
+        const registry = createRegistry();
+        expect(registry.getBridge(138, 137)).to.equal(registry.getBridge(138, 137));
+        expect(() => registry.getBridge(138, 1)).to.throw('needs RPC URLs for both Chain 138 and Ethereum');
+    });
+
+    it('should keep services apart for routes on the same chain pair', () => {
+        const registry = new BridgeRegistry(chains, [...routes, route('138-137-fast', 138, 137, 60, ['USDC'])], new MemoryStorage());
+
+        const fast = registry.getRouteBridge('138-137-fast');
+        expect(fast).to.not.equal(registry.getRouteBridge('138-137'));
+        // but they send from the same accounts, so they share the chains' transaction managers
+        expect(fast.sourceTransactions).to.equal(registry.getRouteBridge('138-137').sourceTransactions);
+        expect(fast.destTransactions).to.equal(registry.getRouteBridge('138-137').destTransactions);
+        expect(registry.getBridge(138, 137)).to.equal(registry.getRouteBridge('138-137'));
+        expect(registry.findPaths('USDC', 138, 137).map(path => path[0].route.id)).to.deep.equal(['138-137', '138-137-fast']);
+        expect(() => registry.getRouteBridge('138-56')).to.throw('Unknown bridge route 138-56');
+    });
+});
@@ -0,0 +1,228 @@
+import { expect } from 'chai';
+import { BridgeTransferTracker, BridgeTransfer } from '../frontend/src/integrations/BridgeTransferTracker';
+import { MESSAGE_STATUS } from '../frontend/src/integrations/BridgeService';
+import { MemoryStorage } from '../frontend/src/utils/storage';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const SOURCE_TX = '0x' + '11'.repeat(32);
+const MESSAGE_ID = '0x' + 'aa'.repeat(32);
+
+// Lets the check that track() starts straight away finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Just the BridgeService surface the tracker uses, with chain state the test moves along
+function fakeBridge() {
+    const state = {
+        sourceReceipt: null as any,
+        claimReceipt: null as any,
+        messageStatus: MESSAGE_STATUS.pending,
+        claims: [] as string[],
+        statusFromBlocks: [] as (number | undefined)[],
+        receiptHashes: [] as string[],
+        sourceTx: undefined as any, // the source TransactionManager's record
+        replacedListeners: [] as Function[],
+        destinationBlock: 500,
+        destConnected: true
+    };
+    const bridge = {
+        sourceChainId: 138,
+        destinationChainId: 1,
+        requiredConfirmations: 1,
+        destConnection: { get signer() { return state.destConnected ? {} : null; } },
+        sourceTransactions: {
+            on: (event: string, listener: Function) => state.replacedListeners.push(listener),
+            getTransaction: (hash: string) => state.sourceTx?.hashes.includes(hash) ? state.sourceTx : undefined
+        },
+        getReceipt: async (hash: string, chain: string) => {
+            if (chain !== 'source') return state.claimReceipt;
+            state.receiptHashes.push(hash);
+            return state.sourceReceipt;
+        },
+        parseBridgeReceipt: async () => ({
+            messageId: MESSAGE_ID,
+            token: '0x00000000000000000000000000000000000000c6',
+            amount: { formatted: '25.0' },
+            recipient: '0x00000000000000000000000000000000000000b0'
+        }),
+        getBlockNumber: async () => state.destinationBlock,
+        bridgeTokens: async () => ({ hash: SOURCE_TX }),
+        checkMessageStatus: async (messageId: string, destinationBlock?: number) => {
+            state.statusFromBlocks.push(destinationBlock);
+            return { status: state.messageStatus };
+        },
+        claimTokens: async (messageId: string) => {
+            state.claims.push(messageId);
+            return { hash: '0x' + '22'.repeat(32) };
+        }
+    };
+    return { bridge: bridge as any, state };
+}
+
+describe('BridgeTransferTracker', () => {
+    it('should follow a transfer through to completion and claim it', async () => {
+        const { bridge, state } = fakeBridge();
+        const storage = new MemoryStorage();
+        const tracker = new BridgeTransferTracker(bridge, { storage, autoClaim: true });
+        const stages: string[] = [];
+        tracker.on('updated', (t: BridgeTransfer) => stages.push(t.stage));
+
+        tracker.track(SOURCE_TX);
+        tracker.stop();
+        await settle();
+        expect(tracker.getTransfer(SOURCE_TX)!.stage).to.equal('submitted');
+
+        state.sourceReceipt = { status: 1, confirmations: 1, logs: [] };
+        await tracker.poll();
+        const transfer = tracker.getTransfer(MESSAGE_ID)!;
+        expect(transfer.stage).to.equal('sent');
+        expect(transfer.amount).to.equal('25.0');
+
+        state.messageStatus = MESSAGE_STATUS.claimable;
+        await tracker.poll();
+        tracker.stop();
+        expect(state.claims).to.deep.equal([MESSAGE_ID]);
+        expect(transfer.stage).to.equal('claiming');
+
+        state.claimReceipt = { status: 1 };
+        await tracker.poll();
+        expect(transfer.stage).to.equal('completed');
+        expect(stages).to.deep.equal(['submitted', 'sent', 'claimable', 'claiming', 'completed']);
+    });
+
+    it('should resume unfinished transfers from storage', async () => {
+        const { bridge, state } = fakeBridge();
+        const storage = new MemoryStorage();
+        const original = new BridgeTransferTracker(bridge, { storage });
+        original.track(SOURCE_TX);
+        original.stop();
+        await settle();
+
+        const resumed = new BridgeTransferTracker(bridge, { storage });
+        expect(resumed.getTransfers().map(t => t.id)).to.deep.equal([SOURCE_TX]);
+
+        state.sourceReceipt = { status: 0, confirmations: 1, logs: [] };
+        let failed: BridgeTransfer | undefined;
+        resumed.on('failed', (t: BridgeTransfer) => { failed = t; });
+        await resumed.poll();
+        expect(failed!.error).to.equal('Source transaction reverted');
+    });
+
+    it('should wait for a manual claim without auto-claim', async () => {
+        const { bridge, state } = fakeBridge();
+        const tracker = new BridgeTransferTracker(bridge, { storage: new MemoryStorage() });
+        tracker.track(SOURCE_TX);
+        tracker.stop();
+        await settle();
+        state.sourceReceipt = { status: 1, confirmations: 1, logs: [] };
+        state.messageStatus = MESSAGE_STATUS.claimable;
+
+        await tracker.poll();
+        await tracker.poll();
+        expect(tracker.getTransfer(SOURCE_TX)!.stage).to.equal('claimable');
+        expect(state.claims).to.deep.equal([]);
+
+        await tracker.claim(MESSAGE_ID);
+        tracker.stop();
+        expect(state.claims).to.deep.equal([MESSAGE_ID]);
+    });
+
+    it('should send one claim when a manual claim races auto-claim, and cap auto-claim retries', async () => {
+        const { bridge, state } = fakeBridge();
+        const tracker = new BridgeTransferTracker(bridge, { storage: new MemoryStorage(), autoClaim: true, maxClaimAttempts: 2 });
+        tracker.track(SOURCE_TX);
+        tracker.stop();
+        await settle();
+        state.sourceReceipt = { status: 1, confirmations: 1, logs: [] };
+        state.messageStatus = MESSAGE_STATUS.claimable;
+        state.destConnected = false;
+        await tracker.poll();
+        await tracker.poll();
+        state.destConnected = true;
+
+        // The node is slow to accept the manual claim, and a poll comes in meanwhile
+        const sendClaim = bridge.claimTokens;
+        bridge.claimTokens = async (messageId: string) => {
+            await settle();
+            return sendClaim(messageId);
+        };
+        await Promise.all([tracker.claim(MESSAGE_ID), tracker.poll()]);
+        tracker.stop();
+        expect(state.claims).to.have.length(1);
+
+        // Every claim reverts: auto-claim gives up after the cap and leaves the transfer claimable
+        state.claimReceipt = { status: 0 };
+        for (let i = 0; i < 4; i++) await tracker.poll();
+        tracker.stop();
+        const transfer = tracker.getTransfer(MESSAGE_ID)!;
+        expect(state.claims).to.have.length(2);
+        expect(transfer.stage).to.equal('claimable');
+        expect(transfer.claimAttempts).to.equal(2);
+        expect(transfer.error).to.equal('Claim transaction reverted');
+    });
+
+    it('should wait for the confirmations the bridge requires', async () => {
+        const { bridge, state } = fakeBridge();
+        bridge.requiredConfirmations = 3;
+        const tracker = new BridgeTransferTracker(bridge, { storage: new MemoryStorage() });
+        tracker.track(SOURCE_TX);
+        tracker.stop();
+        await settle();
+
+        state.sourceReceipt = { status: 1, confirmations: 2, logs: [] };
+        await tracker.poll();
+        expect(tracker.getTransfer(SOURCE_TX)!.stage).to.equal('submitted');
+
+        state.sourceReceipt.confirmations = 3;
+        await tracker.poll();
+        tracker.stop();
+        expect(tracker.getTransfer(SOURCE_TX)!.stage).to.equal('sent');
+    });
+
+    it('should look for the message from the destination block before sending', async () => {
+        const { bridge, state } = fakeBridge();
+        const tracker = new BridgeTransferTracker(bridge, { storage: new MemoryStorage() });
+        const transfer = await tracker.bridgeTokens('0x00000000000000000000000000000000000000c6', '25', '0x00000000000000000000000000000000000000b0');
+        tracker.stop();
+        await settle();
+        state.destinationBlock = 600;
+
+        state.sourceReceipt = { status: 1, confirmations: 1, logs: [] };
+        await tracker.poll();
+        await tracker.poll();
+        expect(transfer.destinationBlock).to.equal(500);
+        expect(state.statusFromBlocks).to.deep.equal([500]);
+    });
+
+    it('should follow a sped-up source transaction and fail a cancelled one', async () => {
+        const { bridge, state } = fakeBridge();
+        const tracker = new BridgeTransferTracker(bridge, { storage: new MemoryStorage() });
+        const transfer = tracker.track(SOURCE_TX);
+        tracker.stop();
+        await settle();
+
+        const SPED_UP = '0x' + '33'.repeat(32);
+        state.sourceTx = { id: SOURCE_TX, hash: SPED_UP, hashes: [SOURCE_TX, SPED_UP], status: 'pending' };
+        state.replacedListeners.forEach(listener => listener(state.sourceTx, SOURCE_TX));
+        expect(transfer.sourceTxHash).to.equal(SPED_UP);
+        expect(tracker.getTransfer(SPED_UP)).to.equal(transfer);
+
+        state.receiptHashes.length = 0;
+        await tracker.poll();
+        expect(state.receiptHashes).to.deep.equal([SPED_UP]);
+
+        // A cancellation keeps the hash, and fails the transfer once the cancel is mined
+        const CANCEL = '0x' + '44'.repeat(32);
+        Object.assign(state.sourceTx, { hash: CANCEL, hashes: [SOURCE_TX, SPED_UP, CANCEL], cancelHash: CANCEL });
+        state.replacedListeners.forEach(listener => listener(state.sourceTx, SPED_UP));
+        expect(transfer.sourceTxHash).to.equal(SPED_UP);
+
+        state.sourceTx.status = 'cancelled';
+        await tracker.poll();
+        expect(transfer.stage).to.equal('failed');
+        expect(transfer.error).to.equal('Source transaction was cancelled');
+    });
+});
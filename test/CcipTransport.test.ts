@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import {
+    CcipTransport,
+    CCIP_ROUTER_ABI,
+    CCIP_LANE_ABI,
+    EXECUTION_STATE,
+    encodeExtraArgs
+} from '../frontend/src/integrations/CcipTransport';
+import { fakeContractProvider, fakeProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const ROUTER = '0x00000000000000000000000000000000000000cc';
+const OFF_RAMP = '0x00000000000000000000000000000000000000f0';
+const TOKEN = utils.getAddress('0x00000000000000000000000000000000000000c6');
+const SENDER = utils.getAddress('0x00000000000000000000000000000000000a11ce');
+const RECEIVER = utils.getAddress('0x00000000000000000000000000000000000000b0');
+const MESSAGE_ID = '0x' + 'aa'.repeat(32);
+const ETHEREUM_SELECTOR = '5009297550715157269';
+
+const routerAbi = new utils.Interface(CCIP_ROUTER_ABI);
+const laneAbi = new utils.Interface(CCIP_LANE_ABI);
+
+// Router quoting 0.01 plus 0.001 per token, recording the messages it was asked about
+function routerProvider() {
+    const quoted: any[] = [];
+    return fakeContractProvider(routerAbi, ({ args: [selector, message] }) => {
+        quoted.push({ selector: selector.toString(), message });
+        return [utils.parseEther('0.01').add(utils.parseEther('0.001').mul(message.tokenAmounts.length))];
+    }, { quoted });
+}
+
+function stateChanged(state: number, blockNumber: number) {
+    const event = laneAbi.getEvent('ExecutionStateChanged');
+    const { data, topics } = laneAbi.encodeEventLog(event, [7, MESSAGE_ID, state, '0x']);
+    return { address: OFF_RAMP, data, topics, blockNumber, transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0') };
+}
+
+const createTransport = (source: any, destination: any = source) => new CcipTransport(
+    source,
+    destination,
+    { router: ROUTER, chainSelector: '1', confirmations: 3 },
+    { router: '', chainSelector: ETHEREUM_SELECTOR, gasLimit: 300000, offRamp: OFF_RAMP }
+);
+
+describe('CcipTransport', () => {
+    it('should quote fees with the destination selector and gas limit', async () => {
+        const provider = routerProvider();
+        const transport = createTransport(provider);
+
+        const fee = await transport.getFee({
+            receiver: RECEIVER,
+            tokenAmounts: [{ token: TOKEN, amount: BigNumber.from(5) }]
+        });
+
+        expect(utils.formatEther(fee)).to.equal('0.011');
+        const [{ selector, message }] = provider.quoted;
+        expect(selector).to.equal(ETHEREUM_SELECTOR);
+        expect(utils.defaultAbiCoder.decode(['address'], message.receiver)[0]).to.equal(RECEIVER);
+        expect(message.extraArgs).to.equal(encodeExtraArgs(300000));
+        expect(transport.confirmations).to.equal(3);
+    });
+
+    it('should read sent messages from the OnRamp event', () => {
+        const event = laneAbi.getEvent('CCIPSendRequested');
+        const { data, topics } = laneAbi.encodeEventLog(event, [[
+            1, SENDER, RECEIVER, 7, 0, false, 1, utils.getAddress('0x' + '00'.repeat(20)),
+            utils.parseEther('0.011'), '0x1234', [[TOKEN, 5]], ['0x'], MESSAGE_ID
+        ]]);
+        const receipt = {
+            logs: [
+                { address: TOKEN, data: '0x', topics: [utils.id('Transfer(address,address,uint256)')] },
+                { address: '0x00000000000000000000000000000000000000a0', data, topics }
+            ]
+        } as any;
+
+        const [message] = createTransport(routerProvider()).parseSendReceipt(receipt);
+        expect(message.messageId).to.equal(MESSAGE_ID);
+        expect(message.sequenceNumber).to.equal(7);
+        expect(message.receiver).to.equal(RECEIVER);
+        expect(message.data).to.equal('0x1234');
+        expect(message.tokenAmounts[0].token).to.equal(TOKEN);
+        expect(utils.formatEther(message.fee)).to.equal('0.011');
+    });
+
+    it('should report the latest execution state on the destination', async () => {
+        let logs: any[] = [];
+        const filters: any[] = [];
+        const destination = fakeProvider({
+            getBlockNumber: async () => 20,
+            getLogs: async (filter: any) => {
+                filters.push(filter);
+                return logs.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+            }
+        });
+        const transport = createTransport(routerProvider(), destination);
+
+        expect(await transport.getExecution(MESSAGE_ID, 5)).to.equal(null);
+        expect(filters[0].address).to.equal(OFF_RAMP);
+        expect(filters[0].topics[2]).to.equal(MESSAGE_ID);
+        expect(filters.map(f => [f.fromBlock, f.toBlock])).to.deep.equal([[5, 20]]);
+
+        // Failed once, then executed manually
+        logs = [stateChanged(EXECUTION_STATE.failure, 10), stateChanged(EXECUTION_STATE.success, 12)];
+        const execution = await transport.getExecution(MESSAGE_ID, 5);
+        expect(execution!.state).to.equal(EXECUTION_STATE.success);
+        expect(execution!.blockNumber).to.equal(12);
+    });
+
+    it('should search back from the head in bounded ranges', async () => {
+        const filters: any[] = [];
+        const destination = fakeProvider({
+            getBlockNumber: async () => 25,
+            getLogs: async (filter: any) => {
+                filters.push([filter.fromBlock, filter.toBlock]);
+                return filter.fromBlock <= 7 && filter.toBlock >= 7 ? [stateChanged(EXECUTION_STATE.success, 7)] : [];
+            }
+        });
+        const transport = new CcipTransport(
+            routerProvider(),
+            destination,
+            { router: ROUTER, chainSelector: '1' },
+            { router: '', chainSelector: ETHEREUM_SELECTOR, logBlockRange: 10 }
+        );
+
+        expect((await transport.getExecution(MESSAGE_ID, 3))!.blockNumber).to.equal(7);
+        expect(filters).to.deep.equal([[16, 25], [6, 15]]);
+
+        filters.length = 0;
+        expect(await transport.getExecution(MESSAGE_ID, 8)).to.equal(null);
+        expect(filters).to.deep.equal([[16, 25], [8, 15]]);
+    });
+
+    it('should need a source router and destination selector', () => {
+        expect(() => new CcipTransport(
+            routerProvider(),
+            routerProvider(),
+            { router: '', chainSelector: '1' },
+            { router: '', chainSelector: ETHEREUM_SELECTOR }
+        )).to.throw('CCIP needs a router on the source chain');
+    });
+});
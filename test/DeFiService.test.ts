@@ -1,7 +1,8 @@
 import { expect } from 'chai';
 import { providers, Contract, utils, Wallet } from 'ethers';
 import { setupTestEnvironment, mockData, testConstants } from './setup';
-import { DeFiService } from '../frontend/src/integrations/DeFiService';
+import { DeFiService, SlippageExceededError, CollateralRatioError } from '../frontend/src/integrations/DeFiService';
+import { InsufficientAllowanceError } from '../frontend/src/integrations/AllowanceManager';
 
 // Add type declarations for test environment
 declare global {
@@ -16,7 +17,9 @@ describe('DeFiService', () => {
 
     beforeEach(async () => {
         env = await setupTestEnvironment();
-        defiService = new DeFiService(env.provider.connection.url);
+        defiService = new DeFiService(env.provider.connection.url, {
+            priceOracle: env.contracts.priceOracle.address
+        });
         await defiService.connect(env.wallets[0].privateKey);
     });
 
@@ -52,6 +55,73 @@ describe('DeFiService', () => {
             const position = await env.contracts.perpetualMarket.getPosition(env.wallets[0].address);
             expect(position.size).to.equal(0);
         });
+
+        it('should reject leverage above the configured maximum', async () => {
+            let error: Error | undefined;
+            try {
+                await defiService.openPerpetualPosition(
+                    env.contracts.perpetualMarket.address,
+                    true,
+                    '1.0',
+                    defiService.getMaxLeverage() + 1
+                );
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error!.message).to.contain('outside the allowed range');
+        });
+
+        it('should report position risk and close part of it', async () => {
+            await (await defiService.openPerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                true,
+                '2.0',
+                5
+            )).wait();
+
+            const position = await defiService.getPerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                env.wallets[0].address
+            );
+            expect(position.size).to.equal(2);
+            expect(position.liquidationPrice).to.be.above(0);
+            expect(position.liquidationPrice).to.be.below(position.entryPrice);
+
+            await (await defiService.closePerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                '0.5'
+            )).wait();
+
+            const remaining = await defiService.getPerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                env.wallets[0].address
+            );
+            expect(remaining.size).to.equal(1.5);
+        });
+
+        it('should refuse to remove margin past the leverage limit', async () => {
+            await (await defiService.openPerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                true,
+                '1.0',
+                defiService.getMaxLeverage()
+            )).wait();
+            const position = await defiService.getPerpetualPosition(
+                env.contracts.perpetualMarket.address,
+                env.wallets[0].address
+            );
+
+            let error: Error | undefined;
+            try {
+                await defiService.removePerpetualMargin(
+                    env.contracts.perpetualMarket.address,
+                    position.margin.formatted
+                );
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error).to.be.instanceOf(Error);
+        });
     });
 
     describe('Margin Trading', () => {
@@ -61,7 +131,8 @@ describe('DeFiService', () => {
                 env.contracts.token0.address,
                 '100',
                 env.contracts.token1.address,
-                '50'
+                '50',
+                { autoApprove: true }
             );
 
             const receipt = await tx.wait();
@@ -79,10 +150,226 @@ describe('DeFiService', () => {
                     env.contracts.token0.address,
                     '1000',
                     env.contracts.token1.address,
-                    '1'
+                    '1',
+                    { autoApprove: true }
                 )
             ).to.be.rejectedWith('Insufficient collateral');
         });
+
+        it('should report margin health and close the position', async () => {
+            await (await defiService.openMarginPosition(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                '100',
+                env.contracts.token1.address,
+                '50',
+                { autoApprove: true }
+            )).wait();
+
+            const position = await defiService.getMarginPosition(
+                env.contracts.marginPool.address,
+                env.wallets[0].address
+            );
+            expect(position.borrow.amount.formatted).to.equal('100.0');
+            expect(position.healthFactor).to.be.a('number');
+
+            await (await defiService.closeMarginPosition(env.contracts.marginPool.address)).wait();
+            const closed = await defiService.getMarginPosition(
+                env.contracts.marginPool.address,
+                env.wallets[0].address
+            );
+            expect(closed.borrow.amount.raw.isZero()).to.equal(true);
+        });
+    });
+
+    describe('Lending', () => {
+        beforeEach(async () => {
+            await (await defiService.supplyCollateral(
+                env.contracts.marginPool.address,
+                env.contracts.token1.address,
+                '100',
+                { autoApprove: true }
+            )).wait();
+        });
+
+        it('should borrow against supplied collateral and report health', async () => {
+            await (await defiService.borrow(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                '10'
+            )).wait();
+
+            const position = await defiService.getLendingPosition(
+                env.contracts.marginPool.address,
+                env.wallets[0].address
+            );
+            expect(position.debt.length).to.equal(1);
+            expect(position.healthFactor).to.be.above(1);
+            expect(position.availableToBorrow).to.be.below(position.borrowCapacity);
+        });
+
+        it('should refuse borrows beyond the collateral capacity', async () => {
+            let error: Error | undefined;
+            try {
+                await defiService.borrow(env.contracts.marginPool.address, env.contracts.token0.address, '100000');
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error!.message).to.contain('borrowing capacity');
+        });
+
+        it('should repay the full debt and withdraw collateral', async () => {
+            await (await defiService.borrow(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                '10'
+            )).wait();
+            await (await defiService.repay(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                undefined,
+                { autoApprove: true }
+            )).wait();
+            await (await defiService.withdrawCollateral(
+                env.contracts.marginPool.address,
+                env.contracts.token1.address,
+                '100'
+            )).wait();
+
+            const position = await defiService.getLendingPosition(
+                env.contracts.marginPool.address,
+                env.wallets[0].address
+            );
+            expect(position.debt.length).to.equal(0);
+            expect(position.collateral.length).to.equal(0);
+        });
+
+        it('should project interest from market utilization', async () => {
+            const projection = await defiService.projectInterest(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                '1000',
+                30
+            );
+            expect(projection.borrowRate).to.be.at.least(0.02);
+            expect(projection.borrowInterest).to.be.above(projection.supplyInterest);
+        });
+    });
+
+    describe('Token Approvals', () => {
+        it('should list pending approvals instead of sending', async () => {
+            let error: InsufficientAllowanceError | undefined;
+            try {
+                await defiService.supplyCollateral(
+                    env.contracts.marginPool.address,
+                    env.contracts.token0.address,
+                    '10'
+                );
+            } catch (e) {
+                error = e as InsufficientAllowanceError;
+            }
+
+            expect(error).to.be.instanceOf(InsufficientAllowanceError);
+            expect(error!.pendingApprovals.length).to.equal(1);
+            expect(error!.pendingApprovals[0].spender).to.equal(env.contracts.marginPool.address);
+            expect(error!.pendingApprovals[0].amount).to.equal(utils.parseEther('10'));
+        });
+
+        it('should approve the exact amount when auto-approving', async () => {
+            await defiService.supplyCollateral(
+                env.contracts.marginPool.address,
+                env.contracts.token0.address,
+                '10',
+                { autoApprove: true }
+            );
+
+            const allowance = await defiService.allowanceManager.getAllowance(
+                env.contracts.token0.address,
+                env.wallets[0].address,
+                env.contracts.marginPool.address
+            );
+            expect(allowance).to.equal(0);
+        });
+
+        it('should revoke stale approvals', async () => {
+            await defiService.allowanceManager.approve(
+                env.contracts.token0.address,
+                env.contracts.pool.address,
+                utils.parseEther('5')
+            );
+
+            const stale = await defiService.allowanceManager.findStaleApprovals([
+                { token: env.contracts.token0.address, spender: env.contracts.pool.address }
+            ]);
+            expect(stale.length).to.equal(1);
+
+            await (await defiService.allowanceManager.revoke(
+                env.contracts.token0.address,
+                env.contracts.pool.address
+            )).wait();
+
+            const remaining = await defiService.allowanceManager.findStaleApprovals([
+                { token: env.contracts.token0.address, spender: env.contracts.pool.address }
+            ]);
+            expect(remaining.length).to.equal(0);
+        });
+    });
+
+    describe('Liquidity Pools', () => {
+        it('should add liquidity within slippage tolerance', async () => {
+            const tx = await defiService.addLiquidity(
+                env.contracts.pool.address,
+                '100',
+                '100',
+                0.5,
+                { autoApprove: true }
+            );
+            const receipt = await tx.wait();
+            expect(receipt.status).to.equal(1);
+        });
+
+        it('should reject adds when the pool price has moved', async () => {
+            await defiService.addLiquidity(env.contracts.pool.address, '100', '100', 0.5, { autoApprove: true });
+
+            let error: SlippageExceededError | undefined;
+            try {
+                await defiService.addLiquidity(env.contracts.pool.address, '100', '120', 0.5, { autoApprove: true });
+            } catch (e) {
+                error = e as SlippageExceededError;
+            }
+
+            expect(error).to.be.instanceOf(SlippageExceededError);
+            expect(error!.priceMove).to.be.above(0.5);
+        });
+
+        it('should read back and remove an LP position', async () => {
+            await (await defiService.addLiquidity(
+                env.contracts.pool.address,
+                '100',
+                '100',
+                0.5,
+                { autoApprove: true }
+            )).wait();
+
+            const position = await defiService.getLiquidityPosition(
+                env.contracts.pool.address,
+                env.wallets[0].address
+            );
+            expect(position.liquidity.raw.gt(0)).to.equal(true);
+            expect(position.share).to.be.above(0);
+            expect(Number(position.token0.formatted)).to.be.closeTo(100, 1);
+
+            await (await defiService.removeLiquidity(
+                env.contracts.pool.address,
+                position.liquidity.formatted
+            )).wait();
+
+            const after = await defiService.getLiquidityPosition(
+                env.contracts.pool.address,
+                env.wallets[0].address
+            );
+            expect(after.liquidity.raw.isZero()).to.equal(true);
+        });
     });
 
     describe('Automated Strategies', () => {
@@ -113,6 +400,28 @@ describe('DeFiService', () => {
             expect(strategyAddress).to.not.equal('0x0000000000000000000000000000000000000000');
         });
 
+        it('should read back a deployed strategy\'s parameters', async () => {
+            await (await defiService.deployTradingStrategy(
+                env.contracts.strategyFactory.address,
+                'TREND_FOLLOWING',
+                {
+                    token0: env.contracts.token0.address,
+                    token1: env.contracts.token1.address,
+                    shortPeriod: 7,
+                    longPeriod: 25,
+                    minTrendStrength: 0.02
+                }
+            )).wait();
+
+            const strategyAddress = await env.contracts.strategyFactory.getStrategy(
+                env.wallets[0].address,
+                0
+            );
+            const deployed = await defiService.getStrategyParameters(strategyAddress);
+            expect(deployed.strategyType).to.equal('TREND_FOLLOWING');
+            expect(deployed.params).to.deep.include({ shortPeriod: 7, longPeriod: 25, minTrendStrength: 0.02 });
+        });
+
         it('should execute strategy trades', async () => {
             const strategyTx = await defiService.deployTradingStrategy(
                 env.contracts.strategyFactory.address,
@@ -140,6 +449,128 @@ describe('DeFiService', () => {
         });
     });
 
+    describe('Options', () => {
+        it('should quote fair value and greeks before writing', async () => {
+            const expiry = (await env.provider.getBlock('latest')).timestamp + 30 * 86400;
+            const quote = await defiService.quoteOption(
+                env.contracts.token0.address,
+                '1.0',
+                expiry,
+                true,
+                0.5
+            );
+
+            expect(quote.price).to.be.above(0);
+            expect(quote.delta).to.be.within(0, 1);
+            expect(quote.theta).to.be.below(0);
+            expect(quote.timeValue).to.be.above(0);
+        });
+    });
+
+    describe('Synthetic Assets', () => {
+        it('should reject unknown currency keys', async () => {
+            let error: Error | undefined;
+            try {
+                await defiService.mintSynthetic(env.contracts.synthetix.address, 'sDOGE', '1');
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error!.message).to.contain('Unknown synth sDOGE');
+        });
+
+        it('should mint within the target ratio and report the debt snapshot', async () => {
+            const before = await defiService.getSynthDebtSnapshot(
+                env.contracts.synthetix.address,
+                env.wallets[0].address
+            );
+            const amount = (before.issuable / 2).toFixed(6);
+
+            await (await defiService.mintSynthetic(env.contracts.synthetix.address, 'sUSD', amount)).wait();
+
+            const after = await defiService.getSynthDebtSnapshot(
+                env.contracts.synthetix.address,
+                env.wallets[0].address
+            );
+            expect(after.debt).to.be.closeTo(before.debt + Number(amount), 1e-6);
+            expect(after.collateralRatio).to.be.at.least(after.targetRatio);
+            expect(after.debtShare).to.be.within(0, 1);
+        });
+
+        it('should warn before mints that breach the target ratio', async () => {
+            const snapshot = await defiService.getSynthDebtSnapshot(
+                env.contracts.synthetix.address,
+                env.wallets[0].address
+            );
+            const amount = (snapshot.issuable * 2 + 1).toFixed(6);
+
+            const preview = await defiService.previewMintSynthetic(
+                env.contracts.synthetix.address,
+                env.wallets[0].address,
+                'sUSD',
+                amount
+            );
+            expect(preview.projectedRatio).to.be.below(snapshot.targetRatio);
+            expect(preview.warning).to.contain('below the');
+
+            let error: CollateralRatioError | undefined;
+            try {
+                await defiService.mintSynthetic(env.contracts.synthetix.address, 'sUSD', amount, { enforceTarget: true });
+            } catch (e) {
+                error = e as CollateralRatioError;
+            }
+            expect(error).to.be.instanceOf(CollateralRatioError);
+            expect(error!.projectedRatio).to.be.below(snapshot.targetRatio);
+        });
+
+        it('should burn synths back down', async () => {
+            await (await defiService.mintSynthetic(env.contracts.synthetix.address, 'sUSD', '1')).wait();
+            await (await defiService.burnSynthetic(env.contracts.synthetix.address, 'sUSD', '1')).wait();
+
+            const snapshot = await defiService.getSynthDebtSnapshot(
+                env.contracts.synthetix.address,
+                env.wallets[0].address
+            );
+            expect(snapshot.debt).to.be.closeTo(0, 1e-9);
+        });
+    });
+
+    describe('Portfolio Rebalancing', () => {
+        it('should reject allocations that do not sum to 100%', async () => {
+            try {
+                await defiService.rebalancePortfolio(env.contracts.portfolio.address, [
+                    { token: env.contracts.token0.address, percentage: 60 },
+                    { token: env.contracts.token1.address, percentage: 30 }
+                ]);
+                expect.fail('Expected the allocation to be rejected');
+            } catch (error: any) {
+                expect(error.message).to.contain('expected 100%');
+            }
+        });
+
+        it('should plan trades towards the target allocation', async () => {
+            const allocations = [
+                { token: env.contracts.token0.address, percentage: 50 },
+                { token: env.contracts.token1.address, percentage: 50 }
+            ];
+            const plan = await defiService.planRebalance(env.contracts.portfolio.address, allocations, {
+                driftThreshold: 1
+            });
+
+            const targeted = plan.holdings.reduce((sum, h) => sum + h.targetPercentage, 0);
+            expect(targeted).to.be.closeTo(100, 1e-9);
+            expect(plan.needsRebalance).to.equal(plan.trades.length > 0);
+            for (const trade of plan.trades) {
+                expect(trade.value).to.be.above(0);
+            }
+
+            if (plan.needsRebalance) {
+                const tx = await defiService.executeRebalancePlan(plan);
+                const receipt = await tx.wait();
+                expect(receipt.status).to.equal(1);
+            }
+        });
+    });
+
     describe('Portfolio Analytics', () => {
         it('should calculate advanced metrics correctly', async () => {
             await setupTestPortfolio(env, defiService);
@@ -148,10 +579,10 @@ describe('DeFiService', () => {
                 env.wallets[0].address
             );
 
-            expect(metrics.totalValue).to.not.equal('0');
-            expect(metrics.sharpeRatio).to.not.equal('0');
-            expect(metrics.volatility).to.not.equal('0');
-            expect(metrics.drawdown).to.not.equal('0');
+            expect(metrics.totalValue).to.be.above(0);
+            expect(metrics.sharpeRatio).to.not.equal(0);
+            expect(metrics.volatility).to.be.above(0);
+            expect(metrics.drawdown).to.not.equal(0);
             expect(metrics.positions.length).to.be.above(0);
         });
 
@@ -167,7 +598,19 @@ describe('DeFiService', () => {
                 env.wallets[0].address
             );
 
-            expect(metrics.pnl).to.not.equal('0');
+            expect(metrics.pnl).to.not.equal(0);
+        });
+
+        it('should honour a custom lookback window', async () => {
+            await setupTestPortfolio(env, defiService);
+
+            const metrics = await defiService.getAdvancedPortfolioMetrics(
+                env.wallets[0].address,
+                7
+            );
+
+            expect(metrics.positions.length).to.be.above(0);
+            expect(typeof metrics.apy).to.equal('number');
         });
     });
 });
@@ -177,7 +620,9 @@ async function setupTestPortfolio(env: any, defiService: DeFiService) {
     await defiService.addLiquidity(
         env.contracts.pool.address,
         '100',
-        '100'
+        '100',
+        0.5,
+        { autoApprove: true }
     );
 
     // Open positions
@@ -193,7 +638,8 @@ async function setupTestPortfolio(env: any, defiService: DeFiService) {
         env.contracts.token0.address,
         '50',
         env.contracts.token1.address,
-        '25'
+        '25',
+        { autoApprove: true }
     );
 }
 
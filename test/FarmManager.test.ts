@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { FarmManager, FarmPosition, SWAP_AND_STAKE_GAS } from '../frontend/src/integrations/FarmManager';
+import { fakeProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const FARM = '0x00000000000000000000000000000000000000fa';
+const STAKING_TOKEN = '0x00000000000000000000000000000000000000c6';
+const REWARD_TOKEN = '0x00000000000000000000000000000000000000c7';
+
+// 100k gas for the farm call at 10 gwei, with ETH priced at 2000
+function createManager() {
+    const feeStrategy = {
+        estimateGasLimit: async () => BigNumber.from(100000),
+        getFeeData: async () => ({ type: 2, maxFeePerGas: utils.parseUnits('10', 'gwei') })
+    };
+    const tokens = {
+        toTokenAmount: async (token: string, raw: BigNumber) => ({ token, raw, formatted: utils.formatEther(raw) })
+    };
+    const analytics = { getCurrentPrice: async () => 2000 };
+    return new FarmManager(fakeProvider(), tokens as any, analytics as any, feeStrategy as any);
+}
+
+const position = (rewardToken: string, pendingValue: number) => ({
+    farm: FARM,
+    account: FARM,
+    stakingToken: STAKING_TOKEN,
+    rewardToken,
+    pendingValue
+} as FarmPosition);
+
+describe('FarmManager', () => {
+    it('should estimate a single compound call when rewards are the staking token', async () => {
+        const estimate = await createManager().estimateCompound(position(STAKING_TOKEN, 10));
+
+        expect(estimate.method).to.equal('compound');
+        expect(estimate.gasEstimate.toNumber()).to.equal(100000);
+        expect(estimate.gasCostValue).to.be.closeTo(2, 1e-9);
+        expect(estimate.profitable).to.equal(true);
+    });
+
+    it('should include the swap, approvals and stake after a harvest', async () => {
+        const estimate = await createManager().estimateCompound(position(REWARD_TOKEN, 10));
+
+        expect(estimate.method).to.equal('harvest');
+        expect(estimate.gasEstimate.toNumber()).to.equal(100000 + SWAP_AND_STAKE_GAS);
+        expect(estimate.gasCostValue).to.be.closeTo(10, 1e-9);
+        // Rewards that only covered the harvest no longer look worth compounding
+        expect(estimate.profitable).to.equal(false);
+
+        const custom = await createManager().estimateCompound(position(REWARD_TOKEN, 10), { swapAndStakeGas: 50000 });
+        expect(custom.gasEstimate.toNumber()).to.equal(150000);
+    });
+});
@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { FeeStrategy } from '../frontend/src/integrations/FeeStrategy';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const gwei = (value: string) => utils.parseUnits(value, 'gwei');
+
+function feeHistoryProvider(baseFee: BigNumber, rewards: BigNumber[][]) {
+    return {
+        send: async (method: string) => {
+            expect(method).to.equal('eth_feeHistory');
+            return {
+                baseFeePerGas: [baseFee.toHexString(), baseFee.toHexString()],
+                reward: rewards.map(row => row.map(r => r.toHexString()))
+            };
+        },
+        getGasPrice: async () => gwei('30')
+    } as any;
+}
+
+describe('FeeStrategy', () => {
+    const rewards = [
+        [gwei('1'), gwei('2'), gwei('5')],
+        [gwei('1'), gwei('3'), gwei('6')],
+        [gwei('1'), gwei('2'), gwei('7')]
+    ];
+
+    it('should build type-2 fees from fee history per speed tier', async () => {
+        const strategy = new FeeStrategy(feeHistoryProvider(gwei('10'), rewards));
+
+        const standard = await strategy.getFeeData('standard');
+        expect(standard.type).to.equal(2);
+        expect(standard.maxPriorityFeePerGas!.eq(gwei('2'))).to.equal(true);
+        expect(standard.maxFeePerGas!.eq(gwei('17'))).to.equal(true);
+
+        const fast = await strategy.getFeeData('fast');
+        expect(fast.maxPriorityFeePerGas!.eq(gwei('6'))).to.equal(true);
+        expect(fast.maxFeePerGas!.eq(gwei('26'))).to.equal(true);
+    });
+
+    it('should cap fees at the configured maximum gas price', async () => {
+        const strategy = new FeeStrategy(feeHistoryProvider(gwei('40'), rewards), {
+            maxGasPrice: gwei('50')
+        });
+
+        const fees = await strategy.getFeeData('fast');
+        expect(fees.maxFeePerGas!.eq(gwei('50'))).to.equal(true);
+    });
+
+    it('should refuse a cap below the base fee', async () => {
+        const strategy = new FeeStrategy(feeHistoryProvider(gwei('100'), rewards), {
+            maxGasPrice: gwei('50')
+        });
+
+        let error: Error | undefined;
+        try {
+            await strategy.getFeeData('fast');
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error!.message).to.contain('Current base fee');
+    });
+
+    it('should fall back to a legacy gas price without base fees', async () => {
+        const provider = {
+            send: async () => ({ baseFeePerGas: [], reward: [] }),
+            getGasPrice: async () => gwei('40')
+        } as any;
+        const strategy = new FeeStrategy(provider, { maxGasPrice: gwei('50') });
+
+        const fees = await strategy.getFeeData();
+        expect(fees.type).to.equal(0);
+        expect(fees.gasPrice!.eq(gwei('40'))).to.equal(true);
+
+        // A per-call fee cap becomes the gas price
+        const overrides = await strategy.buildOverrides({} as any, 'stake', [], {
+            gasLimit: 21000,
+            maxFeePerGas: gwei('45'),
+            maxPriorityFeePerGas: gwei('2')
+        });
+        expect(overrides.type).to.equal(0);
+        expect(overrides.gasPrice!.eq(gwei('45'))).to.equal(true);
+        expect(overrides.maxFeePerGas).to.equal(undefined);
+    });
+
+    it('should fall back to a capped legacy gas price when fee history is unavailable', async () => {
+        const provider = {
+            send: async () => { throw new Error('the method eth_feeHistory does not exist/is not available'); },
+            getGasPrice: async () => gwei('80')
+        } as any;
+
+        const fees = await new FeeStrategy(provider, { maxGasPrice: gwei('100') }).getFeeData();
+        expect(fees.type).to.equal(0);
+        expect(fees.gasPrice!.eq(gwei('80'))).to.equal(true);
+
+        let error: Error | undefined;
+        try {
+            await new FeeStrategy(provider, { maxGasPrice: gwei('50') }).getFeeData();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error!.message).to.contain('Current gas price');
+    });
+
+    it('should add the safety margin to gas estimates', async () => {
+        const strategy = new FeeStrategy(feeHistoryProvider(gwei('10'), rewards));
+        const contract = {
+            estimateGas: { stake: async () => BigNumber.from(100000) }
+        } as any;
+
+        const overrides = await strategy.buildOverrides(contract, 'stake', [], { gasMargin: 30 });
+        expect(overrides.gasLimit.eq(130000)).to.equal(true);
+    });
+
+    it('should reject per-call fees above the cap', async () => {
+        const strategy = new FeeStrategy(feeHistoryProvider(gwei('10'), rewards), {
+            maxGasPrice: gwei('50')
+        });
+
+        let error: Error | undefined;
+        try {
+            await strategy.buildOverrides({} as any, 'stake', [], {
+                gasLimit: 21000,
+                maxFeePerGas: gwei('60')
+            });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error!.message).to.contain('exceeds configured maximum');
+    });
+});
@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import {
+    FlashLoanBuilder,
+    FlashLoanUnprofitableError,
+    assertProfitable,
+    decodeReceiverCalls,
+    simulatedProfit
+} from '../frontend/src/integrations/FlashLoanBuilder';
+import { TokenRegistry } from '../frontend/src/integrations/TokenRegistry';
+import { getAmountOut } from '../frontend/src/utils/ammMath';
+import { fakeContractProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const USDC = utils.getAddress('0x00000000000000000000000000000000000000a1');
+const WETH = utils.getAddress('0x00000000000000000000000000000000000000b2');
+const LENDER = '0x00000000000000000000000000000000000000c3';
+const RECEIVER = utils.getAddress('0x00000000000000000000000000000000000000d4');
+const ROUTER = '0x00000000000000000000000000000000000000e5';
+const SELL_ROUTER = utils.getAddress('0x00000000000000000000000000000000000000e6');
+const ACCOUNT = '0x00000000000000000000000000000000000000f6';
+const BUY_PAIR = '0x0000000000000000000000000000000000000071';
+const SELL_PAIR = '0x0000000000000000000000000000000000000072';
+
+const iface = new utils.Interface([
+    'function flashFee(address token, uint256 amount) view returns (uint256)',
+    'function maxFlashLoan(address token) view returns (uint256)',
+    'function factory() view returns (address)',
+    'function getPair(address tokenA, address tokenB) view returns (address pair)',
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'function token0() view returns (address)'
+]);
+
+// 1000 WETH against USDC at 2000 on ROUTER's pair and at `sellPrice` on SELL_ROUTER's
+const BUY_RESERVES = [utils.parseUnits('2000000', 6), utils.parseEther('1000')];
+const sellReserves = (sellPrice: number) => [utils.parseUnits(String(1000 * sellPrice), 6), utils.parseEther('1000')];
+
+// Fee of 0.09%, lending up to `maxLoan` USDC
+function marketProvider(sellPrice: number, maxLoan = '1000000') {
+    return fakeContractProvider(iface, ({ to, fragment, args }) => {
+        const sell = utils.getAddress(to) === SELL_ROUTER || to === SELL_PAIR;
+        switch (fragment.name) {
+            case 'flashFee': return [args.amount.mul(9).div(10000)];
+            case 'maxFlashLoan': return [utils.parseUnits(maxLoan, 6)];
+            case 'factory': return [to];
+            case 'getPair': return [sell ? SELL_PAIR : BUY_PAIR];
+            case 'getReserves': return [...(sell ? sellReserves(sellPrice) : BUY_RESERVES), 0];
+            default: return [USDC];
+        }
+    });
+}
+
+function builderFor(sellPrice: number, maxLoan?: string) {
+    const provider = marketProvider(sellPrice, maxLoan);
+    const tokens = new TokenRegistry(provider);
+    tokens.register({ address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6 });
+    tokens.register({ address: WETH, symbol: 'WETH', name: 'Wrapped Ether', decimals: 18 });
+
+    return new FlashLoanBuilder(provider, tokens, LENDER, RECEIVER, ROUTER)
+        .withSlippage(0)
+        .borrow(USDC, '10000')
+        .swap({ path: [USDC, WETH] })
+        .swap({ path: [WETH, USDC], router: SELL_ROUTER });
+}
+
+const bought = getAmountOut(utils.parseUnits('10000', 6), BUY_RESERVES[0], BUY_RESERVES[1]);
+const sold = (sellPrice: number) => getAmountOut(bought, sellReserves(sellPrice)[1], sellReserves(sellPrice)[0]);
+
+describe('FlashLoanBuilder', () => {
+    it('should chain swap outputs and tally the expected profit', async () => {
+        const plan = await builderFor(2100).build(ACCOUNT);
+
+        expect(plan.fee.formatted).to.equal('9.0');
+        expect(plan.repayment.toString()).to.equal('10009000000');
+        expect(plan.profit.raw.toString()).to.equal(sold(2100).sub(10009000000).toString());
+        expect(plan.balances.find(b => b.token === WETH)!.raw.isZero()).to.equal(true);
+    });
+
+    it('should quote a later swap through the same pair on the reserves the earlier one left', async () => {
+        const provider = marketProvider(2100);
+        const tokens = new TokenRegistry(provider);
+        tokens.register({ address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6 });
+        tokens.register({ address: WETH, symbol: 'WETH', name: 'Wrapped Ether', decimals: 18 });
+
+        const plan = await new FlashLoanBuilder(provider, tokens, LENDER, RECEIVER, ROUTER)
+            .withSlippage(0)
+            .borrow(USDC, '10000')
+            .swap({ path: [USDC, WETH], amountIn: '5000' })
+            .swap({ path: [USDC, WETH], amountIn: '5000' })
+            .build(ACCOUNT);
+
+        const half = utils.parseUnits('5000', 6);
+        const first = getAmountOut(half, BUY_RESERVES[0], BUY_RESERVES[1]);
+        const second = getAmountOut(half, BUY_RESERVES[0].add(half), BUY_RESERVES[1].sub(first));
+        expect(second.lt(first)).to.equal(true);
+        expect(plan.balances.find(b => b.token === WETH)!.raw.toString()).to.equal(first.add(second).toString());
+    });
+
+    it('should refuse loans the lending pool cannot make', async () => {
+        let error: Error | undefined;
+        await builderFor(2100, '5000').build(ACCOUNT).catch(e => { error = e; });
+        expect(error?.message).to.contain('at most 5000.0 USDC');
+
+        const legacyPool = fakeContractProvider(iface, ({ fragment }) => {
+            if (fragment.name === 'maxFlashLoan') throw new Error('call revert exception');
+            return [];
+        });
+        const tokens = new TokenRegistry(legacyPool);
+        tokens.register({ address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6 });
+        await new FlashLoanBuilder(legacyPool, tokens, LENDER, RECEIVER, ROUTER)
+            .borrow(USDC, '10000')
+            .swap({ path: [USDC, WETH] })
+            .build(ACCOUNT)
+            .catch(e => { error = e; });
+        expect(error?.message).to.contain('not an ERC-3156 flash lender');
+    });
+
+    it('should encode approvals and swaps for the receiver to run in order', async () => {
+        const plan = await builderFor(2100).build(ACCOUNT);
+        const calls = decodeReceiverCalls(plan.data);
+
+        expect(calls.map(c => c.target)).to.deep.equal([USDC, utils.getAddress(ROUTER), WETH, SELL_ROUTER]);
+        const swap = new utils.Interface([
+            'function swapExactTokensForTokens(uint256,uint256,address[],address,uint256)'
+        ]).decodeFunctionData('swapExactTokensForTokens', calls[1].data);
+        expect(swap[3]).to.equal(RECEIVER);
+        expect(swap[1].toString()).to.equal(bought.toString());
+    });
+
+    it('should refuse plans that do not cover the loan and fee', async () => {
+        const plan = await builderFor(2000).build(ACCOUNT);
+        const shortfall = utils.formatUnits(BigNumber.from(10009000000).sub(sold(2000)), 6);
+        expect(() => assertProfitable(plan)).to.throw(FlashLoanUnprofitableError, `short ${shortfall} USDC`);
+
+        const profitable = await builderFor(2100).build(ACCOUNT);
+        expect(() => assertProfitable(profitable, BigNumber.from(1000e6))).to.throw('below the minimum');
+    });
+
+    it('should measure the receiver\'s net takings from simulated transfers', async () => {
+        const plan = await builderFor(2100).build(ACCOUNT);
+        const transfer = (from: string, to: string, value: number) => ({
+            address: USDC,
+            name: 'Transfer',
+            args: { from, to, value: BigNumber.from(value) } as any
+        });
+
+        const profit = simulatedProfit(plan, [
+            transfer(LENDER, RECEIVER, 100),
+            transfer(RECEIVER, ROUTER, 100),
+            transfer(ROUTER, RECEIVER, 130),
+            transfer(RECEIVER, LENDER, 101)
+        ]);
+        expect(profit.toNumber()).to.equal(29);
+    });
+});
@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { BigNumber, Wallet, utils } from 'ethers';
+import {
+    MessageBridge,
+    CrossChainMessage,
+    MESSAGE_BRIDGE_ABI,
+    REMOTE_EXECUTOR_ABI,
+    encodeCall,
+    decodeCall,
+    decodeResult,
+    decodeRevertReason,
+    messageDigest,
+    signMessage,
+    sortSignatures,
+    remoteProposalAction
+} from '../frontend/src/integrations/MessageBridge';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const SOURCE_BRIDGE = utils.getAddress('0x00000000000000000000000000000000000000a1');
+const DEST_BRIDGE = utils.getAddress('0x00000000000000000000000000000000000000a2');
+const TARGET = utils.getAddress('0x00000000000000000000000000000000000000b0');
+const SENDER = utils.getAddress('0x00000000000000000000000000000000000a11ce');
+const MESSAGE_ID = '0x' + 'aa'.repeat(32);
+const COUNTER_ABI = ['function setCount(uint256 count) returns (uint256 previous)'];
+
+const bridgeAbi = new utils.Interface(MESSAGE_BRIDGE_ABI);
+
+const message: CrossChainMessage = {
+    messageId: MESSAGE_ID,
+    sourceChainId: 138,
+    destinationChainId: 1,
+    sender: SENDER,
+    target: TARGET,
+    gasLimit: BigNumber.from(200000),
+    data: encodeCall(COUNTER_ABI, 'setCount', [7])
+};
+
+function bridgeLog(name: string, args: any[], blockNumber = 5) {
+    const { data, topics } = bridgeAbi.encodeEventLog(bridgeAbi.getEvent(name), args);
+    return { address: name === 'MessageSent' ? SOURCE_BRIDGE : DEST_BRIDGE, data, topics, blockNumber, transactionHash: '0x' + '11'.repeat(32) };
+}
+
+const createBridge = (source: any, destination: any) => new MessageBridge(
+    source,
+    destination,
+    138,
+    1,
+    { address: SOURCE_BRIDGE, requiredConfirmations: 2, gasLimit: 1000000 },
+    { address: DEST_BRIDGE, logBlockRange: 10 }
+);
+
+describe('MessageBridge', () => {
+    it('should encode and decode call payloads and results', () => {
+        const { method, args } = decodeCall(COUNTER_ABI, message.data);
+        expect(method).to.equal('setCount');
+        expect(args.count.toNumber()).to.equal(7);
+
+        const result = utils.defaultAbiCoder.encode(['uint256'], [3]);
+        expect(decodeResult(COUNTER_ABI, 'setCount', result).previous.toNumber()).to.equal(3);
+
+        const revert = utils.hexConcat(['0x08c379a0', utils.defaultAbiCoder.encode(['string'], ['Not owner'])]);
+        expect(decodeRevertReason(revert)).to.equal('Not owner');
+        expect(decodeRevertReason('0x')).to.equal('Execution reverted');
+    });
+
+    it('should sort relayer signatures by signer and drop repeats', async () => {
+        const relayers = [1, 2, 3].map(i => new Wallet(utils.hexZeroPad(utils.hexlify(i), 32)));
+        const signatures = await Promise.all(relayers.map(r => signMessage(r, DEST_BRIDGE, message)));
+
+        const sorted = sortSignatures(DEST_BRIDGE, message, [signatures[2], signatures[0], signatures[1], signatures[0]]);
+        const digest = utils.arrayify(messageDigest(DEST_BRIDGE, message));
+        const signers = sorted.map(signature => utils.verifyMessage(digest, signature).toLowerCase());
+        expect(signers).to.deep.equal(relayers.map(r => r.address.toLowerCase()).sort());
+
+        // Signatures are bound to one destination bridge
+        expect(messageDigest(SOURCE_BRIDGE, message)).to.not.equal(messageDigest(DEST_BRIDGE, message));
+    });
+
+    it('should build governance actions for a remote executor', () => {
+        const executor = utils.getAddress('0x00000000000000000000000000000000000000e0');
+        const action = remoteProposalAction(SOURCE_BRIDGE, 1, executor, [{ target: TARGET, data: message.data }], 300000);
+
+        expect(action.target).to.equal(SOURCE_BRIDGE);
+        const send = decodeCall(MESSAGE_BRIDGE_ABI, action.calldata);
+        expect(send.method).to.equal('requireToPassMessage');
+        expect(send.args.target).to.equal(executor);
+        expect(send.args.gasLimit.toNumber()).to.equal(300000);
+
+        const batch = decodeCall(REMOTE_EXECUTOR_ABI, send.args.data);
+        expect(batch.args.targets).to.deep.equal([TARGET]);
+        expect(batch.args.calldatas).to.deep.equal([message.data]);
+    });
+
+    it('should read sent messages and their execution on the destination', async () => {
+        const executions: any[] = [];
+        const bridge = createBridge({}, {
+            getBlockNumber: async () => 9,
+            getLogs: async (filter: any) => executions.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock)
+        });
+        const receipt = {
+            logs: [bridgeLog('MessageSent', [MESSAGE_ID, 1, SENDER, TARGET, 200000, message.data])]
+        } as any;
+
+        const [sent] = bridge.parseSendReceipt(receipt);
+        expect(sent.messageId).to.equal(MESSAGE_ID);
+        expect(sent.sourceChainId).to.equal(138);
+        expect(messageDigest(DEST_BRIDGE, sent)).to.equal(messageDigest(DEST_BRIDGE, message));
+
+        expect(await bridge.getExecution(MESSAGE_ID)).to.equal(null);
+        const revert = utils.hexConcat(['0x08c379a0', utils.defaultAbiCoder.encode(['string'], ['Not owner'])]);
+        executions.push(bridgeLog('MessageExecuted', [MESSAGE_ID, 138, SENDER, false, revert], 9));
+        const execution = await bridge.waitForExecution(MESSAGE_ID, { pollInterval: 1 });
+        expect(execution.success).to.equal(false);
+        expect(decodeRevertReason(execution.returnData)).to.equal('Not owner');
+    });
+
+    it('should search back from the head in bounded ranges', async () => {
+        const ranges: number[][] = [];
+        // The execution lands at block 30, after the head has been read at 25 three times
+        const heads = [25, 25, 25];
+        const bridge = createBridge({}, {
+            getBlockNumber: async () => heads.shift() ?? 32,
+            getLogs: async (filter: any) => {
+                ranges.push([filter.fromBlock, filter.toBlock]);
+                return filter.fromBlock <= 30 && filter.toBlock >= 30
+                    ? [bridgeLog('MessageExecuted', [MESSAGE_ID, 138, SENDER, true, '0x'], 30)]
+                    : [];
+            }
+        });
+
+        expect(await bridge.getExecution(MESSAGE_ID, 3)).to.equal(null);
+        expect(ranges).to.deep.equal([[16, 25], [6, 15], [3, 5]]);
+
+        // Later polls start from the head the last one saw
+        ranges.length = 0;
+        const execution = await bridge.waitForExecution(MESSAGE_ID, { pollInterval: 1, fromBlock: 20 });
+        expect(execution.blockNumber).to.equal(30);
+        expect(ranges).to.deep.equal([[20, 25], [25, 32]]);
+    });
+
+    it('should keep messages within the bridge gas limit', () => {
+        const bridge = createBridge({}, {});
+        expect(bridge.prepareSend(TARGET, '0x')[3].toNumber()).to.equal(500000);
+        expect(() => bridge.prepareSend(TARGET, '0x', 2000000)).to.throw('exceeds the bridge maximum of 1000000');
+    });
+});
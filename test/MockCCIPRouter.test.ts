@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { Contract, Signer, utils } from 'ethers';
+import { CcipTransport, EXECUTION_STATE } from '../frontend/src/integrations/CcipTransport';
+
+declare global {
+    var describe: Function;
+    var beforeEach: Function;
+    var it: Function;
+}
+
+const SELECTOR = '16015286601757825753';
+
+describe('MockCCIPRouter with CcipTransport', () => {
+    let router: Contract;
+    let transport: CcipTransport;
+    let sender: Signer;
+
+    const deploy = async (name: string, ...args: any[]) => {
+        const contract = await (await ethers.getContractFactory(name)).deploy(...args);
+        await contract.deployed();
+        return contract;
+    };
+
+    const send = async (receiver: string, data: string) => {
+        const { router: connected, args, fee } = await transport.prepareSend({ receiver, data }, sender);
+        const receipt = await (await connected.ccipSend(...args, { value: fee })).wait();
+        return transport.parseSendReceipt(receipt)[0];
+    };
+
+    beforeEach(async () => {
+        [sender] = await ethers.getSigners();
+        router = await deploy('MockCCIPRouter', SELECTOR, utils.parseEther('0.01'), 0);
+        // Executed on demand, like an OffRamp some blocks after the send
+        await (await router.setAutoExecute(false)).wait();
+        // Both ends of the lane on one node; small log ranges so lookups take several requests
+        transport = new CcipTransport(
+            ethers.provider,
+            ethers.provider,
+            { router: router.address, chainSelector: SELECTOR },
+            { router: '', chainSelector: SELECTOR, offRamp: router.address, logBlockRange: 3 }
+        );
+    });
+
+    it('should follow a message from ccipSend to its execution', async () => {
+        const destinationBlock = await ethers.provider.getBlockNumber();
+        const message = await send(await sender.getAddress(), '0x1234');
+        expect(message.data).to.equal('0x1234');
+        expect(utils.formatEther(message.fee)).to.equal('0.01');
+        expect(await transport.getExecution(message.messageId, destinationBlock)).to.equal(null);
+
+        await (await router.executeMessage(message.messageId)).wait();
+        await ethers.provider.send('hardhat_mine', ['0x8']);
+
+        const execution = await transport.getExecution(message.messageId, destinationBlock);
+        expect(execution!.state).to.equal(EXECUTION_STATE.success);
+        expect(execution!.blockNumber).to.be.greaterThan(destinationBlock);
+    });
+
+    it('should report a failed execution and a manual retry', async () => {
+        const destinationBlock = await ethers.provider.getBlockNumber();
+        // A contract without ccipReceive makes the delivery revert
+        const receiver = await deploy('MockMessageReceiver', router.address);
+        const message = await send(receiver.address, '0x1234');
+
+        await (await router.executeMessage(message.messageId)).wait();
+        const failed = await transport.getExecution(message.messageId, destinationBlock);
+        expect(failed!.state).to.equal(EXECUTION_STATE.failure);
+
+        await ethers.provider.send('hardhat_mine', ['0x5']);
+        await (await router.executeMessage(message.messageId)).wait();
+        const retried = await transport.getExecution(message.messageId, destinationBlock);
+        expect(retried!.state).to.equal(EXECUTION_STATE.failure);
+        expect(retried!.blockNumber).to.be.greaterThan(failed!.blockNumber);
+    });
+});
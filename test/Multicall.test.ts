@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { Contract, utils, BigNumber } from 'ethers';
+import { MulticallProvider, MULTICALL3_ABI, MULTICALL3_ADDRESS, tryAggregate } from '../frontend/src/integrations/Multicall';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('MulticallProvider', () => {
+    const ORACLE = '0x00000000000000000000000000000000000000aa';
+    const TOKENS = [1, 2, 3].map(i => utils.hexZeroPad(utils.hexlify(i), 20));
+    const oracleAbi = new utils.Interface(['function getPrice(address token) view returns (uint256)']);
+    const multicall = new utils.Interface(MULTICALL3_ABI);
+    const revert = '0x08c379a0' + utils.defaultAbiCoder.encode(['string'], ['Stale price']).slice(2);
+
+    // Token 3 has no price; everything else is worth its index in ether
+    const priceCall = (data: string): { success: boolean; returnData: string } => {
+        const [token] = oracleAbi.decodeFunctionData('getPrice', data);
+        const index = TOKENS.indexOf(token.toLowerCase());
+        return index === 2
+            ? { success: false, returnData: revert }
+            : { success: true, returnData: oracleAbi.encodeFunctionResult('getPrice', [utils.parseEther(String(index + 1))]) };
+    };
+
+    const createProvider = (options: { deployed?: boolean; batchSize?: number } = {}) => {
+        const provider = new MulticallProvider('http://localhost:8545', {
+            batchSize: options.batchSize,
+            network: { chainId: 138, name: 'chain138' }
+        });
+        const requests: { to: string; batch: number }[] = [];
+        (provider as any).detectNetwork = async () => provider.network;
+        (provider as any).perform = async (method: string, params: any) => {
+            if (method === 'getCode') return options.deployed === false ? '0x' : '0x6080';
+            if (method !== 'call') throw new Error(`Unexpected ${method}`);
+
+            const { to, data } = params.transaction;
+            if (utils.getAddress(to) === MULTICALL3_ADDRESS) {
+                const [calls] = multicall.decodeFunctionData('aggregate3', data);
+                requests.push({ to, batch: calls.length });
+                return multicall.encodeFunctionResult('aggregate3', [calls.map((c: any) => priceCall(c.callData))]);
+            }
+            requests.push({ to, batch: 1 });
+            const result = priceCall(data);
+            if (!result.success) throw Object.assign(new Error('execution reverted'), { data: result.returnData });
+            return result.returnData;
+        };
+        return { provider, requests };
+    };
+
+    it('should send concurrent reads as one aggregate3 request', async () => {
+        const { provider, requests } = createProvider();
+        const oracle = new Contract(ORACLE, oracleAbi, provider);
+
+        const [first, second] = await Promise.all([oracle.getPrice(TOKENS[0]), oracle.getPrice(TOKENS[1])]);
+        expect(utils.formatEther(first)).to.equal('1.0');
+        expect(utils.formatEther(second)).to.equal('2.0');
+        expect(requests).to.deep.equal([{ to: MULTICALL3_ADDRESS, batch: 2 }]);
+    });
+
+    it('should fail only the call that reverted', async () => {
+        const { provider } = createProvider();
+        const oracle = new Contract(ORACLE, oracleAbi, provider);
+
+        const results = await tryAggregate<BigNumber>(TOKENS.map(token => ({
+            contract: oracle,
+            method: 'getPrice',
+            args: [token]
+        })));
+        expect(results.map(r => r.success)).to.deep.equal([true, true, false]);
+        expect(results[1].value!.eq(utils.parseEther('2'))).to.equal(true);
+        expect(results[2].error).to.equal('Stale price');
+    });
+
+    it('should split large batches into chunks', async () => {
+        const { provider, requests } = createProvider({ batchSize: 2 });
+        const oracle = new Contract(ORACLE, oracleAbi, provider);
+
+        await Promise.all([0, 1, 0, 1, 0].map(i => oracle.getPrice(TOKENS[i])));
+        expect(requests.map(r => r.batch)).to.deep.equal([2, 2, 1]);
+    });
+
+    it('should call directly when no Multicall3 is deployed or a sender is set', async () => {
+        const { provider, requests } = createProvider({ deployed: false });
+        const oracle = new Contract(ORACLE, oracleAbi, provider);
+
+        await Promise.all([oracle.getPrice(TOKENS[0]), oracle.getPrice(TOKENS[1])]);
+        expect(requests.map(r => utils.getAddress(r.to))).to.deep.equal([ORACLE, ORACLE].map(utils.getAddress));
+
+        const deployed = createProvider();
+        const fromAccount = new Contract(ORACLE, oracleAbi, deployed.provider);
+        await Promise.all([
+            fromAccount.getPrice(TOKENS[0], { from: TOKENS[1] }),
+            fromAccount.getPrice(TOKENS[1], { from: TOKENS[1] })
+        ]);
+        expect(deployed.requests.map(r => r.batch)).to.deep.equal([1, 1]);
+    });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import {
+    NameService,
+    UnresolvedNameError,
+    ENS_REGISTRY_ABI,
+    PUBLIC_RESOLVER_ABI,
+    isName,
+    reverseName
+} from '../frontend/src/integrations/NameService';
+import { fakeContractProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const REGISTRY = '0x00000000000000000000000000000000000000e5';
+const RESOLVER = utils.getAddress('0x00000000000000000000000000000000000000e6');
+const ALICE = utils.getAddress('0x00000000000000000000000000000000000a11ce');
+const MALLORY = utils.getAddress('0x0000000000000000000000000000000000000bad');
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const ensAbi = new utils.Interface([...ENS_REGISTRY_ABI, ...PUBLIC_RESOLVER_ABI]);
+
+// Registry and resolver records keyed by namehash
+function ensProvider(records: { addr?: Record<string, string>; name?: Record<string, string> }) {
+    return fakeContractProvider(ensAbi, ({ fragment, args: [node] }) => {
+        const forward = Object.keys(records.addr || {}).find(n => utils.namehash(n) === node);
+        const reverse = Object.keys(records.name || {}).find(n => utils.namehash(n) === node);
+        switch (fragment.name) {
+            case 'resolver': return [forward || reverse ? RESOLVER : ZERO];
+            case 'addr': return [forward ? records.addr![forward] : ZERO];
+            case 'name': return [reverse ? records.name![reverse] : ''];
+            default: return [ZERO];
+        }
+    });
+}
+
+describe('NameService', () => {
+    it('should tell names from addresses', () => {
+        expect(isName('alice.c138')).to.equal(true);
+        expect(isName(ALICE)).to.equal(false);
+        expect(isName('USDC')).to.equal(false);
+    });
+
+    it('should resolve names and cache the lookup', async () => {
+        const provider = ensProvider({ addr: { 'alice.c138': ALICE } });
+        const names = new NameService(provider, REGISTRY);
+
+        expect(await names.resolveAddress('Alice.c138')).to.equal(ALICE);
+        expect(await names.resolveAddress('alice.c138')).to.equal(ALICE);
+        expect(provider.calls).to.deep.equal(['resolver', 'addr']);
+        expect(await names.resolveAddress(ALICE.toLowerCase())).to.equal(ALICE);
+    });
+
+    it('should reject names without an address record', async () => {
+        const names = new NameService(ensProvider({}), REGISTRY);
+
+        expect(await names.resolveName('bob.c138')).to.equal(null);
+        try {
+            await names.resolveAddress('bob.c138');
+            expect.fail('Expected the name to be unresolved');
+        } catch (error) {
+            expect(error).to.be.instanceOf(UnresolvedNameError);
+            expect((error as UnresolvedNameError).query).to.equal('bob.c138');
+        }
+    });
+
+    it('should only trust reverse records that resolve back to the address', async () => {
+        const names = new NameService(ensProvider({
+            addr: { 'alice.c138': ALICE },
+            name: { [reverseName(ALICE)]: 'alice.c138', [reverseName(MALLORY)]: 'alice.c138' }
+        }), REGISTRY);
+
+        expect(await names.lookupAddress(ALICE)).to.equal('alice.c138');
+        expect(await names.lookupAddress(MALLORY)).to.equal(null);
+        expect(await names.getDisplayName(MALLORY)).to.equal('0x0000…0Bad');
+    });
+});
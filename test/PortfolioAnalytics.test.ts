@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import {
+    PortfolioAnalytics,
+    periodReturns,
+    timeWeightedReturn,
+    annualisedVolatility,
+    sharpeRatio,
+    maxDrawdown,
+    annualisedReturn
+} from '../frontend/src/integrations/PortfolioAnalytics';
+import { MemoryStorage } from '../frontend/src/utils/storage';
+import { FakeCall, fakeContractProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const FARM = utils.getAddress('0x00000000000000000000000000000000000000fa');
+const TOKEN = utils.getAddress('0x00000000000000000000000000000000000000c6');
+const ACCOUNT = utils.getAddress('0x00000000000000000000000000000000000a11ce');
+
+const farmAbi = new utils.Interface([
+    'event Staked(address indexed user, uint256 amount, uint256 lockPeriod)',
+    'event Unstaked(address indexed user, uint256 amount)',
+    'function stakingToken() view returns (address)',
+    'function getPrice(address token) view returns (uint256)'
+]);
+
+// Farm with a stake of 100 at block 10 and an unstake of 40 at block 20, priced at 2 until
+// block 20 and 3 after; blocks are 100 seconds apart. Records the log ranges it was asked for.
+function farmProvider() {
+    const logs = [
+        { name: 'Staked', args: [ACCOUNT, utils.parseEther('100'), 0], blockNumber: 10 },
+        { name: 'Unstaked', args: [ACCOUNT, utils.parseEther('40')], blockNumber: 20 }
+    ].map(({ name, args, blockNumber }) => ({
+        ...farmAbi.encodeEventLog(farmAbi.getEvent(name), args),
+        address: FARM,
+        blockNumber,
+        logIndex: 0,
+        transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0')
+    }));
+    const ranges: number[][] = [];
+    const respond = ({ fragment, blockTag }: FakeCall) =>
+        fragment.name === 'stakingToken' ? [TOKEN] : [utils.parseEther(Number(blockTag) < 20 ? '2' : '3')];
+    return fakeContractProvider(farmAbi, respond, {
+        ranges,
+        getBlockNumber: async () => 40,
+        getBlock: async (blockNumber: number) => ({ number: blockNumber, timestamp: blockNumber * 100 }),
+        getLogs: async (filter: any) => {
+            ranges.push([filter.fromBlock, filter.toBlock]);
+            return logs.filter(log => log.topics[0] === filter.topics[0]
+                && log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+        }
+    });
+}
+
+describe('PortfolioAnalytics', () => {
+    describe('getPositionHistory', () => {
+        it('should split off the part of a position that was withdrawn', async () => {
+            const provider = farmProvider();
+            const tokens = { formatAmount: async (_token: string, raw: any) => utils.formatEther(raw) };
+            const analytics = new PortfolioAnalytics(provider, { priceOracle: FARM, logBlockRange: 16 }, tokens as any);
+            analytics.trackSource('farm', FARM);
+
+            const positions = await analytics.getPositionHistory(ACCOUNT);
+            const withdrawn = positions.find(p => p.closedAt !== undefined)!;
+            const remaining = positions.find(p => p.closedAt === undefined)!;
+
+            expect(withdrawn.exposures[0].amount).to.be.closeTo(40, 1e-9);
+            expect(withdrawn.costBasis).to.be.closeTo(80, 1e-9);
+            expect(withdrawn.closedAt).to.equal(2000);
+            expect(withdrawn.closeValue).to.be.closeTo(120, 1e-9);
+            expect(remaining.exposures[0].amount).to.be.closeTo(60, 1e-9);
+            expect(remaining.costBasis).to.be.closeTo(120, 1e-9);
+            expect(positions.length).to.equal(2);
+            // Both events are read in ranges of at most 16 blocks up to the head
+            const ranges = provider.ranges.sort((a: number[], b: number[]) => a[0] - b[0]);
+            expect(ranges).to.deep.equal([[0, 15], [0, 15], [16, 31], [16, 31], [32, 40], [32, 40]]);
+        });
+
+        it('should remember tracked sources across sessions', async () => {
+            const storage = new MemoryStorage();
+            const config = { priceOracle: FARM };
+            const tokens = { formatAmount: async (_token: string, raw: any) => utils.formatEther(raw) };
+            new PortfolioAnalytics(farmProvider(), config, tokens as any, storage).trackSource('farm', FARM.toLowerCase());
+
+            const reloaded = new PortfolioAnalytics(farmProvider(), config, tokens as any, storage);
+            expect(await reloaded.getPositionHistory(ACCOUNT)).to.have.length(2);
+            expect(await new PortfolioAnalytics(farmProvider(), config, tokens as any, new MemoryStorage()).getPositionHistory(ACCOUNT)).to.be.empty;
+        });
+    });
+
+    describe('periodReturns', () => {
+        it('should exclude deposits from period performance', () => {
+            const returns = periodReturns([
+                { timestamp: 0, value: 100, netFlow: 0 },
+                { timestamp: 1, value: 210, netFlow: 100 },
+                { timestamp: 2, value: 189, netFlow: 0 }
+            ]);
+
+            expect(returns.length).to.equal(2);
+            expect(returns[0]).to.be.closeTo(0.1, 1e-9);
+            expect(returns[1]).to.be.closeTo(-0.1, 1e-9);
+        });
+
+        it('should skip periods that start with an empty portfolio', () => {
+            const returns = periodReturns([
+                { timestamp: 0, value: 0, netFlow: 0 },
+                { timestamp: 1, value: 100, netFlow: 100 },
+                { timestamp: 2, value: 105, netFlow: 0 }
+            ]);
+
+            expect(returns.length).to.equal(1);
+            expect(returns[0]).to.be.closeTo(0.05, 1e-9);
+        });
+    });
+
+    describe('return metrics', () => {
+        it('should chain period returns geometrically', () => {
+            expect(timeWeightedReturn([0.1, -0.1])).to.be.closeTo(-0.01, 1e-9);
+        });
+
+        it('should measure the deepest peak-to-trough decline', () => {
+            expect(maxDrawdown([0.1, -0.5, 0.2, -0.1])).to.be.closeTo(0.5, 1e-9);
+            expect(maxDrawdown([0.01, 0.02])).to.equal(0);
+        });
+
+        it('should annualise volatility by the sampling frequency', () => {
+            const returns = [0.01, -0.01, 0.01, -0.01];
+            const daily = annualisedVolatility(returns, 1);
+            expect(annualisedVolatility(returns, 365)).to.be.closeTo(daily * Math.sqrt(365), 1e-9);
+        });
+
+        it('should return a zero Sharpe ratio for a flat series', () => {
+            expect(sharpeRatio([0, 0, 0], 365, 0.02)).to.equal(0);
+            expect(sharpeRatio([0.02, 0.01, 0.03], 365, 0)).to.be.above(0);
+        });
+
+        it('should compound returns to an annual rate', () => {
+            expect(annualisedReturn(0.1, 365 * 86400)).to.be.closeTo(0.1, 1e-9);
+            expect(annualisedReturn(0.01, 36.5 * 86400)).to.be.closeTo(Math.pow(1.01, 10) - 1, 1e-9);
+        });
+    });
+});
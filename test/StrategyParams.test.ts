@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import {
+    encodeStrategyParams,
+    decodeStrategyParams,
+    validateStrategyParams,
+    StrategyValidationError,
+    GridTradingParams
+} from '../frontend/src/integrations/StrategyParams';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const token0 = '0x0000000000000000000000000000000000000001';
+const token1 = '0x0000000000000000000000000000000000000002';
+
+const grid: GridTradingParams = {
+    token0,
+    token1,
+    gridSize: 10,
+    priceRange: { min: utils.parseEther('0.8'), max: utils.parseEther('1.2') }
+};
+
+function violationsOf(fn: () => void): string[] {
+    try {
+        fn();
+    } catch (e) {
+        expect(e).to.be.instanceOf(StrategyValidationError);
+        return (e as StrategyValidationError).violations;
+    }
+    return [];
+}
+
+describe('StrategyParams', () => {
+    it('should round-trip grid trading parameters', () => {
+        const decoded = decodeStrategyParams('GRID_TRADING', encodeStrategyParams('GRID_TRADING', grid));
+        expect(decoded.gridSize).to.equal(10);
+        expect(utils.formatEther(decoded.priceRange.min)).to.equal('0.8');
+        expect(utils.formatEther(decoded.priceRange.max)).to.equal('1.2');
+    });
+
+    it('should encode fractions as 1e18 fixed-point', () => {
+        const data = encodeStrategyParams('MEAN_REVERSION', {
+            token0,
+            token1,
+            lookbackPeriod: 48,
+            deviationThreshold: 0.05
+        });
+        const [, , lookback, threshold] = utils.defaultAbiCoder.decode(
+            ['address', 'address', 'uint256', 'uint256'],
+            data
+        );
+        expect(lookback.toNumber()).to.equal(48);
+        expect(threshold.eq(utils.parseEther('0.05'))).to.equal(true);
+        expect(decodeStrategyParams('MEAN_REVERSION', data).deviationThreshold).to.equal(0.05);
+    });
+
+    it('should reject grids beyond the configured limits', () => {
+        const violations = violationsOf(() => validateStrategyParams('GRID_TRADING', {
+            ...grid,
+            gridSize: 500,
+            priceRange: { min: utils.parseEther('0.5'), max: utils.parseEther('1.5') }
+        }));
+        expect(violations.some(v => v.includes('gridSize exceeds'))).to.equal(true);
+        expect(violations.some(v => v.includes('price range'))).to.equal(true);
+    });
+
+    it('should reject mean reversion settings outside the configured ranges', () => {
+        const violations = violationsOf(() => validateStrategyParams('MEAN_REVERSION', {
+            token0,
+            token1,
+            lookbackPeriod: 12,
+            deviationThreshold: 0.5
+        }));
+        expect(violations).to.have.length(2);
+    });
+
+    it('should require the short moving average to be shorter than the long one', () => {
+        const violations = violationsOf(() => validateStrategyParams('TREND_FOLLOWING', {
+            token0,
+            token1,
+            shortPeriod: 25,
+            longPeriod: 7,
+            minTrendStrength: 0.01
+        }));
+        expect(violations).to.deep.equal(['shortPeriod must be shorter than longPeriod']);
+    });
+});
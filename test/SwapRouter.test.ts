@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { SwapRouter } from '../frontend/src/integrations/SwapRouter';
+import { TokenRegistry, NATIVE_TOKEN } from '../frontend/src/integrations/TokenRegistry';
+import { fakeContractProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const ROUTER = '0x00000000000000000000000000000000000000a1';
+const FACTORY = '0x00000000000000000000000000000000000000f1';
+const WETH = utils.getAddress('0x00000000000000000000000000000000000000e1');
+const USDC = utils.getAddress('0x00000000000000000000000000000000000000c6');
+const DAI = utils.getAddress('0x00000000000000000000000000000000000000d1');
+
+const abi = new utils.Interface([
+    'function factory() view returns (address)',
+    'function WETH() view returns (address)',
+    'function getPair(address tokenA, address tokenB) view returns (address pair)',
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+    'function token0() view returns (address)',
+    'function symbol() view returns (string)',
+    'function name() view returns (string)',
+    'function decimals() view returns (uint8)'
+]);
+
+// Pairs keyed by address, with reserves in whole tokens of 18 decimals
+function ammProvider(pools: { tokens: [string, string]; reserves: [number, number] }[]) {
+    const pairs = pools.map((pool, i) => ({ ...pool, address: utils.hexZeroPad(utils.hexlify(0x100 + i), 20) }));
+    return fakeContractProvider(abi, ({ to, fragment, args }) => {
+        const pair = pairs.find(p => p.address === to.toLowerCase());
+        switch (fragment.name) {
+            case 'factory': return [FACTORY];
+            case 'WETH': return [WETH];
+            case 'getPair': {
+                const match = pairs.find(p => p.tokens.includes(args[0]) && p.tokens.includes(args[1]));
+                return [match ? match.address : NATIVE_TOKEN];
+            }
+            case 'getReserves': return [...pair!.reserves.map(r => utils.parseEther(String(r))), 0];
+            case 'token0': return [pair!.tokens[0]];
+            case 'symbol': return ['TKN'];
+            case 'name': return ['Token'];
+            default: return [18];
+        }
+    });
+}
+
+describe('SwapRouter', () => {
+    // The direct pair is shallow, so the hop through WETH gives more
+    const pools = [
+        { tokens: [USDC, DAI] as [string, string], reserves: [1000, 1000] as [number, number] },
+        { tokens: [USDC, WETH] as [string, string], reserves: [1000000, 500] as [number, number] },
+        { tokens: [DAI, WETH] as [string, string], reserves: [1000000, 500] as [number, number] }
+    ];
+
+    const createRouter = () => {
+        const provider = ammProvider(pools);
+        return new SwapRouter(provider, new TokenRegistry(provider), ROUTER);
+    };
+
+    it('should find direct and hub routes over existing pairs', async () => {
+        const routes = await createRouter().findRoutes(USDC, DAI);
+        expect(routes).to.deep.equal([[USDC, DAI], [USDC, WETH, DAI]]);
+        expect(await createRouter().findRoutes(NATIVE_TOKEN, DAI)).to.deep.equal([[WETH, DAI]]);
+    });
+
+    it('should quote exact-input swaps on the best route', async () => {
+        const quote = await createRouter().quoteExactIn(USDC, DAI, '100', 1);
+
+        expect(quote.path).to.deep.equal([USDC, WETH, DAI]);
+        expect(Number(quote.amountOut.formatted)).to.be.closeTo(99.4, 0.1);
+        expect(quote.amountOutMin.raw.toString()).to.equal(quote.amountOut.raw.mul(99).div(100).toString());
+        expect(quote.priceImpact).to.be.closeTo(0.006, 0.001);
+        expect(quote.midPrice).to.be.closeTo(1, 1e-3);
+    });
+
+    it('should quote exact-output swaps with a slippage ceiling on the input', async () => {
+        const quote = await createRouter().quoteExactOut(USDC, DAI, '100', 1);
+
+        expect(quote.tradeType).to.equal('exactOut');
+        expect(quote.amountOut.formatted).to.equal('100.0');
+        expect(quote.amountInMax.raw.gt(quote.amountIn.raw)).to.equal(true);
+        expect(quote.amountIn.raw.mul(10000).div(quote.amountInMax.raw).toNumber()).to.be.within(9899, 9900);
+    });
+
+    it('should reject swaps the pools cannot fill', async () => {
+        try {
+            await createRouter().quoteExactOut(USDC, NATIVE_TOKEN, '600', 1);
+            expect.fail('Expected the quote to fail');
+        } catch (error: any) {
+            expect(error.message).to.equal('Insufficient liquidity for this swap');
+        }
+    });
+});
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { TokenRegistry, NATIVE_TOKEN } from '../frontend/src/integrations/TokenRegistry';
+import { fakeContractProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const USDC = '0x00000000000000000000000000000000000000c6';
+const erc20 = new utils.Interface([
+    'function symbol() view returns (string)',
+    'function name() view returns (string)',
+    'function decimals() view returns (uint8)'
+]);
+
+function erc20Provider(symbol: string, decimals: number) {
+    const values: Record<string, any> = { symbol, name: `${symbol} Token`, decimals };
+    return fakeContractProvider(erc20, ({ fragment }) => [values[fragment.name]]);
+}
+
+describe('TokenRegistry', () => {
+    it('should parse and format amounts with the token decimals', async () => {
+        const registry = new TokenRegistry(erc20Provider('USDC', 6));
+
+        const raw = await registry.parseAmount(USDC, '1.5');
+        expect(raw.toString()).to.equal('1500000');
+        expect(await registry.formatAmount(USDC, raw)).to.equal('1.5');
+    });
+
+    it('should return raw and human units together', async () => {
+        const registry = new TokenRegistry(erc20Provider('USDC', 6));
+
+        const amount = await registry.fromHuman(USDC, '250');
+        expect(amount.symbol).to.equal('USDC');
+        expect(amount.decimals).to.equal(6);
+        expect(amount.raw.toString()).to.equal('250000000');
+        expect(amount.formatted).to.equal('250.0');
+    });
+
+    it('should cache metadata and share in-flight lookups', async () => {
+        const provider = erc20Provider('USDC', 6);
+        const registry = new TokenRegistry(provider);
+
+        await Promise.all([registry.getMetadata(USDC), registry.getDecimals(utils.getAddress(USDC))]);
+        await registry.getMetadata(USDC);
+        expect(provider.calls.filter((c: string) => c === 'decimals')).to.have.length(1);
+    });
+
+    it('should use registered metadata without querying the chain', async () => {
+        const provider = erc20Provider('USDC', 6);
+        const registry = new TokenRegistry(provider);
+        registry.register({ address: USDC, symbol: 'mUSDC', name: 'Mock USDC', decimals: 8 });
+
+        expect((await registry.parseAmount(USDC, '1')).toString()).to.equal('100000000');
+        expect((await registry.toTokenAmount(NATIVE_TOKEN, utils.parseEther('2'))).symbol).to.equal('C138');
+        expect(provider.calls).to.be.empty;
+    });
+});
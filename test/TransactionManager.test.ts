@@ -0,0 +1,196 @@
+import { expect } from 'chai';
+import { BigNumber, Signer, providers, utils } from 'ethers';
+import { TransactionManager, TransactionManagerRegistry, TrackedTransaction } from '../frontend/src/integrations/TransactionManager';
+import { WalletConnection } from '../frontend/src/integrations/WalletConnection';
+import { MemoryStorage } from '../frontend/src/utils/storage';
+import { fakeProvider } from './setup';
+
+declare global {
+    var describe: Function;
+    var beforeEach: Function;
+    var it: Function;
+}
+
+const ACCOUNT = '0x00000000000000000000000000000000000000a1';
+const TARGET = '0x00000000000000000000000000000000000000b2';
+const GWEI = utils.parseUnits('1', 'gwei');
+
+class FakeChain {
+    pendingCount = 5;
+    minedCount = 5;
+    sent: providers.TransactionRequest[] = [];
+    receipts = new Map<string, any>();
+    mempool = new Set<string>();
+    failNext = false;
+
+    provider: providers.Provider = fakeProvider({
+        getTransactionCount: async (_: string, tag: string) => tag === 'pending' ? this.pendingCount : this.minedCount,
+        getTransactionReceipt: async (hash: string) => this.receipts.get(hash) || null,
+        getTransaction: async (hash: string) => this.mempool.has(hash) ? { hash } : null,
+        getFeeData: async () => ({ maxFeePerGas: GWEI.mul(20), maxPriorityFeePerGas: GWEI, gasPrice: GWEI.mul(20) })
+    });
+
+    mine(hash: string, status = 1) {
+        this.receipts.set(hash, { transactionHash: hash, blockNumber: 10, status });
+        this.minedCount++;
+    }
+}
+
+class FakeSigner extends Signer {
+    private chain: FakeChain;
+
+    constructor(chain: FakeChain) {
+        super();
+        this.chain = chain;
+    }
+
+    async getAddress() { return utils.getAddress(ACCOUNT); }
+    async getChainId() { return 138; }
+    async signMessage(): Promise<string> { throw new Error('unused'); }
+    async signTransaction(): Promise<string> { throw new Error('unused'); }
+    connect(): Signer { return this; }
+
+    async sendTransaction(request: any): Promise<providers.TransactionResponse> {
+        if (this.chain.failNext) {
+            this.chain.failNext = false;
+            throw new Error('insufficient funds');
+        }
+        this.chain.sent.push(request);
+        const hash = utils.id(`${request.nonce}:${this.chain.sent.length}`);
+        this.chain.mempool.add(hash);
+        return {
+            hash,
+            nonce: request.nonce,
+            to: request.to,
+            data: request.data || '0x',
+            value: BigNumber.from(request.value || 0),
+            gasLimit: BigNumber.from(request.gasLimit || 100000),
+            maxFeePerGas: BigNumber.from(request.maxFeePerGas || GWEI.mul(10)),
+            maxPriorityFeePerGas: BigNumber.from(request.maxPriorityFeePerGas || GWEI)
+        } as any;
+    }
+}
+
+describe('TransactionManager', () => {
+    let chain: FakeChain;
+    let storage: MemoryStorage;
+    let manager: TransactionManager;
+    let signer: Signer;
+
+    beforeEach(async () => {
+        chain = new FakeChain();
+        storage = new MemoryStorage();
+        manager = new TransactionManager(chain.provider, { storage, dropTimeout: 0 });
+        signer = await manager.attach(new FakeSigner(chain));
+    });
+
+    it('should hand out sequential nonces to concurrent sends', async () => {
+        chain.failNext = true;
+        const results = await Promise.allSettled([
+            signer.sendTransaction({ to: TARGET, data: '0x01' }),
+            signer.sendTransaction({ to: TARGET, data: '0x02' }),
+            signer.sendTransaction({ to: TARGET, data: '0x03' })
+        ]);
+
+        expect(results.map(r => r.status)).to.deep.equal(['rejected', 'fulfilled', 'fulfilled']);
+        expect(chain.sent.map(tx => tx.nonce)).to.deep.equal([5, 6]);
+        expect(manager.getTransactions('pending')).to.have.length(2);
+    });
+
+    it('should speed up and cancel with the same nonce and higher fees', async () => {
+        const replaced: string[] = [];
+        manager.on('replaced', (_tx: TrackedTransaction, previous: string) => replaced.push(previous));
+
+        const original = await signer.sendTransaction({ to: TARGET, data: '0x01' });
+        const faster = await manager.speedUp(original.hash);
+        expect(faster.nonce).to.equal(original.nonce);
+        expect(faster.maxFeePerGas!.gte(original.maxFeePerGas!.mul(1125).div(1000))).to.equal(true);
+        expect(faster.maxFeePerGas!.gte(GWEI.mul(20))).to.equal(true);
+
+        const cancel = await manager.cancel(original.hash);
+        expect(cancel.to).to.equal(utils.getAddress(ACCOUNT));
+        expect(cancel.value.isZero()).to.equal(true);
+        expect(replaced).to.deep.equal([original.hash, faster.hash]);
+
+        chain.mine(cancel.hash);
+        await manager.poll();
+        const tracked = manager.getTransaction(original.hash)!;
+        expect(tracked.status).to.equal('cancelled');
+        expect(tracked.id).to.equal(original.hash);
+    });
+
+    it('should queue concurrent replacements so each bumps the last', async () => {
+        const original = await signer.sendTransaction({ to: TARGET, data: '0x01' });
+        const [faster, cancel] = await Promise.all([manager.speedUp(original.hash), manager.cancel(original.hash)]);
+
+        expect(cancel.maxFeePerGas!.gt(faster.maxFeePerGas!)).to.equal(true);
+        expect(cancel.maxPriorityFeePerGas!.gt(faster.maxPriorityFeePerGas!)).to.equal(true);
+        expect(manager.getTransaction(original.hash)!.hashes).to.deep.equal([original.hash, faster.hash, cancel.hash]);
+    });
+
+    it('should report mined, externally replaced and dropped transactions', async () => {
+        const events: string[] = [];
+        manager.on('mined', (tx: TrackedTransaction) => events.push(`mined:${tx.nonce}`));
+        manager.on('replaced', (tx: TrackedTransaction) => events.push(`replaced:${tx.nonce}`));
+        manager.on('dropped', (tx: TrackedTransaction) => events.push(`dropped:${tx.nonce}`));
+
+        const first = await signer.sendTransaction({ to: TARGET });
+        await signer.sendTransaction({ to: TARGET });
+        const third = await signer.sendTransaction({ to: TARGET });
+
+        chain.mine(first.hash);
+        chain.minedCount++; // nonce 6 taken by a transaction we didn't send
+        chain.mempool.delete(third.hash);
+        await manager.poll();
+
+        expect(events).to.deep.equal(['mined:5', 'replaced:6', 'dropped:7']);
+        expect(manager.getTransactions('pending')).to.be.empty;
+
+        // The dropped nonce is reused
+        chain.pendingCount = 7;
+        const next = await signer.sendTransaction({ to: TARGET });
+        expect(next.nonce).to.equal(7);
+    });
+
+    it('should restore pending transactions after a restart', async () => {
+        await signer.sendTransaction({ to: TARGET });
+        await signer.sendTransaction({ to: TARGET });
+
+        // The node has forgotten both, but they may still be rebroadcast elsewhere
+        const restarted = new TransactionManager(chain.provider, { storage });
+        const restartedSigner = await restarted.attach(new FakeSigner(chain));
+        expect(restarted.getTransactions('pending').map(tx => tx.nonce)).to.deep.equal([5, 6]);
+
+        const next = await restartedSigner.sendTransaction({ to: TARGET });
+        expect(next.nonce).to.equal(7);
+        restarted.detach();
+    });
+
+    it('should share one manager between services sending from the same account', async () => {
+        const registry = new TransactionManagerRegistry({ storage });
+        const shared = registry.get(138, chain.provider);
+        expect(registry.get(138, fakeProvider())).to.equal(shared);
+        expect(TransactionManagerRegistry.forStorage(storage)).to.equal(TransactionManagerRegistry.forStorage(storage));
+
+        // As DeFiService and BridgeService would each connect the user's wallet
+        const defi = new WalletConnection(chain.provider, 138, shared);
+        const bridge = new WalletConnection(chain.provider, 138, shared);
+        await defi.connect(new FakeSigner(chain));
+        await bridge.connect(new FakeSigner(chain));
+
+        await Promise.all([
+            defi.requireSigner().sendTransaction({ to: TARGET }),
+            bridge.requireSigner().sendTransaction({ to: TARGET }),
+            defi.requireSigner().sendTransaction({ to: TARGET })
+        ]);
+        expect(chain.sent.map(tx => tx.nonce)).to.deep.equal([5, 6, 7]);
+
+        // One disconnecting leaves the other's sends and the saved list intact
+        defi.disconnect();
+        const next = await bridge.requireSigner().sendTransaction({ to: TARGET });
+        expect(next.nonce).to.equal(8);
+        const saved = JSON.parse(storage.getItem(`transactions:138:${ACCOUNT}`)!);
+        expect(saved.map((tx: TrackedTransaction) => tx.nonce)).to.deep.equal([5, 6, 7, 8]);
+        bridge.disconnect();
+    });
+});
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { decodeRevert, extractRevertData } from '../frontend/src/integrations/TransactionSimulator';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('TransactionSimulator', () => {
+    describe('decodeRevert', () => {
+        it('should decode Error(string) reasons', () => {
+            const data = utils.hexConcat([
+                '0x08c379a0',
+                utils.defaultAbiCoder.encode(['string'], ['Insufficient collateral'])
+            ]);
+
+            const revert = decodeRevert(data);
+            expect(revert.type).to.equal('Error');
+            expect(revert.message).to.equal('Insufficient collateral');
+        });
+
+        it('should decode Panic codes', () => {
+            const data = utils.hexConcat([
+                '0x4e487b71',
+                utils.defaultAbiCoder.encode(['uint256'], [0x11])
+            ]);
+
+            const revert = decodeRevert(data);
+            expect(revert.type).to.equal('Panic');
+            expect(revert.message).to.equal('Arithmetic overflow or underflow');
+        });
+
+        it('should decode custom errors from the contract ABI', () => {
+            const iface = new utils.Interface(['error LeverageTooHigh(uint256 requested, uint256 max)']);
+            const data = iface.encodeErrorResult('LeverageTooHigh', [20, 10]);
+
+            const revert = decodeRevert(data, iface);
+            expect(revert.type).to.equal('CustomError');
+            expect(revert.name).to.equal('LeverageTooHigh');
+            expect(revert.message).to.equal('LeverageTooHigh(20, 10)');
+        });
+
+        it('should report empty and unknown revert data', () => {
+            expect(decodeRevert('0x').type).to.equal('Unknown');
+            expect(decodeRevert('0xdeadbeef').message).to.contain('0xdeadbeef');
+        });
+    });
+
+    describe('extractRevertData', () => {
+        it('should find revert data nested in provider errors', () => {
+            const error = {
+                error: {
+                    body: JSON.stringify({ error: { code: 3, data: '0x08c379a0' } })
+                }
+            };
+
+            expect(extractRevertData(error)).to.equal('0x08c379a0');
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { providers, Wallet } from 'ethers';
+import { WalletConnection } from '../frontend/src/integrations/WalletConnection';
+
+declare global {
+    var describe: Function;
+    var beforeEach: Function;
+    var it: Function;
+}
+
+class MockEip1193Provider {
+    chainId = 138;
+    accounts: string[];
+    private handlers: Record<string, ((...args: any[]) => void)[]> = {};
+
+    constructor(account: string) {
+        this.accounts = [account];
+    }
+
+    async request({ method }: { method: string }) {
+        switch (method) {
+            case 'eth_chainId':
+                return '0x' + this.chainId.toString(16);
+            case 'net_version':
+                return this.chainId.toString();
+            case 'eth_accounts':
+            case 'eth_requestAccounts':
+                return this.accounts;
+            default:
+                throw new Error(`Unsupported method ${method}`);
+        }
+    }
+
+    on(event: string, handler: (...args: any[]) => void) {
+        (this.handlers[event] = this.handlers[event] || []).push(handler);
+    }
+
+    removeListener(event: string, handler: (...args: any[]) => void) {
+        this.handlers[event] = (this.handlers[event] || []).filter(h => h !== handler);
+    }
+
+    fire(event: string, ...args: any[]) {
+        (this.handlers[event] || []).forEach(h => h(...args));
+    }
+}
+
+describe('WalletConnection', () => {
+    const readProvider = new providers.JsonRpcProvider('http://localhost:8545');
+    let account: string;
+    let injected: MockEip1193Provider;
+    let connection: WalletConnection;
+
+    beforeEach(async () => {
+        account = Wallet.createRandom().address;
+        injected = new MockEip1193Provider(account);
+        connection = new WalletConnection(readProvider, 138);
+        await connection.connect(injected);
+    });
+
+    it('should connect through an injected EIP-1193 provider', async () => {
+        expect(connection.isConnected).to.equal(true);
+        expect(connection.account).to.equal(account);
+        expect(connection.chainId).to.equal(138);
+    });
+
+    it('should emit account and chain changes', async () => {
+        const events: any[] = [];
+        connection.on('accountChanged', (next: string | null) => events.push(['account', next]));
+        connection.on('chainChanged', (chainId: number) => events.push(['chain', chainId]));
+
+        const next = Wallet.createRandom().address;
+        injected.fire('accountsChanged', [next]);
+        injected.fire('chainChanged', '0x1');
+
+        expect(events).to.deep.equal([['account', next], ['chain', 1]]);
+        expect(connection.account).to.equal(next);
+    });
+
+    it('should refuse to send from the wrong chain', async () => {
+        await connection.assertChain();
+
+        injected.chainId = 1;
+        let error: Error | undefined;
+        try {
+            await connection.assertChain();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error!.message).to.contain('Wrong network');
+    });
+
+    it('should stop listening after disconnect', async () => {
+        let disconnected = false;
+        connection.on('disconnect', () => { disconnected = true; });
+        connection.disconnect();
+
+        injected.fire('accountsChanged', [Wallet.createRandom().address]);
+        expect(disconnected).to.equal(true);
+        expect(connection.isConnected).to.equal(false);
+        expect(connection.account).to.equal(null);
+    });
+});
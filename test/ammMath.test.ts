@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import {
+    applySlippage,
+    getAmountIn,
+    getAmountOut,
+    getAmountsIn,
+    getAmountsOut,
+    liquidityToAmounts,
+    optimalLiquidityAmounts,
+    pathPriceImpact,
+    priceDeviationBps,
+    priceImpact,
+    toleranceToBps
+} from '../frontend/src/utils/ammMath';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('ammMath', () => {
+    it('should reduce amounts by the slippage tolerance', () => {
+        expect(applySlippage(10000, 0.5).toNumber()).to.equal(9950);
+        expect(applySlippage(10000, 0).toNumber()).to.equal(10000);
+        expect(() => toleranceToBps(100)).to.throw('Invalid slippage tolerance');
+    });
+
+    it('should match the pool ratio without exceeding either desired amount', () => {
+        const [amount0, amount1] = optimalLiquidityAmounts(100, 300, 1000, 2000);
+        expect(amount0.toNumber()).to.equal(100);
+        expect(amount1.toNumber()).to.equal(200);
+
+        const [limited0, limited1] = optimalLiquidityAmounts(100, 100, 1000, 2000);
+        expect(limited0.toNumber()).to.equal(50);
+        expect(limited1.toNumber()).to.equal(100);
+    });
+
+    it('should accept any ratio for an empty pool', () => {
+        const [amount0, amount1] = optimalLiquidityAmounts(7, 3, 0, 0);
+        expect(amount0.toNumber()).to.equal(7);
+        expect(amount1.toNumber()).to.equal(3);
+    });
+
+    it('should measure how far the pool price is from the expected one', () => {
+        expect(priceDeviationBps(100, 200, 1000, 2000)).to.equal(0);
+        expect(priceDeviationBps(100, 200, 1000, 2100)).to.equal(500);
+        expect(priceDeviationBps(100, 200, 1000, 1900)).to.equal(500);
+    });
+
+    it('should split an LP balance pro rata', () => {
+        const [amount0, amount1] = liquidityToAmounts(BigNumber.from(25), 100, 1000, 4000);
+        expect(amount0.toNumber()).to.equal(250);
+        expect(amount1.toNumber()).to.equal(1000);
+        expect(liquidityToAmounts(1, 0, 1, 1)[0].isZero()).to.equal(true);
+    });
+
+    it('should quote swaps after the 0.3% fee', () => {
+        expect(getAmountOut(1000, 100000, 100000).toNumber()).to.equal(987);
+        expect(getAmountIn(987, 100000, 100000).toNumber()).to.equal(1000);
+        expect(() => getAmountIn(100000, 100000, 100000)).to.throw('Insufficient liquidity');
+    });
+
+    it('should measure price impact against the mid price', () => {
+        expect(priceImpact(1000, 100000, 100000)).to.be.closeTo(0.013, 1e-9);
+        expect(priceImpact(50000, 100000, 100000)).to.be.greaterThan(0.3);
+    });
+
+    it('should chain quotes across multi-hop paths', () => {
+        const hops = [
+            { reserveIn: BigNumber.from(100000), reserveOut: BigNumber.from(100000) },
+            { reserveIn: BigNumber.from(50000), reserveOut: BigNumber.from(200000) }
+        ];
+        const amounts = getAmountsOut(1000, hops);
+        expect(amounts.map(a => a.toNumber())).to.deep.equal([1000, 987, 3860]);
+
+        const required = getAmountsIn(3860, hops);
+        expect(required[2].toNumber()).to.equal(3860);
+        expect(getAmountsOut(required[0], hops)[2].gte(3860)).to.equal(true);
+
+        // Mid price would give 4000, so the path loses about 3.5% to depth and two fees
+        expect(pathPriceImpact(1000, amounts[2], hops)).to.be.closeTo(0.035, 1e-4);
+    });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import {
+    blackScholes,
+    historicalVolatility,
+    normalCdf
+} from '../frontend/src/utils/blackScholes';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const inputs = { spot: 100, strike: 100, timeToExpiry: 1, volatility: 0.2, riskFreeRate: 0.05 };
+
+describe('blackScholes', () => {
+    it('should approximate the standard normal distribution', () => {
+        expect(normalCdf(0)).to.be.closeTo(0.5, 1e-7);
+        expect(normalCdf(1.96)).to.be.closeTo(0.975, 1e-4);
+        expect(normalCdf(-1.96)).to.be.closeTo(0.025, 1e-4);
+    });
+
+    it('should price an at-the-money call and put', () => {
+        const call = blackScholes({ ...inputs, isCall: true });
+        const put = blackScholes({ ...inputs, isCall: false });
+
+        expect(call.price).to.be.closeTo(10.4506, 1e-3);
+        expect(put.price).to.be.closeTo(5.5735, 1e-3);
+        // Put-call parity: C - P = S - K e^{-rT}
+        expect(call.price - put.price).to.be.closeTo(100 - 100 * Math.exp(-0.05), 1e-6);
+    });
+
+    it('should return the textbook greeks', () => {
+        const call = blackScholes({ ...inputs, isCall: true });
+        const put = blackScholes({ ...inputs, isCall: false });
+
+        expect(call.delta).to.be.closeTo(0.6368, 1e-3);
+        expect(put.delta).to.be.closeTo(-0.3632, 1e-3);
+        expect(call.gamma).to.be.closeTo(0.01876, 1e-4);
+        expect(call.gamma).to.equal(put.gamma);
+        expect(call.vega).to.be.closeTo(0.3752, 1e-3);
+        expect(call.theta).to.be.closeTo(-6.414 / 365, 1e-4);
+    });
+
+    it('should value expired options at intrinsic value', () => {
+        const expired = blackScholes({ ...inputs, spot: 120, timeToExpiry: 0, isCall: true });
+        expect(expired.price).to.equal(20);
+        expect(expired.delta).to.equal(1);
+        expect(blackScholes({ ...inputs, spot: 120, timeToExpiry: 0, isCall: false }).price).to.equal(0);
+    });
+
+    it('should annualise realised volatility across irregular updates', () => {
+        const day = 86400;
+        const up = Math.exp(0.01);
+        const observations = [
+            { timestamp: 0, price: 100 },
+            { timestamp: day, price: 100 * up },
+            { timestamp: 3 * day, price: 100 }
+        ];
+        // Two 1% log moves over three days
+        expect(historicalVolatility(observations)).to.be.closeTo(Math.sqrt(0.0002 / (3 / 365)), 1e-12);
+        expect(historicalVolatility(observations.slice(0, 1))).to.equal(0);
+    });
+});
@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import {
+    SECONDS_PER_YEAR,
+    compoundedApy,
+    isCompoundProfitable,
+    lockRemaining,
+    optimalCompoundInterval,
+    rewardApr
+} from '../frontend/src/utils/farmMath';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('farmMath', () => {
+    it('should price emissions against the value staked', () => {
+        // 1 reward/s at $0.50 over $10m staked is 15.768m a year, ~157.7%
+        const emission = { rewardRate: 1, rewardPrice: 0.5, totalStaked: 5000000, stakingPrice: 2 };
+        expect(rewardApr(emission, 1000)).to.be.closeTo(SECONDS_PER_YEAR * 0.5 / 10000000, 1e-12);
+        expect(rewardApr({ ...emission, periodFinish: 999 }, 1000)).to.equal(0);
+        expect(rewardApr({ ...emission, totalStaked: 0 }, 1000)).to.equal(0);
+    });
+
+    it('should compound an APR into an APY', () => {
+        expect(compoundedApy(0.1, 365)).to.be.closeTo(0.10516, 1e-5);
+        expect(compoundedApy(0.1, 0)).to.equal(0.1);
+    });
+
+    it('should count down the lock', () => {
+        expect(lockRemaining(1600, 1000)).to.equal(600);
+        expect(lockRemaining(900, 1000)).to.equal(0);
+    });
+
+    it('should only compound when rewards outweigh gas', () => {
+        expect(isCompoundProfitable(5, 4)).to.equal(true);
+        expect(isCompoundProfitable(5, 5)).to.equal(false);
+        expect(isCompoundProfitable(5, 4, 2)).to.equal(false);
+        expect(isCompoundProfitable(0, 0)).to.equal(false);
+    });
+
+    it('should space compounds further apart as gas rises', () => {
+        const cheap = optimalCompoundInterval(10000, 0.2, 1);
+        // sqrt(2 * 1 / (10000 * 0.04)) years
+        expect(cheap / SECONDS_PER_YEAR).to.be.closeTo(Math.sqrt(0.005), 1e-12);
+        expect(optimalCompoundInterval(10000, 0.2, 4)).to.be.closeTo(cheap * 2, 1e-6);
+        expect(optimalCompoundInterval(10000, 0, 1)).to.equal(Infinity);
+    });
+});
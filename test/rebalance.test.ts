@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { planTrades, toBasisPoints, validateTargetWeights, weightDrifts } from '../frontend/src/utils/rebalance';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('rebalance', () => {
+    const holdings = [
+        { token: 'A', value: 700 },
+        { token: 'B', value: 200 },
+        { token: 'C', value: 100 }
+    ];
+    const targets = [
+        { token: 'A', weight: 0.5 },
+        { token: 'B', weight: 0.35 },
+        { token: 'C', weight: 0.15 }
+    ];
+
+    it('should reject allocations that do not sum to 100%', () => {
+        expect(() => validateTargetWeights([{ token: 'A', weight: 0.6 }])).to.throw('expected 100%');
+        expect(() => validateTargetWeights([
+            { token: 'A', weight: 0.5 },
+            { token: 'a', weight: 0.5 }
+        ])).to.throw('Duplicate allocation');
+        expect(() => validateTargetWeights([
+            { token: 'A', weight: 1.5 },
+            { token: 'B', weight: -0.5 }
+        ])).to.throw('between 0 and 100%');
+        expect(() => validateTargetWeights(targets)).to.not.throw();
+    });
+
+    it('should convert weights to basis points that sum to 10000', () => {
+        expect(toBasisPoints([1 / 3, 1 / 3, 1 / 3])).to.deep.equal([3334, 3333, 3333]);
+        expect(toBasisPoints([0.5, 0.35, 0.15])).to.deep.equal([5000, 3500, 1500]);
+        expect(toBasisPoints([0.12345, 0.12345, 0.7531])).to.deep.equal([1235, 1234, 7531]);
+    });
+
+    it('should compute drift from target, treating untargeted holdings as zero', () => {
+        const drifts = weightDrifts([...holdings, { token: 'D', value: 0 }], targets);
+        const a = drifts.find(d => d.token === 'A')!;
+        expect(a.currentWeight).to.be.closeTo(0.7, 1e-9);
+        expect(a.drift).to.be.closeTo(0.2, 1e-9);
+        expect(drifts.find(d => d.token === 'D')!.targetWeight).to.equal(0);
+    });
+
+    it('should pair the largest seller with the largest buyer', () => {
+        const trades = planTrades(weightDrifts(holdings, targets), { driftThreshold: 0, minTradeValue: 0 });
+        expect(trades).to.have.length(2);
+        expect(trades[0]).to.include({ from: 'A', to: 'B' });
+        expect(trades[0].value).to.be.closeTo(150, 1e-6);
+        expect(trades[1]).to.include({ from: 'A', to: 'C' });
+        expect(trades[1].value).to.be.closeTo(50, 1e-6);
+    });
+
+    it('should leave small drifts and small trades alone', () => {
+        const drifts = weightDrifts(holdings, targets);
+        expect(planTrades(drifts, { driftThreshold: 0.25, minTradeValue: 0 })).to.be.empty;
+
+        const trades = planTrades(drifts, { driftThreshold: 0.1, minTradeValue: 0 });
+        expect(trades).to.have.length(1);
+        expect(trades[0]).to.include({ from: 'A', to: 'B' });
+
+        const large = planTrades(drifts, { driftThreshold: 0, minTradeValue: 100 });
+        expect(large).to.have.length(1);
+        expect(large[0]).to.include({ from: 'A', to: 'B' });
+    });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import {
+    PerpPositionState,
+    InterestRateModel,
+    accruedInterest,
+    borrowCapacity,
+    borrowRate,
+    healthFactor,
+    supplyRate,
+    effectiveLeverage,
+    perpLiquidationPrice,
+    positionEquity,
+    unrealizedPnl
+} from '../frontend/src/utils/riskMath';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+const long: PerpPositionState = { isLong: true, size: 10, entryPrice: 100, margin: 200, fundingOwed: 0 };
+const short: PerpPositionState = { ...long, isLong: false };
+
+describe('riskMath', () => {
+    describe('perpetual positions', () => {
+        it('should sign PnL by direction', () => {
+            expect(unrealizedPnl(long, 110)).to.equal(100);
+            expect(unrealizedPnl(short, 110)).to.equal(-100);
+        });
+
+        it('should deduct funding from equity', () => {
+            expect(positionEquity({ ...long, fundingOwed: 15 }, 100)).to.equal(185);
+            expect(effectiveLeverage(long, 100)).to.equal(5);
+            expect(effectiveLeverage(long, 80)).to.equal(Infinity);
+        });
+
+        it('should put the liquidation price where equity meets the maintenance requirement', () => {
+            const price = perpLiquidationPrice(long, 0.05, 0.01);
+            const equity = positionEquity(long, price);
+            expect(equity).to.be.closeTo(0.06 * long.size * price, 1e-9);
+            expect(price).to.be.below(long.entryPrice);
+
+            const shortPrice = perpLiquidationPrice(short, 0.05, 0.01);
+            expect(positionEquity(short, shortPrice)).to.be.closeTo(0.06 * short.size * shortPrice, 1e-9);
+            expect(shortPrice).to.be.above(short.entryPrice);
+        });
+
+        it('should move the liquidation price closer as funding accrues', () => {
+            const withFunding = perpLiquidationPrice({ ...long, fundingOwed: 50 }, 0.05);
+            expect(withFunding).to.be.above(perpLiquidationPrice(long, 0.05));
+            expect(perpLiquidationPrice({ ...long, size: 0 }, 0.05)).to.equal(0);
+        });
+    });
+
+    describe('lending', () => {
+        const model: InterestRateModel = { baseRate: 0.02, multiplier: 0.1, jumpMultiplier: 0.2, optimal: 0.8 };
+        const collateral = [
+            { value: 1000, maxLTV: 0.8, liquidationThreshold: 0.85 },
+            { value: 500, maxLTV: 0.75, liquidationThreshold: 0.8 }
+        ];
+
+        it('should weight collateral by LTV and liquidation threshold', () => {
+            expect(borrowCapacity(collateral)).to.equal(1175);
+            expect(healthFactor(collateral, 1250)).to.be.closeTo(1, 1e-12);
+            expect(healthFactor(collateral, 0)).to.equal(Infinity);
+        });
+
+        it('should apply the jump multiplier above optimal utilization', () => {
+            expect(borrowRate(model, 0.5)).to.be.closeTo(0.07, 1e-12);
+            expect(borrowRate(model, 0.8)).to.be.closeTo(0.10, 1e-12);
+            expect(borrowRate(model, 0.9)).to.be.closeTo(0.12, 1e-12);
+            expect(supplyRate(model, 0.5)).to.be.closeTo(0.035, 1e-12);
+        });
+
+        it('should compound interest over the period', () => {
+            expect(accruedInterest(1000, 0.1, 365 * 24 * 3600)).to.be.closeTo(105.17, 0.01);
+            expect(accruedInterest(1000, 0.1, 0)).to.equal(0);
+        });
+    });
+});
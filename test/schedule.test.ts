@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import { backoffDelay, nextScanRange } from '../scripts/relayer/schedule';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('relayer schedule', () => {
+    it('should only scan blocks with enough confirmations', () => {
+        // Head 100 with 3 confirmations: block 98 is the newest safe one
+        expect(nextScanRange(90, 100, 3, 2000)).to.deep.equal({ fromBlock: 91, toBlock: 98 });
+        expect(nextScanRange(98, 100, 3, 2000)).to.equal(null);
+        // One confirmation means the head block itself
+        expect(nextScanRange(99, 100, 1, 2000)).to.deep.equal({ fromBlock: 100, toBlock: 100 });
+        expect(nextScanRange(99, 100, 0, 2000)).to.deep.equal({ fromBlock: 100, toBlock: 100 });
+    });
+
+    it('should split long catch-ups into bounded ranges', () => {
+        expect(nextScanRange(-1, 5000, 2, 2000)).to.deep.equal({ fromBlock: 0, toBlock: 1999 });
+        expect(nextScanRange(3999, 5000, 2, 2000)).to.deep.equal({ fromBlock: 4000, toBlock: 4999 });
+    });
+
+    it('should back off exponentially up to the maximum, with jitter', () => {
+        const options = { baseDelay: 1000, maxDelay: 10000 };
+        expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, options, () => 1)))
+            .to.deep.equal([1000, 2000, 4000, 8000, 10000]);
+        expect(backoffDelay(3, options, () => 0)).to.equal(2000);
+        expect(backoffDelay(2, { ...options, factor: 3 }, () => 1)).to.equal(3000);
+    });
+});
@@ -1,8 +1,10 @@
-import { ethers } from 'hardhat';
-import { Wallet } from 'ethers';
-import { MockProvider } from 'ethereum-waffle';
+import { Wallet, providers, utils } from 'ethers';
 
+// Hardhat and Waffle are loaded on first use, so unit tests can share the fakes below
+// without starting a Hardhat runtime
 export const setupTestEnvironment = async () => {
+    const { MockProvider } = await import('ethereum-waffle');
+
     // Deploy mock contracts
     const mockContracts = await deployMockContracts();
     
@@ -20,6 +22,8 @@ export const setupTestEnvironment = async () => {
 };
 
 async function deployMockContracts() {
+    const { ethers } = await import('hardhat');
+
     // Deploy mock token
     const MockToken = await ethers.getContractFactory('MockToken');
     const token = await MockToken.deploy('Mock Token', 'MTK', ethers.utils.parseEther('1000000'));
@@ -84,6 +88,41 @@ export const testConstants = {
     CHAIN_ID: 138,
     VOTING_DELAY: 1,
     VOTING_PERIOD: 5,
-    PROPOSAL_THRESHOLD: ethers.utils.parseEther('100'),
+    PROPOSAL_THRESHOLD: utils.parseEther('100'),
     QUORUM_PERCENTAGE: 4
-}; 
\ No newline at end of file
+}; 
+
+export interface FakeCall {
+    to: string;
+    data: string;
+    blockTag?: number | string;
+    fragment: utils.FunctionFragment;
+    args: utils.Result;
+}
+
+// Provider with just the methods a test needs; contracts accept it as a real one.
+// The extra fields, such as recorded calls, stay visible to the test.
+export function fakeProvider<T extends object>(methods: T = {} as T): providers.Provider & T {
+    const provider: { _isProvider: true } & T = { _isProvider: true, ...methods };
+    return provider as unknown as providers.Provider & T;
+}
+
+// Answers eth_call for the functions in `abi` with the values `respond` returns,
+// recording the name of each function called
+export function fakeContractProvider<T extends object>(
+    abi: utils.Interface,
+    respond: (call: FakeCall) => any[],
+    methods: T = {} as T
+) {
+    const calls: string[] = [];
+    return fakeProvider({
+        calls,
+        call: async (tx: { to: string; data: string }, blockTag?: number | string) => {
+            const fragment = abi.getFunction(tx.data.slice(0, 10));
+            const args = abi.decodeFunctionData(fragment, tx.data);
+            calls.push(fragment.name);
+            return abi.encodeFunctionResult(fragment, respond({ to: tx.to, data: tx.data, blockTag, fragment, args }));
+        },
+        ...methods
+    });
+}
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import {
+    TriggerOrder,
+    evaluateOrder,
+    isTriggered,
+    updateTrailingStop,
+    validateOrder
+} from '../scripts/keeper/triggers';
+
+declare global {
+    var describe: Function;
+    var it: Function;
+}
+
+describe('keeper triggers', () => {
+    it('should trigger stops and take-profits on the right side of the price', () => {
+        const longStop: TriggerOrder = { type: 'stopLoss', isLong: true, triggerPrice: 90 };
+        expect(isTriggered(longStop, 95)).to.equal(false);
+        expect(isTriggered(longStop, 90)).to.equal(true);
+
+        const shortStop: TriggerOrder = { type: 'stopLoss', isLong: false, triggerPrice: 110 };
+        expect(isTriggered(shortStop, 105)).to.equal(false);
+        expect(isTriggered(shortStop, 111)).to.equal(true);
+
+        const longTarget: TriggerOrder = { type: 'takeProfit', isLong: true, triggerPrice: 120 };
+        expect(isTriggered(longTarget, 119)).to.equal(false);
+        expect(isTriggered(longTarget, 125)).to.equal(true);
+    });
+
+    it('should hold a stop-limit once the price gaps through its limit', () => {
+        const order: TriggerOrder = { type: 'stopLimit', isLong: true, triggerPrice: 90, limitPrice: 85 };
+        expect(isTriggered(order, 91)).to.equal(false);
+        expect(isTriggered(order, 88)).to.equal(true);
+        expect(isTriggered(order, 80)).to.equal(false);
+    });
+
+    it('should only tighten a trailing stop', () => {
+        let order: TriggerOrder = { type: 'trailingStop', isLong: true, triggerPrice: 90, trailingPercent: 10 };
+        order = updateTrailingStop(order, 120);
+        expect(order.peakPrice).to.equal(120);
+        expect(order.triggerPrice).to.be.closeTo(108, 1e-9);
+
+        order = updateTrailingStop(order, 115);
+        expect(order.triggerPrice).to.be.closeTo(108, 1e-9);
+
+        const { triggered } = evaluateOrder(order, 107);
+        expect(triggered).to.equal(true);
+    });
+
+    it('should trail shorts from below', () => {
+        const order: TriggerOrder = { type: 'trailingStop', isLong: false, triggerPrice: 110, trailingPercent: 5 };
+        const { order: updated, triggered } = evaluateOrder(order, 80);
+        expect(updated.triggerPrice).to.be.closeTo(84, 1e-9);
+        expect(triggered).to.equal(false);
+        expect(evaluateOrder(updated, 85).triggered).to.equal(true);
+    });
+
+    it('should reject malformed orders', () => {
+        expect(() => validateOrder({ type: 'stopLoss', isLong: true, triggerPrice: 0 })).to.throw('positive');
+        expect(() => validateOrder({ type: 'stopLimit', isLong: true, triggerPrice: 90 })).to.throw('limit price');
+        expect(() => validateOrder({ type: 'stopLimit', isLong: true, triggerPrice: 90, limitPrice: 95 }))
+            .to.throw('far side');
+        expect(() => validateOrder({ type: 'trailingStop', isLong: true, triggerPrice: 90 })).to.throw('trailing');
+    });
+});